@@ -1,20 +1,32 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { lazy, Suspense } from "react";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import MainLayout from "./components/MainLayout";
 import LoginPage from "./pages/LoginPage";
+import OAuthCallbackPage from "./pages/OAuthCallbackPage";
 import DashboardPage from "./pages/DashboardPage";
 import TransactionsPage from "./pages/TransactionsPage";
+import WatchlistPage from "./pages/WatchlistPage";
+import LabelsPage from "./pages/LabelsPage";
+import GraphPage from "./pages/GraphPage";
+import TracePage from "./pages/TracePage";
 import AlertsPage from "./pages/AlertsPage";
+import ScreeningPage from "./pages/ScreeningPage";
 import ReportsPage from "./pages/ReportsPage";
 import SettingsPage from "./pages/SettingsPage";
 import NotFound from "./pages/NotFound";
 import { AuthProvider } from "@/auth/AuthContext";
 import PrivateRoute from "@/auth/PrivateRoute";
+import RequirePermission from "@/auth/RequirePermission";
+import SessionExpiredDialog from "@/auth/SessionExpiredDialog";
+import { MonitoredWalletProvider } from "@/wallet/MonitoredWalletContext";
+import { queryClient } from "@/lib/queryClient";
 
-const queryClient = new QueryClient();
+// dev-only; the branch is dropped from production builds
+const TxTableBenchmark = import.meta.env.DEV ? lazy(() => import("./pages/TxTableBenchmark")) : null;
 
 
 const App = () => (
@@ -24,22 +36,47 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/login" element={<LoginPage />} />
-            {/* Protected area */}
-            <Route element={<PrivateRoute />}>
-              <Route element={<MainLayout />}>
-                <Route path="/" element={<Navigate to="/dashboard" replace />} />
-                <Route path="/dashboard" element={<DashboardPage />} />
-                <Route path="/transactions" element={<TransactionsPage />} />
-                <Route path="/alerts" element={<AlertsPage />} />
-                <Route path="/reports" element={<ReportsPage />} />
-                <Route path="/settings" element={<SettingsPage />} />
+          <MonitoredWalletProvider>
+            <SessionExpiredDialog />
+            <Routes>
+              <Route path="/login" element={<LoginPage />} />
+              <Route path="/auth/callback" element={<OAuthCallbackPage />} />
+              {/* Protected area */}
+              <Route element={<PrivateRoute />}>
+                <Route element={<MainLayout />}>
+                  <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                  <Route element={<RequirePermission permission="transactions:view" />}>
+                    <Route path="/dashboard/:chain?/:address?" element={<DashboardPage />} />
+                    <Route path="/transactions/:chain?/:address?" element={<TransactionsPage />} />
+                    <Route path="/graph/:chain?/:address?" element={<GraphPage />} />
+                    <Route path="/trace/:chain?/:address?" element={<TracePage />} />
+                    <Route path="/watchlist" element={<WatchlistPage />} />
+                    <Route path="/labels" element={<LabelsPage />} />
+                  </Route>
+                  <Route element={<RequirePermission permission="alerts:view" />}>
+                    <Route path="/alerts/:chain?/:address?" element={<AlertsPage />} />
+                    <Route path="/screening" element={<ScreeningPage />} />
+                  </Route>
+                  <Route element={<RequirePermission permission="reports:view" />}>
+                    <Route path="/reports/:chain?/:address?" element={<ReportsPage />} />
+                  </Route>
+                  <Route path="/settings" element={<SettingsPage />} />
+                  {TxTableBenchmark && (
+                    <Route
+                      path="/dev/tx-benchmark"
+                      element={
+                        <Suspense fallback={null}>
+                          <TxTableBenchmark />
+                        </Suspense>
+                      }
+                    />
+                  )}
+                </Route>
               </Route>
-            </Route>
-            {/* Catch-all */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+              {/* Catch-all */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </MonitoredWalletProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
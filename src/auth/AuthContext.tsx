@@ -1,13 +1,34 @@
-import { createContext, useContext, useEffect, useMemo, useState } from "react";
-import { getAuth, postForm, postJson } from "@/lib/api";
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { authApi, isMfaChallenge, type TokenResponse, type User } from "@/lib/api";
+import { replayFailedRequests } from "@/lib/queryClient";
+import { onSessionExpired } from "./session";
+import type { OidcCallbackResult } from "./oidc";
+import {
+  REFRESH_LEEWAY_MS,
+  clearTokens,
+  getAccessToken,
+  getAccessTokenExpiry,
+  getRefreshToken,
+  refreshAccessToken,
+  setTokens,
+  subscribeTokens,
+} from "./tokens";
+
+/** Password login either completes or asks for a second factor (see verifyMfa). */
+export type LoginResult = { status: "ok" } | { status: "mfa_required"; mfaToken: string };
 
-type User = { id: number; email: string; full_name?: string | null };
 type AuthCtx = {
   user: User | null;
   token: string | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  /** Token was rejected mid-session; the app stays mounted until the user re-authenticates. */
+  sessionExpired: boolean;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  /** Second login step with a TOTP or recovery code. */
+  verifyMfa: (mfaToken: string, code: string) => Promise<void>;
   register: (email: string, password: string, full_name?: string) => Promise<void>;
+  /** Finish an SSO redirect (see auth/oidc.ts). */
+  loginWithOidc: (result: OidcCallbackResult) => Promise<void>;
   logout: () => void;
 };
 
@@ -19,21 +40,23 @@ export const useAuth = () => {
 };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [token, setToken] = useState<string | null>(() => localStorage.getItem("auth_token"));
+  const [token, setToken] = useState<string | null>(() => getAccessToken());
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const sessionExpiredRef = useRef(false);
+  sessionExpiredRef.current = sessionExpired;
 
   // hydrate user on first load if token exists
   useEffect(() => {
     (async () => {
       try {
         if (token) {
-          const me = await getAuth("/auth/me", token);
+          const me = await authApi.me();
           setUser(me);
         }
       } catch {
-        localStorage.removeItem("auth_token");
-        setToken(null);
+        clearTokens();
         setUser(null);
       } finally {
         setLoading(false);
@@ -41,26 +64,90 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     })();
   }, []);
 
-  const login = async (email: string, password: string) => {
-    const res = await postForm("/auth/login", { username: email, password });
-    localStorage.setItem("auth_token", res.access_token);
-    setToken(res.access_token);
-    const me = await getAuth("/auth/me", res.access_token);
+  // tokens.ts is the source of truth (refreshes, other tabs); mirror it into state
+  useEffect(() => subscribeTokens(setToken), []);
+
+  // silent refresh shortly before the access token expires
+  useEffect(() => {
+    if (!token || !getRefreshToken()) return;
+    const exp = getAccessTokenExpiry();
+    if (!exp) return;
+    const id = setTimeout(() => {
+      refreshAccessToken();
+    }, Math.max(0, exp - Date.now() - REFRESH_LEEWAY_MS));
+    return () => clearTimeout(id);
+  }, [token]);
+
+  // Every successful sign-in ends here. Signing in again after expiry also
+  // replays the requests that failed meanwhile.
+  const startSession = useCallback(async (res: TokenResponse) => {
+    setTokens(res);
+    const me = await authApi.me();
     setUser(me);
-  };
+    if (sessionExpiredRef.current) {
+      setSessionExpired(false);
+      await replayFailedRequests();
+    }
+  }, []);
 
-  const register = async (email: string, password: string, full_name?: string) => {
-    await postJson("/auth/register", { email, password, full_name });
-    // auto-login after register:
-    await login(email, password);
-  };
+  const login = useCallback(
+    async (email: string, password: string): Promise<LoginResult> => {
+      const res = await authApi.login(email, password);
+      if (isMfaChallenge(res)) return { status: "mfa_required", mfaToken: res.mfa_token };
+      await startSession(res);
+      return { status: "ok" };
+    },
+    [startSession]
+  );
 
-  const logout = () => {
-    localStorage.removeItem("auth_token");
-    setToken(null);
+  const verifyMfa = useCallback(
+    async (mfaToken: string, code: string) => {
+      await startSession(await authApi.verifyMfa(mfaToken, code));
+    },
+    [startSession]
+  );
+
+  const loginWithOidc = useCallback(
+    async (result: OidcCallbackResult) => {
+      const res = await authApi.oidcCallback(result.provider, {
+        code: result.code,
+        code_verifier: result.codeVerifier,
+        redirect_uri: result.redirectUri,
+        nonce: result.nonce,
+      });
+      await startSession(res);
+    },
+    [startSession]
+  );
+
+  // any query/mutation rejected for an expired session lands here (see lib/queryClient.ts)
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        clearTokens();
+        setSessionExpired(true);
+      }),
+    []
+  );
+
+  const register = useCallback(
+    async (email: string, password: string, full_name?: string) => {
+      await authApi.register({ email, password, full_name });
+      // auto-login after register (a brand-new account has no 2FA yet):
+      await login(email, password);
+    },
+    [login]
+  );
+
+  const logout = useCallback(() => {
+    clearTokens();
     setUser(null);
-  };
+    setSessionExpired(false);
+  }, []);
 
-  const value = useMemo(() => ({ user, token, loading, login, register, logout }), [user, token, loading]);
+  const value = useMemo(
+    () => ({ user, token, loading, sessionExpired, login, verifyMfa, register, loginWithOidc, logout }),
+    [user, token, loading, sessionExpired, login, verifyMfa, register, loginWithOidc, logout]
+  );
   return <Ctx.Provider value={value}>{children}</Ctx.Provider>;
 };
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { errorMessage } from "@/lib/api";
+
+type Props = {
+  onVerify: (code: string) => Promise<void>;
+  onCancel?: () => void;
+  /** Offer the recovery-code fallback (login); off when confirming enrollment. */
+  allowRecoveryCode?: boolean;
+  submitLabel?: string;
+};
+
+/** Six-digit TOTP entry, with an optional recovery-code fallback. */
+const MfaChallenge = ({ onVerify, onCancel, allowRecoveryCode = true, submitLabel = "Verify" }: Props) => {
+  const [code, setCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ready = useRecovery ? code.trim().length >= 8 : code.length === 6;
+
+  const submit = async (value: string) => {
+    setPending(true);
+    setError(null);
+    try {
+      await onVerify(value.trim());
+    } catch (e) {
+      setError(errorMessage(e));
+      setCode("");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (ready) submit(code);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {useRecovery ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="xxxx-xxxx"
+            autoComplete="one-time-code"
+            autoFocus
+            className="bg-secondary/50 border-border/50 font-mono"
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Authentication code</Label>
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={submit}
+            inputMode="numeric"
+            pattern="^[0-9]*$"
+            autoFocus
+            disabled={pending}
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((i) => (
+                <InputOTPSlot key={i} index={i} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <p className="text-xs text-muted-foreground">Enter the 6-digit code from your authenticator app.</p>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-destructive break-words">{error}</div>}
+
+      <div className="flex items-center gap-2">
+        <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={!ready || pending}>
+          {pending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        {allowRecoveryCode && (
+          <Button
+            type="button"
+            variant="link"
+            className="ml-auto text-primary px-0"
+            onClick={() => {
+              setUseRecovery(!useRecovery);
+              setCode("");
+              setError(null);
+            }}
+          >
+            {useRecovery ? "Use authenticator code" : "Use a recovery code"}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default MfaChallenge;
@@ -2,8 +2,9 @@ import { Navigate, Outlet } from "react-router-dom";
 import { useAuth } from "./AuthContext";
 
 const PrivateRoute = () => {
-  const { token, loading } = useAuth();
+  const { token, loading, sessionExpired } = useAuth();
   if (loading) return null; // or a spinner
-  return token ? <Outlet /> : <Navigate to="/login" replace />;
+  // keep the page mounted behind the re-login dialog so the user doesn't lose their place
+  return token || sessionExpired ? <Outlet /> : <Navigate to="/login" replace />;
 };
 export default PrivateRoute;
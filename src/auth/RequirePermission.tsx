@@ -0,0 +1,30 @@
+import { Outlet } from "react-router-dom";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ShieldOff } from "lucide-react";
+import { useAuth } from "./AuthContext";
+import { useCan } from "./useCan";
+import type { Permission } from "./permissions";
+
+/** Route wrapper (or plain wrapper with children) that requires a permission. */
+const RequirePermission = ({ permission, children }: { permission: Permission; children?: React.ReactNode }) => {
+  const { loading } = useAuth();
+  const can = useCan();
+  if (loading) return null;
+  if (!can(permission)) {
+    return (
+      <Card className="border-destructive/30 bg-destructive/5 max-w-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <ShieldOff className="h-5 w-5" />
+            Access denied
+          </CardTitle>
+          <CardDescription>
+            Your role doesn't include <span className="font-mono">{permission}</span>. Ask an admin if you need access.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+  return children ? <>{children}</> : <Outlet />;
+};
+export default RequirePermission;
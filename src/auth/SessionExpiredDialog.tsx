@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, LogIn } from "lucide-react";
+import { errorMessage } from "@/lib/api";
+import { useAuth } from "./AuthContext";
+import MfaChallenge from "./MfaChallenge";
+
+/** Re-login in place when the API starts rejecting our token. */
+const SessionExpiredDialog = () => {
+  const { user, sessionExpired, login, verifyMfa, logout } = useAuth();
+  const navigate = useNavigate();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (sessionExpired) {
+      setEmail(user?.email ?? "");
+      setPassword("");
+      setError(null);
+      setMfaToken(null);
+    }
+  }, [sessionExpired, user?.email]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending(true);
+    setError(null);
+    try {
+      const res = await login(email, password);
+      if (res.status === "mfa_required") setMfaToken(res.mfaToken);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    logout();
+    navigate("/login");
+  };
+
+  return (
+    <AlertDialog open={sessionExpired}>
+      <AlertDialogContent>
+        {mfaToken ? (
+          <div className="space-y-4">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Two-factor authentication</AlertDialogTitle>
+              <AlertDialogDescription>Confirm it's you to resume your session.</AlertDialogDescription>
+            </AlertDialogHeader>
+            <MfaChallenge onVerify={(code) => verifyMfa(mfaToken, code)} onCancel={() => setMfaToken(null)} />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Session expired</AlertDialogTitle>
+              <AlertDialogDescription>
+                Sign in again to continue. Your current view is kept and failed requests will be retried.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="reauth-email">Email</Label>
+              <Input
+                id="reauth-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="bg-secondary/50 border-border/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reauth-password">Password</Label>
+              <Input
+                id="reauth-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoFocus
+                className="bg-secondary/50 border-border/50"
+              />
+            </div>
+            {error && <div className="text-sm text-destructive break-words">{error}</div>}
+
+            <AlertDialogFooter>
+              <Button type="button" variant="outline" className="border-border/50" onClick={handleSignOut}>
+                Sign out
+              </Button>
+              <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={pending}>
+                {pending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogIn className="h-4 w-4 mr-2" />}
+                Sign in
+              </Button>
+            </AlertDialogFooter>
+          </form>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SessionExpiredDialog;
@@ -0,0 +1,157 @@
+// OAuth2 authorization-code + PKCE for the social / SSO buttons.
+// The browser only obtains the authorization code; the backend exchanges it
+// (with our code_verifier) at the provider and answers with our own tokens.
+//
+// Provider endpoints come from env. Point *_ISSUER at a local mock OIDC issuer
+// for testing; its /.well-known/openid-configuration is used for discovery.
+
+export type OidcProviderId = "google" | "github";
+
+export type OidcProvider = {
+  id: OidcProviderId;
+  name: string;
+  clientId: string;
+  issuer?: string;
+  authorizeUrl?: string;   // skips discovery when set (GitHub has no discovery document)
+  scope: string;
+};
+
+const env = import.meta.env;
+
+const PROVIDERS: Record<OidcProviderId, Omit<OidcProvider, "clientId"> & { clientId?: string }> = {
+  google: {
+    id: "google",
+    name: "Google",
+    clientId: env.VITE_OIDC_GOOGLE_CLIENT_ID,
+    issuer: env.VITE_OIDC_GOOGLE_ISSUER ?? "https://accounts.google.com",
+    authorizeUrl: env.VITE_OIDC_GOOGLE_AUTHORIZE_URL,
+    scope: env.VITE_OIDC_GOOGLE_SCOPE ?? "openid email profile",
+  },
+  github: {
+    id: "github",
+    name: "GitHub",
+    clientId: env.VITE_OIDC_GITHUB_CLIENT_ID,
+    issuer: env.VITE_OIDC_GITHUB_ISSUER,
+    authorizeUrl:
+      env.VITE_OIDC_GITHUB_AUTHORIZE_URL ??
+      (env.VITE_OIDC_GITHUB_ISSUER ? undefined : "https://github.com/login/oauth/authorize"),
+    scope: env.VITE_OIDC_GITHUB_SCOPE ?? "read:user user:email",
+  },
+};
+
+export function getOidcProvider(id: OidcProviderId): OidcProvider | null {
+  const p = PROVIDERS[id];
+  return p?.clientId ? (p as OidcProvider) : null;
+}
+
+export function oidcRedirectUri() {
+  return env.VITE_OIDC_REDIRECT_URI ?? `${window.location.origin}/auth/callback`;
+}
+
+/* ---------------------------------- PKCE ---------------------------------- */
+
+function base64Url(bytes: Uint8Array) {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function randomToken(byteLength = 32) {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/** RFC 7636 S256 challenge for a verifier. */
+export async function pkceChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+/* ------------------------------- Redirect flow ------------------------------ */
+
+const PENDING_KEY = "oidc_pending";
+const PENDING_MAX_AGE_MS = 10 * 60_000;
+
+type Pending = {
+  provider: OidcProviderId;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+  createdAt: number;
+};
+
+export type OidcCallbackResult = {
+  provider: OidcProviderId;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+  returnTo: string;
+};
+
+async function authorizationEndpoint(p: OidcProvider) {
+  if (p.authorizeUrl) return p.authorizeUrl;
+  if (!p.issuer) throw new Error(`${p.name} sign-in has no issuer or authorize URL configured`);
+  const res = await fetch(`${p.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`);
+  if (!res.ok) throw new Error(`${p.name} discovery failed (HTTP ${res.status})`);
+  const doc = await res.json();
+  if (!doc.authorization_endpoint) throw new Error(`${p.name} discovery document has no authorization_endpoint`);
+  return doc.authorization_endpoint as string;
+}
+
+/** Builds the authorize URL, remembers state + verifier for the callback, and redirects. */
+export async function beginOidcSignIn(id: OidcProviderId, returnTo = "/dashboard") {
+  const provider = getOidcProvider(id);
+  if (!provider) throw new Error(`${PROVIDERS[id]?.name ?? id} sign-in is not configured`);
+
+  const pending: Pending = {
+    provider: id,
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(48),
+    redirectUri: oidcRedirectUri(),
+    returnTo,
+    createdAt: Date.now(),
+  };
+
+  const url = new URL(await authorizationEndpoint(provider));
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", pending.redirectUri);
+  url.searchParams.set("scope", provider.scope);
+  url.searchParams.set("state", pending.state);
+  url.searchParams.set("nonce", pending.nonce);
+  url.searchParams.set("code_challenge", await pkceChallenge(pending.codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  window.location.assign(url.toString());
+}
+
+/** Validates the callback query against what beginOidcSignIn stored. Single use. */
+export function completeOidcSignIn(search: string): OidcCallbackResult {
+  const params = new URLSearchParams(search);
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+
+  const error = params.get("error");
+  if (error) throw new Error(params.get("error_description") || `Sign-in was rejected: ${error}`);
+
+  if (!raw) throw new Error("No sign-in in progress (it may have been started in another tab)");
+  const pending = JSON.parse(raw) as Pending;
+  if (Date.now() - pending.createdAt > PENDING_MAX_AGE_MS) throw new Error("Sign-in took too long, please try again");
+
+  const code = params.get("code");
+  if (!code) throw new Error("Callback is missing the authorization code");
+  if (params.get("state") !== pending.state) throw new Error("Sign-in state mismatch, please try again");
+
+  return {
+    provider: pending.provider,
+    code,
+    codeVerifier: pending.codeVerifier,
+    redirectUri: pending.redirectUri,
+    nonce: pending.nonce,
+    returnTo: pending.returnTo,
+  };
+}
@@ -0,0 +1,64 @@
+import type { User } from "@/lib/api";
+
+export const ROLES = ["viewer", "analyst", "investigator", "compliance", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "transactions:view"
+  | "alerts:view"
+  | "alerts:update"        // acknowledge / resolve
+  | "reports:view"
+  | "reports:generate"
+  | "watchlist:manage"     // add / edit / remove watched wallets
+  | "labels:manage"        // tag addresses and import label packs
+  | "screening:manage"     // upload / remove sanctions and blocklists
+  | "apikeys:manage"       // create / revoke integration keys
+  | "apikeys:rotate";
+
+const VIEWER: Permission[] = ["transactions:view", "alerts:view", "reports:view"];
+
+/** Defaults used when /auth/me sends roles but no explicit permission list. */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: VIEWER,
+  analyst: [...VIEWER, "alerts:update", "watchlist:manage", "labels:manage"],
+  investigator: [...VIEWER, "alerts:update", "reports:generate", "watchlist:manage", "labels:manage", "apikeys:manage"],
+  // compliance reads everything and files reports, but never touches alert state
+  compliance: [...VIEWER, "reports:generate", "watchlist:manage", "labels:manage", "screening:manage"],
+  admin: [
+    ...VIEWER,
+    "alerts:update",
+    "reports:generate",
+    "watchlist:manage",
+    "labels:manage",
+    "screening:manage",
+    "apikeys:manage",
+    "apikeys:rotate",
+  ],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Viewer",
+  analyst: "Analyst",
+  investigator: "Investigator",
+  compliance: "Compliance",
+  admin: "Admin",
+};
+
+function isRole(r: string): r is Role {
+  return (ROLES as readonly string[]).includes(r);
+}
+
+export function rolesOf(user: User | null): Role[] {
+  return (user?.roles ?? []).filter(isRole);
+}
+
+/**
+ * Effective permissions: the server's explicit list wins, otherwise the union of
+ * the user's roles. Users without any role get viewer access only.
+ */
+export function permissionsFor(user: User | null): Set<Permission> {
+  if (!user) return new Set();
+  if (user.permissions) return new Set(user.permissions as Permission[]);
+  const roles = rolesOf(user);
+  return new Set((roles.length ? roles : ["viewer" as Role]).flatMap((r) => ROLE_PERMISSIONS[r]));
+}
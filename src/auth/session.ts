@@ -0,0 +1,25 @@
+import { isApiError } from "@/lib/api";
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * 401 from the API means the bearer token is no longer accepted. 403 is only a
+ * session problem when it says so; otherwise it's a role/permission denial.
+ */
+export function isSessionError(e: unknown) {
+  if (!isApiError(e)) return false;
+  if (e.status === 401) return true;
+  return e.status === 403 && /token|session|credential|expired|not authenticated/i.test(e.detail ?? "");
+}
+
+export function onSessionExpired(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function expireSession() {
+  listeners.forEach((l) => l());
+}
@@ -0,0 +1,133 @@
+import { authApi, isApiError, setTokenProvider, setUnauthorizedHandler, type TokenResponse } from "@/lib/api";
+import { expireSession } from "./session";
+
+const ACCESS_KEY = "auth_token";
+const REFRESH_KEY = "auth_refresh_token";
+const EXPIRES_KEY = "auth_token_expires_at";
+
+/** Refresh this long before the access token actually expires. */
+export const REFRESH_LEEWAY_MS = 60_000;
+
+type Listener = (accessToken: string | null) => void;
+const listeners = new Set<Listener>();
+
+function notify() {
+  const token = getAccessToken();
+  listeners.forEach((l) => l(token));
+}
+
+export function subscribeTokens(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAccessToken() {
+  return localStorage.getItem(ACCESS_KEY);
+}
+
+export function getRefreshToken() {
+  return localStorage.getItem(REFRESH_KEY);
+}
+
+/** `exp` claim of a JWT in epoch ms, or null if the token isn't a decodable JWT. */
+export function decodeJwtExp(token: string): number | null {
+  try {
+    const payload = token.split(".")[1];
+    if (!payload) return null;
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(payload.length / 4) * 4, "="));
+    const exp = JSON.parse(json)?.exp;
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/** When the current access token expires (JWT `exp`, else the `expires_in` we were given). */
+export function getAccessTokenExpiry(): number | null {
+  const token = getAccessToken();
+  if (!token) return null;
+  const fromJwt = decodeJwtExp(token);
+  if (fromJwt) return fromJwt;
+  const stored = Number(localStorage.getItem(EXPIRES_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : null;
+}
+
+export function setTokens(res: TokenResponse) {
+  localStorage.setItem(ACCESS_KEY, res.access_token);
+  if (res.refresh_token) localStorage.setItem(REFRESH_KEY, res.refresh_token);
+  if (res.expires_in) localStorage.setItem(EXPIRES_KEY, String(Date.now() + res.expires_in * 1000));
+  else localStorage.removeItem(EXPIRES_KEY);
+  notify();
+}
+
+export function clearTokens() {
+  localStorage.removeItem(ACCESS_KEY);
+  localStorage.removeItem(REFRESH_KEY);
+  localStorage.removeItem(EXPIRES_KEY);
+  notify();
+}
+
+// Every caller shares the same in-flight refresh, so a burst of requests
+// around expiry only spends the refresh token once.
+let inflight: Promise<string | null> | null = null;
+
+// Refresh tokens rotate, so tabs take turns through a Web Lock instead of
+// racing each other with the same one.
+const REFRESH_LOCK = "auth_token_refresh";
+
+async function refreshWith(refreshToken: string): Promise<string | null> {
+  try {
+    const res = await authApi.refresh(refreshToken);
+    setTokens(res);
+    return res.access_token;
+  } catch (e) {
+    // refresh token revoked or expired: drop everything and ask the user to sign in again.
+    // Network blips keep the tokens so the next request can try again.
+    if (isApiError(e) && e.status >= 400 && e.status < 500) {
+      // another tab rotated it meanwhile (no Web Locks, or the lock was bypassed): its tokens are current
+      if (getRefreshToken() !== refreshToken) return getAccessToken();
+      clearTokens();
+      expireSession();
+    }
+    return null;
+  }
+}
+
+export function refreshAccessToken(): Promise<string | null> {
+  if (inflight) return inflight;
+  const seen = getRefreshToken();
+  if (!seen) return Promise.resolve(null);
+
+  // a tab that waited for the lock finds the token already rotated and just uses the new one
+  const run = async () => {
+    const current = getRefreshToken();
+    if (!current) return null;
+    return current !== seen ? getAccessToken() : refreshWith(current);
+  };
+  inflight = (navigator.locks ? navigator.locks.request(REFRESH_LOCK, run) : run()).finally(() => {
+    inflight = null;
+  });
+  return inflight;
+}
+
+/** Access token for the next request, refreshed first if it's about to expire. */
+export async function getValidAccessToken() {
+  const token = getAccessToken();
+  if (!token) return null;
+  const exp = getAccessTokenExpiry();
+  if (exp && exp - Date.now() < REFRESH_LEEWAY_MS && getRefreshToken()) {
+    return refreshAccessToken();
+  }
+  return token;
+}
+
+setTokenProvider(getValidAccessToken);
+// A 401 on a request we sent with a token: try one refresh before giving up.
+setUnauthorizedHandler(() => (getRefreshToken() ? refreshAccessToken() : Promise.resolve(null)));
+
+// another tab logged in, out or refreshed
+window.addEventListener("storage", (e) => {
+  if (e.key === null || e.key === ACCESS_KEY || e.key === REFRESH_KEY) notify();
+});
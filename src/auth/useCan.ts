@@ -0,0 +1,10 @@
+import { useCallback, useMemo } from "react";
+import { useAuth } from "./AuthContext";
+import { permissionsFor, type Permission } from "./permissions";
+
+/** `const can = useCan(); can("alerts:update")` */
+export function useCan() {
+  const { user } = useAuth();
+  const perms = useMemo(() => permissionsFor(user), [user]);
+  return useCallback((permission: Permission) => perms.has(permission), [perms]);
+}
@@ -0,0 +1,32 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CHAINS, type AddressFamily, type Chain } from "@/lib/chains";
+
+type Props = {
+  value: Chain;
+  onChange: (chain: Chain) => void;
+  /** Only offer chains this address family can live on. */
+  family?: AddressFamily | null;
+  disabled?: boolean;
+  className?: string;
+};
+
+/** Chain dropdown fed by the registry; every page uses this instead of hardcoded items. */
+const ChainSelect = ({ value, onChange, family, disabled, className = "w-[160px]" }: Props) => {
+  const options = family ? CHAINS.filter((c) => c.family === family) : CHAINS;
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as Chain)} disabled={disabled}>
+      <SelectTrigger className={`bg-secondary/50 border-border/50 ${className}`}>
+        <SelectValue placeholder="Chain" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((c) => (
+          <SelectItem key={c.id} value={c.id}>
+            {c.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ChainSelect;
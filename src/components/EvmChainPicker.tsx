@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { chainsInFamily, type Chain } from "@/lib/chains";
+
+type Props = {
+  /** Address awaiting a chain; the dialog is open while set. */
+  address: string | null;
+  /** Highlighted as the default choice. */
+  current?: Chain | null;
+  onPick: (chain: Chain) => void;
+  onCancel: () => void;
+};
+
+/**
+ * A 0x address is valid on every EVM chain, so the format alone cannot say
+ * which network to analyze. Ask instead of guessing Ethereum.
+ */
+const EvmChainPicker = ({ address, current, onPick, onCancel }: Props) => (
+  <Dialog open={!!address} onOpenChange={(open) => !open && onCancel()}>
+    <DialogContent className="max-w-md">
+      <DialogHeader>
+        <DialogTitle>Which network?</DialogTitle>
+        <DialogDescription className="break-all">
+          <span className="font-mono">{address}</span> is an EVM address and may hold activity on several chains.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="grid grid-cols-2 gap-2">
+        {chainsInFamily("evm").map((c) => (
+          <Button
+            key={c.id}
+            variant={c.id === current ? "default" : "outline"}
+            className={c.id === current ? "bg-primary hover:bg-primary/90" : "border-border/50"}
+            autoFocus={c.id === current}
+            onClick={() => onPick(c.id)}
+          >
+            {c.name}
+            <span className="ml-auto text-xs opacity-70">{c.unit}</span>
+          </Button>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default EvmChainPicker;
@@ -4,24 +4,57 @@ import { useNavigate } from "react-router-dom";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Bell, User, LogOut, Shield, LayoutDashboard, CreditCard, AlertTriangle, FileText, Settings } from "lucide-react";
+import { Bell, User, LogOut, Shield, LayoutDashboard, CreditCard, AlertTriangle, FileText, Settings, Bookmark, Network, Route, Tag, ShieldAlert } from "lucide-react";
 import { Outlet, NavLink, useLocation } from "react-router-dom";
-const navigationItems = [{
+import { useCan } from "@/auth/useCan";
+import { ROLE_LABELS, rolesOf, type Permission } from "@/auth/permissions";
+import WatchlistSwitcher from "@/components/watchlist/WatchlistSwitcher";
+import ScreeningMonitor from "@/components/screening/ScreeningMonitor";
+const navigationItems: { name: string; href: string; icon: typeof LayoutDashboard; permission?: Permission }[] = [{
   name: "Dashboard",
   href: "/",
-  icon: LayoutDashboard
+  icon: LayoutDashboard,
+  permission: "transactions:view"
 }, {
   name: "Transactions",
   href: "/transactions",
-  icon: CreditCard
+  icon: CreditCard,
+  permission: "transactions:view"
+}, {
+  name: "Flow Graph",
+  href: "/graph",
+  icon: Network,
+  permission: "transactions:view"
+}, {
+  name: "Fund Tracing",
+  href: "/trace",
+  icon: Route,
+  permission: "transactions:view"
+}, {
+  name: "Watchlist",
+  href: "/watchlist",
+  icon: Bookmark,
+  permission: "transactions:view"
+}, {
+  name: "Labels",
+  href: "/labels",
+  icon: Tag,
+  permission: "transactions:view"
 }, {
   name: "Alerts",
   href: "/alerts",
-  icon: AlertTriangle
+  icon: AlertTriangle,
+  permission: "alerts:view"
+}, {
+  name: "Screening",
+  href: "/screening",
+  icon: ShieldAlert,
+  permission: "alerts:view"
 }, {
   name: "Reports",
   href: "/reports",
-  icon: FileText
+  icon: FileText,
+  permission: "reports:view"
 }, {
   name: "Settings",
   href: "/settings",
@@ -31,8 +64,10 @@ const navigationItems = [{
 
 const MainLayout = () => {
 
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
   const navigate = useNavigate();
+  const can = useCan();
+  const roleLabel = rolesOf(user).map((r) => ROLE_LABELS[r]).join(", ") || ROLE_LABELS.viewer;
 
   const location = useLocation();
   return <SidebarProvider>
@@ -56,9 +91,9 @@ const MainLayout = () => {
 
         <SidebarContent className="p-4 mx-0 px-[16px]">
           <SidebarMenu>
-            {navigationItems.map(item => {
+            {navigationItems.filter(item => !item.permission || can(item.permission)).map(item => {
               const Icon = item.icon;
-              const isActive = location.pathname === item.href;
+              const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`);
               return <SidebarMenuItem key={item.name}>
                 <SidebarMenuButton asChild className={isActive ? "bg-sidebar-accent text-sidebar-primary" : ""}>
                   <NavLink to={item.href} className="flex items-center gap-3 rounded-lg px-3 py-2 transition-colors hover:bg-sidebar-accent hover:text-sidebar-accent-foreground">
@@ -72,6 +107,7 @@ const MainLayout = () => {
               </SidebarMenuItem>;
             })}
           </SidebarMenu>
+          {can("transactions:view") && <WatchlistSwitcher />}
         </SidebarContent>
 
         <SidebarFooter className="p-4 border-t border-sidebar-border">
@@ -84,10 +120,10 @@ const MainLayout = () => {
             </Avatar>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium text-sidebar-foreground truncate">
-                Security Admin
+                {user?.full_name || user?.email || "—"}
               </p>
               <p className="text-xs text-sidebar-foreground/60 truncate">
-                admin@cryptofraud.com
+                {roleLabel}
               </p>
             </div>
             <Button
@@ -133,6 +169,7 @@ const MainLayout = () => {
         <main className="flex-1 p-6 overflow-auto mx-[23px]">
           <Outlet />
         </main>
+        <ScreeningMonitor />
       </div>
     </div>
   </SidebarProvider>;
@@ -0,0 +1,90 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+type Props = {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  pageSize: number;
+  pageSizes: number[];
+  onPageSizeChange: (size: number) => void;
+};
+
+/** 1 … 4 5 6 … 20 */
+function pageWindow(page: number, pageCount: number): (number | "gap")[] {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1].filter((p) => p >= 1 && p <= pageCount));
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? ["gap" as const, p] : [p]));
+}
+
+/** Page links plus a rows-per-page selector, built on ui/pagination. */
+const TablePagination = ({ page, pageCount, onPageChange, pageSize, pageSizes, onPageSizeChange }: Props) => {
+  const go = (p: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (p >= 1 && p <= pageCount && p !== page) onPageChange(p);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 pt-4">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        Rows per page
+        <Select value={String(pageSize)} onValueChange={(v) => onPageSizeChange(Number(v))}>
+          <SelectTrigger className="h-8 w-[80px] bg-secondary/50 border-border/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {pageSizes.map((s) => (
+              <SelectItem key={s} value={String(s)}>
+                {s}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={go(page - 1)}
+              aria-disabled={page <= 1}
+              className={cn(page <= 1 && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+          {pageWindow(page, pageCount).map((p, i) =>
+            p === "gap" ? (
+              <PaginationItem key={`gap-${i}`}>
+                <PaginationEllipsis />
+              </PaginationItem>
+            ) : (
+              <PaginationItem key={p}>
+                <PaginationLink href="#" isActive={p === page} onClick={go(p)}>
+                  {p}
+                </PaginationLink>
+              </PaginationItem>
+            )
+          )}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={go(page + 1)}
+              aria-disabled={page >= pageCount}
+              className={cn(page >= pageCount && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+};
+
+export default TablePagination;
@@ -0,0 +1,242 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from "react";
+import type { RiskLevel } from "@/lib/api";
+import { shortAddress, type FlowGraph, type FlowNode } from "@/lib/flowGraph";
+import { categoryOf, type LabelCategory, type LabelLookup } from "@/labels/labels";
+import { boundsOf, type Point, type Positions } from "@/lib/graphLayout";
+import { RISK_COLORS } from "./colors";
+
+const PRIMARY = "hsl(195, 100%, 50%)";
+const MUTED = "hsl(215, 20.2%, 65.1%)";
+const NODE_FILL = "hsl(222, 47%, 11%)";
+const FOREGROUND = "hsl(210, 40%, 98%)";
+
+// pointer travel below this is a click, above it a drag
+const CLICK_SLOP = 3;
+const HIGH_RISK_CATEGORIES = new Set<LabelCategory>(["mixer", "scam", "sanctioned"]);
+
+export type FlowGraphCanvasHandle = {
+  svg: SVGSVGElement | null;
+  fit: () => void;
+};
+
+type Props = {
+  graph: FlowGraph;
+  positions: Positions;
+  pinned: Set<string>;
+  loading: Set<string>;
+  selected: string | null;
+  unit: string;
+  /** Labelled addresses show the label name above the address. */
+  labelOf?: LabelLookup;
+  onNodeClick: (node: FlowNode) => void;
+  onNodeMove: (id: string, p: Point) => void;
+  onBackgroundClick: () => void;
+};
+
+type View = { x: number; y: number; k: number };
+type Drag =
+  | { kind: "pan"; start: Point; view: View; moved: boolean }
+  | { kind: "node"; id: string; start: Point; origin: Point; moved: boolean };
+
+const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+function nodeRadius(n: FlowNode) {
+  return 10 + Math.min(14, Math.log10(1 + n.inValue + n.outValue) * 5);
+}
+
+function edgeWidth(value: number) {
+  return 1 + Math.min(7, Math.log10(1 + value) * 3);
+}
+
+/**
+ * SVG rendering of a flow graph. Wheel zooms, dragging the background pans,
+ * dragging a node moves it (the parent pins it). Edges between the same pair
+ * in both directions are bent apart so both stay visible.
+ */
+const FlowGraphCanvas = forwardRef<FlowGraphCanvasHandle, Props>(function FlowGraphCanvas(
+  { graph, positions, pinned, loading, selected, unit, labelOf, onNodeClick, onNodeMove, onBackgroundClick },
+  ref
+) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<View>({ x: 0, y: 0, k: 1 });
+  const drag = useRef<Drag | null>(null);
+
+  const fit = useCallback(() => {
+    const el = svgRef.current;
+    if (!el) return;
+    const b = boundsOf(positions);
+    const { width, height } = el.getBoundingClientRect();
+    const k = Math.min(2, Math.max(0.1, Math.min(width / b.width, height / b.height)));
+    setView({ k, x: width / 2 - (b.x + b.width / 2) * k, y: height / 2 - (b.y + b.height / 2) * k });
+  }, [positions]);
+
+  useImperativeHandle(ref, () => ({ svg: svgRef.current, fit }), [fit]);
+
+  // fit once when a new graph first gets positions
+  const fitted = useRef<string | null>(null);
+  useEffect(() => {
+    if (positions.size && fitted.current !== graph.center) {
+      fitted.current = graph.center;
+      fit();
+    }
+  }, [positions, graph.center, fit]);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native one
+  useEffect(() => {
+    const el = svgRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const r = el.getBoundingClientRect();
+      const mx = e.clientX - r.left;
+      const my = e.clientY - r.top;
+      setView((v) => {
+        const k = Math.min(4, Math.max(0.1, v.k * Math.exp(-e.deltaY * 0.0015)));
+        return { k, x: mx - ((mx - v.x) * k) / v.k, y: my - ((my - v.y) * k) / v.k };
+      });
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent, id?: string) => {
+    e.stopPropagation();
+    (e.currentTarget as Element).setPointerCapture?.(e.pointerId);
+    const start = { x: e.clientX, y: e.clientY };
+    const origin = id ? positions.get(id) : undefined;
+    drag.current = id && origin ? { kind: "node", id, start, origin, moved: false } : { kind: "pan", start, view, moved: false };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    const dx = e.clientX - d.start.x;
+    const dy = e.clientY - d.start.y;
+    if (!d.moved && Math.hypot(dx, dy) < CLICK_SLOP) return;
+    d.moved = true;
+    if (d.kind === "pan") setView({ ...d.view, x: d.view.x + dx, y: d.view.y + dy });
+    else onNodeMove(d.id, { x: d.origin.x + dx / view.k, y: d.origin.y + dy / view.k });
+  };
+
+  const onPointerUp = () => {
+    const d = drag.current;
+    drag.current = null;
+    if (!d || d.moved) return;
+    if (d.kind === "pan") onBackgroundClick();
+    else {
+      const n = graph.nodes.find((x) => x.id === d.id);
+      if (n) onNodeClick(n);
+    }
+  };
+
+  const pairs = new Set(graph.edges.map((e) => `${e.source}->${e.target}`));
+
+  return (
+    <svg
+      ref={svgRef}
+      className="w-full h-full touch-none select-none cursor-grab active:cursor-grabbing"
+      onPointerDown={(e) => onPointerDown(e)}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+    >
+      <defs>
+        {(Object.keys(RISK_COLORS) as RiskLevel[]).map((level) => (
+          <marker
+            key={level}
+            id={`arrow-${level}`}
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="5"
+            markerHeight="5"
+            orient="auto-start-reverse"
+          >
+            <path d="M0,0 L10,5 L0,10 z" fill={RISK_COLORS[level]} />
+          </marker>
+        ))}
+      </defs>
+      <g data-graph-root transform={`translate(${view.x},${view.y}) scale(${view.k})`}>
+        {graph.edges.map((e) => {
+          const a = positions.get(e.source);
+          const b = positions.get(e.target);
+          if (!a || !b || e.source === e.target) return null;
+          const dx = b.x - a.x;
+          const dy = b.y - a.y;
+          const len = Math.hypot(dx, dy) || 1;
+          const target = graph.nodes.find((n) => n.id === e.target);
+          // stop the arrow at the target's rim
+          const r = (target ? nodeRadius(target) : 12) + 2;
+          const end = { x: b.x - (dx / len) * r, y: b.y - (dy / len) * r };
+          const bend = pairs.has(`${e.target}->${e.source}`) ? 0.2 : 0.08;
+          const c = { x: (a.x + end.x) / 2 - dy * bend, y: (a.y + end.y) / 2 + dx * bend };
+          return (
+            <path
+              key={e.id}
+              d={`M${a.x},${a.y} Q${c.x},${c.y} ${end.x},${end.y}`}
+              fill="none"
+              stroke={RISK_COLORS[e.riskLevel]}
+              strokeOpacity={selected && e.source !== selected && e.target !== selected ? 0.25 : 0.8}
+              strokeWidth={edgeWidth(e.value)}
+              markerEnd={`url(#arrow-${e.riskLevel})`}
+            >
+              <title>
+                {`${fmt(e.value)} ${unit} in ${e.count} transfer${e.count === 1 ? "" : "s"} · ${e.riskLevel} risk (max ${e.maxRiskScore.toFixed(1)})`}
+              </title>
+            </path>
+          );
+        })}
+        {graph.nodes.map((n) => {
+          const p = positions.get(n.id);
+          if (!p) return null;
+          const r = nodeRadius(n);
+          const isCenter = n.id === graph.center;
+          const known = labelOf?.(n.address) ?? null;
+          const stroke = n.maxRiskScore >= 80 ? RISK_COLORS.high : n.maxRiskScore >= 50 ? RISK_COLORS.medium : MUTED;
+          return (
+            <g
+              key={n.id}
+              transform={`translate(${p.x},${p.y})`}
+              className="cursor-pointer"
+              onPointerDown={(e) => onPointerDown(e, n.id)}
+            >
+              {n.id === selected && <circle r={r + 6} fill="none" stroke={PRIMARY} strokeWidth={2} strokeDasharray="4 3" />}
+              <circle
+                r={r}
+                fill={isCenter ? PRIMARY : NODE_FILL}
+                fillOpacity={isCenter ? 0.9 : 1}
+                stroke={isCenter ? PRIMARY : stroke}
+                strokeWidth={n.expanded ? 3 : 1.5}
+                strokeDasharray={n.expanded || isCenter ? undefined : "3 2"}
+              >
+                {loading.has(n.id) && (
+                  <animate attributeName="stroke-opacity" values="1;0.2;1" dur="1s" repeatCount="indefinite" />
+                )}
+              </circle>
+              {n.mixer && <circle r={4} cx={r * 0.7} cy={-r * 0.7} fill={RISK_COLORS.high} />}
+              {pinned.has(n.id) && <circle r={3} cx={-r * 0.7} cy={-r * 0.7} fill={PRIMARY} />}
+              {known && (
+                <text
+                  y={-r - 6}
+                  textAnchor="middle"
+                  fontSize={11}
+                  fontWeight={600}
+                  fill={HIGH_RISK_CATEGORIES.has(known.category) ? RISK_COLORS.high : FOREGROUND}
+                >
+                  {known.name}
+                </text>
+              )}
+              <text y={r + 13} textAnchor="middle" fontSize={10} fontFamily="monospace" fill={MUTED}>
+                {shortAddress(n.address)}
+              </text>
+              <title>
+                {`${known ? `${known.name} (${categoryOf(known.category).name})\n` : ""}${n.address}\nhop ${n.hop} · ${n.txCount} transfers\nin ${fmt(n.inValue)} ${unit} · out ${fmt(n.outValue)} ${unit}\nmax risk ${n.maxRiskScore.toFixed(1)}${n.mixer ? " · mixer" : ""}`}
+              </title>
+            </g>
+          );
+        })}
+      </g>
+    </svg>
+  );
+});
+
+export default FlowGraphCanvas;
@@ -0,0 +1,8 @@
+import type { RiskLevel } from "@/lib/api";
+
+/** Edge colors by risk level; concrete values so exported SVG/PNG look the same. */
+export const RISK_COLORS: Record<RiskLevel, string> = {
+  high: "hsl(0, 100%, 67%)",
+  medium: "hsl(35, 100%, 60%)",
+  low: "hsl(142, 100%, 50%)",
+};
@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileUp, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import { getChain } from "@/lib/chains";
+import { categoryOf } from "@/labels/labels";
+import { parseLabelPack, type ParsedPack, type PackRow } from "@/labels/labelPacks";
+import { useUpsertLabels } from "@/labels/useLabels";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const STATUS_STYLES: Record<PackRow["status"], string> = {
+  valid: "bg-success/20 text-success border-success/30",
+  invalid: "bg-destructive/20 text-destructive border-destructive/30",
+};
+
+const MAX_PREVIEW_ROWS = 500;
+
+/**
+ * Import a label pack from pasted text or a JSON/CSV file. Labels already on
+ * the same chain and address are replaced, so re-importing a pack updates it.
+ */
+const ImportLabelsDialog = ({ open, onOpenChange }: Props) => {
+  const { toast } = useToast();
+  const upsert = useUpsertLabels();
+
+  const [source, setSource] = useState<"paste" | "file">("paste");
+  const [text, setText] = useState("");
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [packName, setPackName] = useState("");
+
+  useEffect(() => {
+    if (open) return;
+    setText("");
+    setFileText(null);
+    setFileName(null);
+    setFileError(null);
+    setPackName("");
+  }, [open]);
+
+  const parsed = useMemo((): { pack: ParsedPack | null; error: string | null } => {
+    const input = source === "paste" ? text : fileText ?? "";
+    if (!input.trim()) return { pack: null, error: null };
+    try {
+      return { pack: parseLabelPack(input, source === "file" ? fileName ?? undefined : undefined), error: null };
+    } catch (e) {
+      return { pack: null, error: errorMessage(e) };
+    }
+  }, [source, text, fileText, fileName]);
+
+  const rows = parsed.pack?.rows ?? [];
+  const valid = rows.filter((r) => r.status === "valid");
+  const name = packName.trim() || parsed.pack?.name || null;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    setFileError(null);
+    try {
+      setFileText(await file.text());
+      setFileName(file.name);
+    } catch (e) {
+      setFileText(null);
+      setFileError(errorMessage(e));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const stored = await upsert.mutateAsync(valid.map((r) => ({ ...r.label!, source: name })));
+      toast({ title: "Labels imported", description: `${stored.length} label(s)${name ? ` from ${name}` : ""}` });
+      onOpenChange(false);
+    } catch (e) {
+      toast({ title: "Import failed", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import label pack</DialogTitle>
+          <DialogDescription>
+            JSON (an array of labels or {"{ name, labels }"}) or CSV with address, name and category columns; chain and
+            note are optional.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={(v) => setSource(v as "paste" | "file")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="paste">Paste</TabsTrigger>
+            <TabsTrigger value="file">Upload file</TabsTrigger>
+          </TabsList>
+          <TabsContent value="paste">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={6}
+              placeholder={"address,name,category,chain\n0x28C6c06298d514Db089934071355E5743bf21d60,Binance 14,exchange,eth"}
+              className="bg-secondary/50 border-border/50 font-mono text-xs"
+            />
+          </TabsContent>
+          <TabsContent value="file" className="space-y-2">
+            <label className="flex items-center justify-center gap-2 p-6 rounded-lg border border-dashed border-border/50 cursor-pointer hover:bg-muted/10 text-sm text-muted-foreground">
+              {reading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+              {fileName ?? "Choose a .json or .csv file"}
+              <input
+                type="file"
+                accept=".json,.csv,.tsv,.txt,application/json,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            {fileError && (
+              <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+                {fileError}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="space-y-2">
+          <Label htmlFor="pack-name">Pack name</Label>
+          <Input
+            id="pack-name"
+            value={packName}
+            onChange={(e) => setPackName(e.target.value)}
+            placeholder={parsed.pack?.name ?? "Recorded as the source of each label"}
+            className="bg-secondary/50 border-border/50"
+          />
+        </div>
+
+        {parsed.error && (
+          <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+            {parsed.error}
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {valid.length} valid, {rows.length - valid.length} invalid of {rows.length} row(s)
+            </p>
+            <div className="rounded-md border border-border/50 max-h-64 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border/50 hover:bg-muted/20">
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, MAX_PREVIEW_ROWS).map((r) => (
+                    <TableRow key={r.row} className="border-border/50">
+                      <TableCell className="text-xs text-muted-foreground">{r.row}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-[260px] truncate" title={r.address}>
+                        {r.address || "—"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {r.label ? (
+                          <span className="flex items-center gap-2">
+                            <Badge variant="outline" className={categoryOf(r.label.category).className}>
+                              {categoryOf(r.label.category).name}
+                            </Badge>
+                            {r.label.name}
+                            <span className="text-muted-foreground">
+                              {r.label.chain ? getChain(r.label.chain).name : "All chains"}
+                            </span>
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">{r.reason}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`${STATUS_STYLES[r.status]} capitalize`}>{r.status}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {rows.length > MAX_PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">Showing the first {MAX_PREVIEW_ROWS} of {rows.length} rows.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="border-border/50" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={handleImport}
+            disabled={upsert.isPending || valid.length === 0}
+          >
+            {upsert.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Import {valid.length || ""} Label{valid.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportLabelsDialog;
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage, type AddressLabel, type Chain, type LabelCategory } from "@/lib/api";
+import { describeAddress, validateAddress } from "@/lib/address";
+import { CHAINS } from "@/lib/chains";
+import { LABEL_CATEGORIES } from "@/labels/labels";
+import { useUpdateLabel, useUpsertLabels } from "@/labels/useLabels";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Edit this label; add a new one when omitted. */
+  label?: AddressLabel | null;
+  /** Prefill for a new label, e.g. from an address on another page. */
+  initial?: { address: string; chain: Chain | null } | null;
+};
+
+const ALL_CHAINS = "*";
+
+/** Add or edit a single address label. */
+const LabelDialog = ({ open, onOpenChange, label, initial }: Props) => {
+  const { toast } = useToast();
+  const upsert = useUpsertLabels();
+  const update = useUpdateLabel();
+
+  const [address, setAddress] = useState("");
+  const [chain, setChain] = useState<Chain | null>(null);
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState<LabelCategory>("exchange");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setAddress(label?.address ?? initial?.address ?? "");
+    setChain(label ? label.chain : initial?.chain ?? null);
+    setName(label?.name ?? "");
+    setCategory(label?.category ?? "exchange");
+    setNote(label?.note ?? "");
+  }, [open, label, initial]);
+
+  const check = validateAddress(address);
+  const invalid = !label && address.trim().length > 0 && !check.valid;
+  const chainOptions = check.valid ? CHAINS.filter((c) => c.family === check.family) : CHAINS;
+  const pending = upsert.isPending || update.isPending;
+
+  const handleAddress = (v: string) => {
+    setAddress(v);
+    const r = validateAddress(v);
+    // a chain from the other address family can never match; fall back to every chain
+    if (r.valid) setChain((c) => (c && !CHAINS.some((x) => x.id === c && x.family === r.family) ? null : c));
+  };
+
+  const handleSave = async () => {
+    const fields = { name: name.trim(), category, note: note.trim() || null };
+    try {
+      if (label) {
+        await update.mutateAsync({ id: label.id, patch: fields });
+      } else {
+        await upsert.mutateAsync([{ address: check.normalized!, chain, source: null, ...fields }]);
+      }
+      onOpenChange(false);
+    } catch (e) {
+      toast({ title: "Failed to save label", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{label ? "Edit label" : "Add address label"}</DialogTitle>
+          <DialogDescription>
+            Labels are shared with the team and shown wherever the address appears. Saving a label for an address that
+            already has one on the same chain replaces it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_160px] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="label-address">Address</Label>
+              <Input
+                id="label-address"
+                value={address}
+                onChange={(e) => handleAddress(e.target.value)}
+                disabled={!!label}
+                placeholder="0x… or bc1…"
+                className="bg-secondary/50 border-border/50 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Chain</Label>
+              <Select
+                value={chain ?? ALL_CHAINS}
+                onValueChange={(v) => setChain(v === ALL_CHAINS ? null : (v as Chain))}
+                disabled={!!label}
+              >
+                <SelectTrigger className="bg-secondary/50 border-border/50 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CHAINS}>All chains</SelectItem>
+                  {chainOptions.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {invalid && <p className="text-xs text-destructive">{check.error}</p>}
+          {!label && check.valid && (
+            <p className={`text-xs ${check.warning ? "text-warning" : "text-muted-foreground"}`}>
+              {describeAddress(check)}
+              {check.warning ? ` — ${check.warning}` : ""}
+            </p>
+          )}
+          <div className="grid grid-cols-[1fr_160px] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="label-name">Name</Label>
+              <Input
+                id="label-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Binance hot wallet 14"
+                className="bg-secondary/50 border-border/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(v) => setCategory(v as LabelCategory)}>
+                <SelectTrigger className="bg-secondary/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABEL_CATEGORIES.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="label-note">Note</Label>
+            <Input
+              id="label-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Source or case reference"
+              className="bg-secondary/50 border-border/50"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" className="border-border/50" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={handleSave}
+            disabled={pending || !name.trim() || (!label && !check.valid)}
+          >
+            {pending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            {label ? "Save" : "Add Label"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LabelDialog;
@@ -0,0 +1,36 @@
+import { Badge } from "@/components/ui/badge";
+import type { AddressLabel } from "@/lib/api";
+import { categoryOf } from "@/labels/labels";
+
+type Props = {
+  address: string | null | undefined;
+  label: AddressLabel | null;
+  /** Truncate the address (default); the full one is always in the tooltip. */
+  short?: boolean;
+  /** Hide the address when a label is present. */
+  labelOnly?: boolean;
+  className?: string;
+};
+
+const shorten = (a: string) => (a.length > 14 ? `${a.slice(0, 8)}…${a.slice(-4)}` : a);
+
+/** An address with its label badge, if it has one. */
+const LabeledAddress = ({ address, label, short = true, labelOnly = false, className = "" }: Props) => {
+  if (!address) return <span className="text-muted-foreground">—</span>;
+  const category = label ? categoryOf(label.category) : null;
+  const title = label
+    ? `${label.name} · ${category!.name}${label.note ? ` · ${label.note}` : ""}\n${address}`
+    : address;
+  return (
+    <span className={`inline-flex items-center gap-1.5 min-w-0 ${className}`} title={title}>
+      {label && (
+        <Badge variant="outline" className={`${category!.className} px-1.5 py-0 text-[10px] font-medium truncate max-w-[140px]`}>
+          {label.name}
+        </Badge>
+      )}
+      {!(label && labelOnly) && <span className="font-mono text-xs truncate">{short ? shorten(address) : address}</span>}
+    </span>
+  );
+};
+
+export default LabeledAddress;
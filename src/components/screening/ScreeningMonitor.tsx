@@ -0,0 +1,28 @@
+import { useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import { useMonitoredWallet } from "@/wallet/MonitoredWalletContext";
+import { useRecordScreeningHits, useWalletScreening } from "@/screening/useScreening";
+
+/** Screens the wallet under investigation whatever page is open and sends its hits to the audit trail. */
+const ScreeningMonitor = () => {
+  const { toast } = useToast();
+  const { chain, address } = useMonitoredWallet();
+  const { hits } = useWalletScreening(chain, address);
+  const { error } = useRecordScreeningHits(chain, hits);
+
+  // once per distinct failure, not on every retry
+  const failure = error ? errorMessage(error) : null;
+  useEffect(() => {
+    if (!failure) return;
+    toast({
+      title: "Blocklist hits not recorded",
+      description: `${failure}. They are sent again automatically.`,
+      variant: "destructive",
+    });
+  }, [failure, toast]);
+
+  return null;
+};
+
+export default ScreeningMonitor;
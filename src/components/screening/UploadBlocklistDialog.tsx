@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileUp, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import { parseBlocklist, type ParsedBlocklist } from "@/screening/blocklists";
+import { contentVersion } from "@/screening/sources";
+import { useAddUploadedList } from "@/screening/useScreening";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const MAX_REJECTED_ROWS = 200;
+
+/**
+ * Upload a sanctions or internal blocklist. Without a version in the file or
+ * the form, the content hash is recorded as the version.
+ */
+const UploadBlocklistDialog = ({ open, onOpenChange }: Props) => {
+  const { toast } = useToast();
+  const add = useAddUploadedList();
+
+  const [source, setSource] = useState<"paste" | "file">("file");
+  const [text, setText] = useState("");
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [name, setName] = useState("");
+  const [version, setVersion] = useState("");
+
+  useEffect(() => {
+    if (open) return;
+    setText("");
+    setFileText(null);
+    setFileName(null);
+    setFileError(null);
+    setName("");
+    setVersion("");
+  }, [open]);
+
+  const input = source === "paste" ? text : fileText ?? "";
+  const parsed = useMemo((): { list: ParsedBlocklist | null; error: string | null } => {
+    if (!input.trim()) return { list: null, error: null };
+    try {
+      return { list: parseBlocklist(input), error: null };
+    } catch (e) {
+      return { list: null, error: errorMessage(e) };
+    }
+  }, [input]);
+
+  const list = parsed.list;
+  const defaultName = list?.name ?? (source === "file" && fileName ? fileName.replace(/\.[^.]+$/, "") : "");
+  const listName = name.trim() || defaultName;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    setFileError(null);
+    try {
+      setFileText(await file.text());
+      setFileName(file.name);
+    } catch (e) {
+      setFileText(null);
+      setFileError(errorMessage(e));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!list) return;
+    try {
+      const listVersion = version.trim() || list.version || (await contentVersion(input));
+      await add.mutateAsync({ ...list, name: listName, version: listVersion });
+      toast({
+        title: "Blocklist loaded",
+        description: `${listName} (version ${listVersion}): ${list.entries.length} address(es)`,
+      });
+      onOpenChange(false);
+    } catch (e) {
+      toast({ title: "Failed to load blocklist", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Upload blocklist</DialogTitle>
+          <DialogDescription>
+            One address per line, CSV with an address column (chain and reference optional), or JSON with name, version
+            and entries. Uploading a list with an existing name replaces it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={(v) => setSource(v as "paste" | "file")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="file">Upload file</TabsTrigger>
+            <TabsTrigger value="paste">Paste</TabsTrigger>
+          </TabsList>
+          <TabsContent value="file" className="space-y-2">
+            <label className="flex items-center justify-center gap-2 p-6 rounded-lg border border-dashed border-border/50 cursor-pointer hover:bg-muted/10 text-sm text-muted-foreground">
+              {reading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+              {fileName ?? "Choose a .txt, .csv or .json file"}
+              <input
+                type="file"
+                accept=".txt,.csv,.tsv,.json,text/plain,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            {fileError && (
+              <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+                {fileError}
+              </div>
+            )}
+          </TabsContent>
+          <TabsContent value="paste">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={6}
+              placeholder={"# internal blocklist\n0x8589427373D6D84E98730D7795D8f6f8731FDA16\nbc1qa5wkgaew2dkv56kfvj49j0av5nml45x9ek9hz6"}
+              className="bg-secondary/50 border-border/50 font-mono text-xs"
+            />
+          </TabsContent>
+        </Tabs>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="blocklist-name">List name</Label>
+            <Input
+              id="blocklist-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={defaultName || "e.g. OFAC SDN (ETH)"}
+              className="bg-secondary/50 border-border/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="blocklist-version">Version</Label>
+            <Input
+              id="blocklist-version"
+              value={version}
+              onChange={(e) => setVersion(e.target.value)}
+              placeholder={list?.version ?? "Publication date; content hash when empty"}
+              className="bg-secondary/50 border-border/50"
+            />
+          </div>
+        </div>
+
+        {parsed.error && (
+          <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+            {parsed.error}
+          </div>
+        )}
+
+        {list && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {list.entries.length} address(es) to screen against
+              {list.rejected.length ? `, ${list.rejected.length} row(s) skipped` : ""}.
+            </p>
+            {list.rejected.length > 0 && (
+              <div className="rounded-md border border-border/50 max-h-48 overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-border/50 hover:bg-muted/20">
+                      <TableHead className="w-14">Row</TableHead>
+                      <TableHead>Value</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {list.rejected.slice(0, MAX_REJECTED_ROWS).map((r) => (
+                      <TableRow key={r.row} className="border-border/50">
+                        <TableCell className="text-xs text-muted-foreground">{r.row}</TableCell>
+                        <TableCell className="font-mono text-xs max-w-[280px] truncate" title={r.value}>
+                          {r.value || "—"}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{r.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="border-border/50" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={handleUpload}
+            disabled={add.isPending || !list?.entries.length || !listName}
+          >
+            {add.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Load List
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UploadBlocklistDialog;
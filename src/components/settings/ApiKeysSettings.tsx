@@ -0,0 +1,467 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, Key, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCan } from "@/auth/useCan";
+import {
+  errorMessage,
+  settingsApi,
+  type ApiKeyMeta,
+  type ApiKeyScope,
+  type ApiKeySecretResp,
+  type CreateApiKeyBody,
+} from "@/lib/api";
+
+const SCOPES: { id: ApiKeyScope; label: string; description: string }[] = [
+  { id: "read-analyze", label: "Read / Analyze", description: "Query wallet analysis and transactions" },
+  { id: "write-alerts", label: "Write Alerts", description: "Acknowledge and resolve alerts" },
+  { id: "reports", label: "Reports", description: "Generate and download reports" },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "30", label: "30 days", days: 30 },
+  { value: "90", label: "90 days", days: 90 },
+  { value: "365", label: "1 year", days: 365 },
+];
+
+const OCTET = /^(?:0|[1-9]\d{0,2})$/;
+const HEXTET = /^[0-9a-fA-F]{1,4}$/;
+
+function isIPv4(s: string) {
+  const parts = s.split(".");
+  return parts.length === 4 && parts.every((p) => OCTET.test(p) && Number(p) <= 255);
+}
+
+// eight hextets, or fewer with a single "::"; the last two may be written as IPv4,
+// but only at the very end of the address, after any "::"
+function isIPv6(s: string) {
+  const halves = s.split("::");
+  if (halves.length > 2) return false;
+  const groups = halves.map((h) => (h ? h.split(":") : []));
+  const tail = groups[groups.length - 1];
+  // an IPv4 tail stands for two hextets
+  let v4 = 0;
+  if (tail.length && isIPv4(tail[tail.length - 1])) {
+    tail.pop();
+    v4 = 2;
+  }
+  const all = groups.flat();
+  if (!all.every((g) => HEXTET.test(g))) return false;
+  const count = all.length + v4;
+  return halves.length === 2 ? count <= 7 : count === 8;
+}
+
+function isIpOrCidr(value: string) {
+  const [ip, prefix, ...rest] = value.split("/");
+  if (rest.length) return false;
+  const v4 = isIPv4(ip);
+  if (!v4 && !isIPv6(ip)) return false;
+  // a bare "::" would be the unspecified address, which never makes a request
+  if (prefix === undefined) return ip !== "::";
+  return /^\d{1,3}$/.test(prefix) && Number(prefix) <= (v4 ? 32 : 128);
+}
+
+function ago(iso?: string | null) {
+  if (!iso) return null;
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? null : formatDistanceToNow(d, { addSuffix: true });
+}
+
+function isExpired(k: ApiKeyMeta) {
+  return !!k.expiresAt && new Date(k.expiresAt).getTime() < Date.now();
+}
+
+/* --------------------------------- Hooks --------------------------------- */
+
+function useApiKeys() {
+  return useQuery<{ keys: ApiKeyMeta[] }>({
+    queryKey: ["api-keys"],
+    queryFn: ({ signal }) => settingsApi.apiKeys(signal),
+  });
+}
+
+function useApiKeyMutation<V, R>(fn: (v: V) => Promise<R>) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: fn,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["api-keys"] });
+    },
+  });
+}
+
+/* ------------------------------- Sub-views -------------------------------- */
+
+const SecretOnceDialog = ({ secret, onClose }: { secret: ApiKeySecretResp | null; onClose: () => void }) => {
+  const { toast } = useToast();
+  return (
+    <Dialog open={!!secret} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Copy your new key for “{secret?.key.name}”</DialogTitle>
+          <DialogDescription>
+            This is the only time the full secret is shown. Store it in your integration's secret manager now.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <Input value={secret?.secret ?? ""} readOnly className="bg-secondary/50 border-border/50 font-mono" />
+          <Button
+            variant="outline"
+            size="icon"
+            className="border-border/50"
+            onClick={async () => {
+              await navigator.clipboard.writeText(secret?.secret ?? "");
+              toast({ title: "API Key Copied", description: "API key has been copied to clipboard" });
+            }}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button className="bg-primary hover:bg-primary/90" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const CreateKeyDialog = ({
+  open,
+  onOpenChange,
+  onCreated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (r: ApiKeySecretResp) => void;
+}) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["read-analyze"]);
+  const [expiry, setExpiry] = useState("90");
+  const [ips, setIps] = useState("");
+  const create = useApiKeyMutation((body: CreateApiKeyBody) => settingsApi.createApiKey(body));
+
+  const ipList = ips.split(/[\s,]+/).map((s) => s.trim()).filter(Boolean);
+  const badIps = ipList.filter((ip) => !isIpOrCidr(ip));
+  const valid = name.trim().length > 0 && scopes.length > 0 && badIps.length === 0;
+
+  const reset = () => {
+    setName("");
+    setScopes(["read-analyze"]);
+    setExpiry("90");
+    setIps("");
+  };
+
+  const handleCreate = async () => {
+    const days = EXPIRY_OPTIONS.find((o) => o.value === expiry)?.days ?? null;
+    try {
+      const r = await create.mutateAsync({
+        name: name.trim(),
+        scopes,
+        expiresAt: days ? new Date(Date.now() + days * 86_400_000).toISOString() : null,
+        ipAllowlist: ipList,
+      });
+      reset();
+      onOpenChange(false);
+      onCreated(r);
+    } catch (e) {
+      toast({ title: "Failed to create key", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create API key</DialogTitle>
+          <DialogDescription>Use one key per integration so a leak only affects that integration.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="key-name">Name</Label>
+            <Input
+              id="key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. SIEM export"
+              className="bg-secondary/50 border-border/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {SCOPES.map((s) => (
+              <label key={s.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={scopes.includes(s.id)}
+                  onCheckedChange={(checked) =>
+                    setScopes((prev) => (checked ? [...prev, s.id] : prev.filter((x) => x !== s.id)))
+                  }
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="font-medium">{s.label}</span>
+                  <span className="block text-xs text-muted-foreground">{s.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Expiry</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="bg-secondary/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="key-ips">IP allowlist</Label>
+            <Textarea
+              id="key-ips"
+              value={ips}
+              onChange={(e) => setIps(e.target.value)}
+              placeholder="203.0.113.10, 10.0.0.0/8 (empty = any address)"
+              className="bg-secondary/50 border-border/50 font-mono text-xs"
+              rows={2}
+            />
+            {badIps.length > 0 && (
+              <p className="text-xs text-destructive">Not an IP or CIDR: {badIps.join(", ")}</p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" className="border-border/50" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-primary hover:bg-primary/90" onClick={handleCreate} disabled={!valid || create.isPending}>
+            {create.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Create Key
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/* --------------------------------- Main ---------------------------------- */
+
+/** API Keys tab: per-integration keys with scopes, expiry and IP allowlist. */
+const ApiKeysSettings = () => {
+  const { toast } = useToast();
+  const can = useCan();
+  const canManage = can("apikeys:manage");
+  const canRotate = can("apikeys:rotate");
+
+  const keys = useApiKeys();
+  const rotate = useApiKeyMutation((id: string) => settingsApi.rotateApiKey(id));
+  const revoke = useApiKeyMutation((id: string) => settingsApi.revokeApiKey(id));
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [secret, setSecret] = useState<ApiKeySecretResp | null>(null);
+  const [confirm, setConfirm] = useState<{ action: "rotate" | "revoke"; key: ApiKeyMeta } | null>(null);
+
+  const list = keys.data?.keys ?? [];
+  const totals = list.reduce(
+    (acc, k) => {
+      acc.today += k.usage?.requestsToday ?? 0;
+      acc.month += k.usage?.requests30d ?? 0;
+      if (k.usage?.avgResponseMs != null && k.usage.requests30d) {
+        acc.weightedMs += k.usage.avgResponseMs * k.usage.requests30d;
+        acc.weightedN += k.usage.requests30d;
+      }
+      return acc;
+    },
+    { today: 0, month: 0, weightedMs: 0, weightedN: 0 }
+  );
+
+  const handleConfirm = async () => {
+    if (!confirm) return;
+    const { action, key } = confirm;
+    setConfirm(null);
+    try {
+      if (action === "rotate") {
+        setSecret(await rotate.mutateAsync(key.id));
+        toast({ title: "New API Key Generated", description: `The previous secret for “${key.name}” has been revoked` });
+      } else {
+        await revoke.mutateAsync(key.id);
+        toast({ title: "API Key Revoked", description: `“${key.name}” can no longer be used` });
+      }
+    } catch (e) {
+      toast({ title: `Failed to ${action} key`, description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Keep your API keys secure. Do not share them in publicly accessible areas.
+        </p>
+        <Button
+          size="sm"
+          className="bg-primary hover:bg-primary/90"
+          onClick={() => setCreateOpen(true)}
+          disabled={!canManage}
+          title={canManage ? undefined : "Your role cannot create API keys"}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Key
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {keys.isLoading && <div className="text-xs text-muted-foreground">Loading…</div>}
+        {keys.isError && <div className="text-xs text-destructive">{errorMessage(keys.error)}</div>}
+        {keys.isSuccess && list.length === 0 && (
+          <div className="p-4 text-sm text-muted-foreground border border-dashed border-border/50 rounded-lg">
+            No API keys yet. Create one per integration.
+          </div>
+        )}
+        {list.map((k) => {
+          const expired = isExpired(k);
+          const busy = (rotate.isPending && rotate.variables === k.id) || (revoke.isPending && revoke.variables === k.id);
+          return (
+            <div key={k.id} className="p-4 rounded-lg border border-border/50 bg-secondary/10 space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Key className="h-4 w-4 text-primary" />
+                    <span className="font-medium truncate">{k.name}</span>
+                    {expired ? (
+                      <Badge className="bg-destructive/20 text-destructive border-destructive/30">Expired</Badge>
+                    ) : (
+                      <Badge variant="outline" className={`border-success/30 ${k.active ? "text-success" : "text-muted-foreground"}`}>
+                        {k.active ? "Active" : "Inactive"}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="font-mono text-xs text-muted-foreground mt-1">{k.masked}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-border/50"
+                    onClick={() => setConfirm({ action: "rotate", key: k })}
+                    disabled={busy || !canRotate}
+                    title={canRotate ? undefined : "Only admins can rotate API keys"}
+                  >
+                    {busy && rotate.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                    Rotate
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-destructive/30 text-destructive"
+                    onClick={() => setConfirm({ action: "revoke", key: k })}
+                    disabled={busy || !canManage}
+                    title={canManage ? undefined : "Your role cannot revoke API keys"}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {k.scopes.map((s) => (
+                  <Badge key={s} variant="secondary" className="text-xs">
+                    {SCOPES.find((x) => x.id === s)?.label ?? s}
+                  </Badge>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-muted-foreground">
+                <span>Created {ago(k.createdAt) ?? "—"}</span>
+                <span>{k.expiresAt ? `${expired ? "Expired" : "Expires"} ${ago(k.expiresAt)}` : "Never expires"}</span>
+                <span>{k.lastUsedAt ? `Last used ${ago(k.lastUsedAt)}` : "Never used"}</span>
+                <span>{k.usage ? `${k.usage.requestsToday.toLocaleString()} requests today` : "—"}</span>
+                <span className="col-span-2 md:col-span-4 font-mono">
+                  IP allowlist: {k.ipAllowlist?.length ? k.ipAllowlist.join(", ") : "any"}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-4">
+        <h4 className="text-sm font-medium">API Usage Statistics</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-4 bg-secondary/20 rounded-lg border border-border/50">
+            <div className="text-2xl font-bold text-primary">{keys.isSuccess ? totals.today.toLocaleString() : "—"}</div>
+            <div className="text-sm text-muted-foreground">Requests Today</div>
+          </div>
+          <div className="p-4 bg-secondary/20 rounded-lg border border-border/50">
+            <div className="text-2xl font-bold text-success">{keys.isSuccess ? totals.month.toLocaleString() : "—"}</div>
+            <div className="text-sm text-muted-foreground">Requests (30 days)</div>
+          </div>
+          <div className="p-4 bg-secondary/20 rounded-lg border border-border/50">
+            <div className="text-2xl font-bold text-warning">
+              {totals.weightedN ? `${Math.round(totals.weightedMs / totals.weightedN)} ms` : "—"}
+            </div>
+            <div className="text-sm text-muted-foreground">Avg Response</div>
+          </div>
+        </div>
+      </div>
+
+      <CreateKeyDialog open={createOpen} onOpenChange={setCreateOpen} onCreated={setSecret} />
+      <SecretOnceDialog secret={secret} onClose={() => setSecret(null)} />
+
+      <AlertDialog open={!!confirm} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirm?.action === "rotate" ? "Rotate" : "Revoke"} “{confirm?.key.name}”?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm?.action === "rotate"
+                ? "The current secret stops working immediately and a new one is shown once."
+                : "Integrations using this key will start failing immediately. This cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {confirm?.action === "rotate" ? "Rotate Key" : "Revoke Key"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ApiKeysSettings;
@@ -0,0 +1,222 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage, settingsApi, type ActiveSession, type LoginEvent } from "@/lib/api";
+import { describeUserAgent } from "@/lib/userAgent";
+
+const HISTORY_LIMIT = 50;
+
+function useSessions() {
+  return useQuery<{ sessions: ActiveSession[] }>({
+    queryKey: ["sessions"],
+    queryFn: ({ signal }) => settingsApi.sessions(signal),
+    refetchInterval: 60_000,
+  });
+}
+
+function useLoginHistory() {
+  return useQuery<{ events: LoginEvent[] }>({
+    queryKey: ["login-history", HISTORY_LIMIT],
+    queryFn: ({ signal }) => settingsApi.loginHistory(HISTORY_LIMIT, signal),
+  });
+}
+
+function useRevokeSession() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => settingsApi.revokeSession(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["sessions"] });
+    },
+  });
+}
+
+function useSignoutOthers() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: () => settingsApi.signoutOthers(),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["sessions"] });
+    },
+  });
+}
+
+function ago(iso?: string | null) {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "—" : formatDistanceToNow(d, { addSuffix: true });
+}
+
+function deviceLabel(s: { device?: string | null; browser?: string | null; userAgent?: string | null }) {
+  if (s.device || s.browser) return [s.browser, s.device].filter(Boolean).join(" on ");
+  return describeUserAgent(s.userAgent);
+}
+
+/** Security tab block: active sessions with per-session revoke, plus recent sign-ins. */
+const SessionSettings = () => {
+  const { toast } = useToast();
+  const sessions = useSessions();
+  const history = useLoginHistory();
+  const revoke = useRevokeSession();
+  const signoutOthers = useSignoutOthers();
+
+  const list = [...(sessions.data?.sessions ?? [])].sort(
+    (a, b) => Number(b.current) - Number(a.current) || b.lastSeenAt.localeCompare(a.lastSeenAt)
+  );
+  const others = list.filter((s) => !s.current).length;
+
+  const handleRevoke = async (s: ActiveSession) => {
+    try {
+      await revoke.mutateAsync(s.id);
+      toast({ title: "Session revoked", description: `${deviceLabel(s)} has been signed out` });
+    } catch (e) {
+      toast({ title: "Failed to revoke session", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const handleSignoutOthers = async () => {
+    try {
+      await signoutOthers.mutateAsync();
+      toast({ title: "Signed out", description: "All other sessions have been signed out" });
+    } catch (e) {
+      toast({ title: "Failed to sign out sessions", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Label className="text-sm font-medium">Active Sessions</Label>
+        <div className="space-y-2 mt-2">
+          {sessions.isLoading && <div className="text-xs text-muted-foreground">Loading sessions…</div>}
+          {sessions.isError && <div className="text-xs text-destructive">{errorMessage(sessions.error)}</div>}
+          {list.map((s) => {
+            const label = deviceLabel(s);
+            const Icon = /iOS|Android/.test(label) ? Smartphone : Monitor;
+            return (
+              <div
+                key={s.id}
+                className="flex items-center justify-between gap-4 p-3 bg-secondary/20 rounded-lg border border-border/50"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Icon className="h-5 w-5 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{label}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[s.ip, s.location].filter(Boolean).join(" • ") || "Unknown location"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Signed in {ago(s.createdAt)} • {s.current ? "Active now" : `Last seen ${ago(s.lastSeenAt)}`}
+                    </p>
+                  </div>
+                </div>
+                {s.current ? (
+                  <Badge className="bg-success/20 text-success border-success/30">Current</Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-destructive/30 text-destructive shrink-0"
+                    onClick={() => handleRevoke(s)}
+                    disabled={revoke.isPending && revoke.variables === s.id}
+                  >
+                    {revoke.isPending && revoke.variables === s.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <LogOut className="h-4 w-4 mr-2" />
+                    )}
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={handleSignoutOthers}
+            disabled={signoutOthers.isPending || (sessions.isSuccess && others === 0)}
+          >
+            {signoutOthers.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Sign Out All Other Sessions
+          </Button>
+        </div>
+      </div>
+
+      <Separator />
+
+      <div>
+        <Label className="text-sm font-medium">Login History</Label>
+        <p className="text-xs text-muted-foreground mt-1">Last {HISTORY_LIMIT} sign-in attempts on your account</p>
+        <div className="rounded-md border border-border/50 overflow-hidden mt-2">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border/50 hover:bg-muted/20">
+                <TableHead>When</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Device</TableHead>
+                <TableHead>IP / Location</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(history.data?.events ?? []).map((ev) => (
+                <TableRow
+                  key={ev.id}
+                  className={`border-border/50 ${ev.success ? "" : "bg-destructive/5 hover:bg-destructive/10"}`}
+                >
+                  <TableCell className="text-xs" title={new Date(ev.timestamp).toLocaleString()}>
+                    {ago(ev.timestamp)}
+                  </TableCell>
+                  <TableCell>
+                    {ev.success ? (
+                      <Badge className="bg-success/20 text-success border-success/30">
+                        Success{ev.method ? ` • ${ev.method}` : ""}
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-destructive/20 text-destructive border-destructive/30" title={ev.failureReason ?? undefined}>
+                        Failed{ev.failureReason ? ` • ${ev.failureReason}` : ""}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{describeUserAgent(ev.userAgent)}</TableCell>
+                  <TableCell className="text-xs font-mono">
+                    {[ev.ip, ev.location].filter(Boolean).join(" • ") || "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {history.isLoading && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                    Loading login history…
+                  </TableCell>
+                </TableRow>
+              )}
+              {history.isError && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-destructive py-6">
+                    {errorMessage(history.error)}
+                  </TableCell>
+                </TableRow>
+              )}
+              {history.isSuccess && history.data.events.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                    No sign-in activity recorded yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSettings;
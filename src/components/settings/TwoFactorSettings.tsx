@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, Download, Loader2, RefreshCw, ShieldOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import MfaChallenge from "@/auth/MfaChallenge";
+import { downloadFile } from "@/lib/download";
+import { errorMessage, settingsApi, type TwoFactorSetup, type TwoFactorStatus } from "@/lib/api";
+
+type Mode = "enroll" | "disable" | "regenerate" | null;
+
+function useTwoFactorStatus() {
+  return useQuery<TwoFactorStatus>({
+    queryKey: ["2fa-status"],
+    queryFn: ({ signal }) => settingsApi.twoFactor.status(signal),
+  });
+}
+
+const RecoveryCodes = ({ codes, onDone }: { codes: string[]; onDone: () => void }) => {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Each code works once if you lose access to your authenticator. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 rounded-lg border border-border/50 bg-secondary/20 font-mono text-sm">
+        {codes.map((c) => (
+          <span key={c}>{c}</span>
+        ))}
+      </div>
+      <DialogFooter className="gap-2 sm:gap-0">
+        <Button
+          variant="outline"
+          className="border-border/50"
+          onClick={() => downloadFile(`${text}\n`, "recovery-codes.txt", "text/plain;charset=utf-8")}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+        <Button
+          variant="outline"
+          className="border-border/50"
+          onClick={async () => {
+            await navigator.clipboard.writeText(text);
+            toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+          }}
+        >
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button className="bg-primary hover:bg-primary/90" onClick={onDone}>
+          I've saved these codes
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+};
+
+/** Security tab block: TOTP enrollment, recovery codes, disable. */
+const TwoFactorSettings = () => {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const status = useTwoFactorStatus();
+
+  const [mode, setMode] = useState<Mode>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [codes, setCodes] = useState<string[] | null>(null);
+
+  const enable = useMutation({ mutationFn: () => settingsApi.twoFactor.enable() });
+
+  const close = () => {
+    setMode(null);
+    setSetup(null);
+    setCodes(null);
+    qc.invalidateQueries({ queryKey: ["2fa-status"] });
+  };
+
+  const startEnroll = async () => {
+    try {
+      setSetup(await enable.mutateAsync());
+      setMode("enroll");
+    } catch (e) {
+      toast({ title: "Could not start 2FA setup", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const confirmEnroll = async (code: string) => {
+    const r = await settingsApi.twoFactor.confirm(code);
+    setCodes(r.recoveryCodes);
+    toast({ title: "Two-factor enabled", description: "You'll be asked for a code at every sign-in" });
+  };
+
+  const disable = async (code: string) => {
+    await settingsApi.twoFactor.disable(code);
+    toast({ title: "Two-factor disabled", description: "Your account now signs in with a password only" });
+    close();
+  };
+
+  const regenerate = async (code: string) => {
+    const r = await settingsApi.twoFactor.regenerateRecoveryCodes(code);
+    setCodes(r.recoveryCodes);
+  };
+
+  const enabled = !!status.data?.enabled;
+
+  return (
+    <div>
+      <Label className="text-sm font-medium">Two-Factor Authentication</Label>
+      <div className="flex items-center justify-between mt-2">
+        <div>
+          <p className="text-sm text-muted-foreground">Add an extra layer of security to your account</p>
+          {enabled ? (
+            <div className="flex items-center gap-2 mt-2">
+              <Badge className="bg-success/20 text-success border-success/30">Enabled</Badge>
+              {typeof status.data?.recoveryCodesRemaining === "number" && (
+                <span className="text-xs text-muted-foreground">
+                  {status.data.recoveryCodesRemaining} recovery codes left
+                </span>
+              )}
+            </div>
+          ) : (
+            <Badge variant="outline" className="border-warning/30 text-warning mt-2">
+              {status.isLoading ? "Checking…" : "Not Enabled"}
+            </Badge>
+          )}
+        </div>
+        {enabled ? (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="border-border/50" onClick={() => setMode("regenerate")}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              New Recovery Codes
+            </Button>
+            <Button variant="destructive" onClick={() => setMode("disable")}>
+              <ShieldOff className="h-4 w-4 mr-2" />
+              Disable
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            className="border-primary/30 text-primary"
+            onClick={startEnroll}
+            disabled={enable.isPending || status.isLoading}
+          >
+            {enable.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Enable 2FA
+          </Button>
+        )}
+      </div>
+      {status.isError && <div className="text-xs text-destructive mt-2">{errorMessage(status.error)}</div>}
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-w-md">
+          {codes ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Save your recovery codes</DialogTitle>
+              </DialogHeader>
+              <RecoveryCodes codes={codes} onDone={close} />
+            </>
+          ) : mode === "enroll" && setup ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set up authenticator app</DialogTitle>
+                <DialogDescription>
+                  Scan the QR code with Google Authenticator, 1Password, Authy or similar, then enter the code it shows.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex justify-center p-4 bg-white rounded-lg">
+                <QRCodeSVG value={setup.otpauthUrl} size={176} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Can't scan? Enter this key manually</Label>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 p-2 rounded border border-border/50 bg-secondary/50 font-mono text-sm break-all">
+                    {setup.secret}
+                  </code>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="border-border/50"
+                    onClick={() => navigator.clipboard.writeText(setup.secret)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <MfaChallenge onVerify={confirmEnroll} allowRecoveryCode={false} submitLabel="Confirm & Enable" />
+            </>
+          ) : mode === "disable" ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Disable two-factor authentication</DialogTitle>
+                <DialogDescription>Confirm with a current code or a recovery code.</DialogDescription>
+              </DialogHeader>
+              <MfaChallenge onVerify={disable} onCancel={close} submitLabel="Disable 2FA" />
+            </>
+          ) : mode === "regenerate" ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Generate new recovery codes</DialogTitle>
+                <DialogDescription>Your existing recovery codes stop working immediately.</DialogDescription>
+              </DialogHeader>
+              <MfaChallenge onVerify={regenerate} onCancel={close} allowRecoveryCode={false} submitLabel="Generate" />
+            </>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Columns3 } from "lucide-react";
+import { DEFAULT_COLUMNS, TX_COLUMNS, orderColumns, type TxColumnId } from "@/lib/txViews";
+
+type Props = {
+  columns: TxColumnId[];
+  onChange: (columns: TxColumnId[]) => void;
+};
+
+/** Show/hide Transactions table columns; at least one stays visible. */
+const ColumnChooser = ({ columns, onChange }: Props) => {
+  const toggle = (id: TxColumnId, on: boolean) => {
+    const next = on ? [...columns, id] : columns.filter((c) => c !== id);
+    if (next.length) onChange(orderColumns(next));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="border-border/50">
+          <Columns3 className="h-4 w-4 mr-2" />
+          Columns
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52">
+        <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+        {TX_COLUMNS.map((c) => (
+          <DropdownMenuCheckboxItem
+            key={c.id}
+            checked={columns.includes(c.id)}
+            disabled={columns.length === 1 && columns[0] === c.id}
+            onCheckedChange={(on) => toggle(c.id, on === true)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {c.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => onChange(DEFAULT_COLUMNS)}>Reset to default</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ColumnChooser;
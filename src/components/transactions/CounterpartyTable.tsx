@@ -0,0 +1,168 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ArrowUpDown, List, Search } from "lucide-react";
+import type { Chain } from "@/lib/api";
+import { unitForChain } from "@/lib/chains";
+import type { Counterparty, CounterpartySort, CounterpartySortKey } from "@/lib/counterparties";
+import { formatFiat, type Fiat } from "@/pricing/prices";
+import type { LabelLookup } from "@/labels/labels";
+import LabeledAddress from "@/components/labels/LabeledAddress";
+import { getRiskBadge } from "./badges";
+
+type Props = {
+  rows: Counterparty[];
+  chain: Chain;
+  fiat: Fiat | null;
+  labelOf?: LabelLookup;
+  sort: CounterpartySort;
+  onSortChange: (sort: CounterpartySort) => void;
+  /** Make the counterparty the analyzed wallet. */
+  onAnalyze: (address: string) => void;
+  /** Switch to its transactions with the wallet. */
+  onShowTransactions: (address: string) => void;
+  emptyText?: string;
+};
+
+const COLUMNS: { key: CounterpartySortKey; label: string; align?: "right" }[] = [
+  { key: "inValue", label: "In", align: "right" },
+  { key: "outValue", label: "Out", align: "right" },
+  { key: "txCount", label: "Txs", align: "right" },
+  { key: "firstSeen", label: "First seen" },
+  { key: "lastSeen", label: "Last seen" },
+  { key: "maxRiskScore", label: "Max risk" },
+  { key: "avgRiskScore", label: "Avg risk", align: "right" },
+];
+
+/** desc → asc → unsorted */
+function nextSort(sort: CounterpartySort, key: CounterpartySortKey): CounterpartySort {
+  if (sort?.key !== key) return { key, dir: "desc" };
+  return sort.dir === "desc" ? { key, dir: "asc" } : null;
+}
+
+function formatTs(ts: number) {
+  if (!ts) return "-";
+  return new Date(ts * 1000).toLocaleString();
+}
+
+const fmtValue = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+/** One row per counterparty of the monitored wallet. */
+const CounterpartyTable = ({
+  rows,
+  chain,
+  fiat,
+  labelOf,
+  sort,
+  onSortChange,
+  onAnalyze,
+  onShowTransactions,
+  emptyText,
+}: Props) => {
+  const unit = unitForChain(chain);
+
+  const value = (native: number, converted: number | null) => (
+    <>
+      <div className="font-semibold">{native ? fmtValue(native) : "—"}</div>
+      {fiat && native > 0 && (
+        <div className="text-xs text-muted-foreground">{formatFiat(converted, fiat)}</div>
+      )}
+    </>
+  );
+
+  return (
+    <div className="rounded-md border border-border/50 overflow-auto max-h-[600px]">
+      <Table>
+        <TableHeader className="sticky top-0 z-10 bg-card">
+          <TableRow className="border-border/50 hover:bg-transparent">
+            <TableHead>Counterparty</TableHead>
+            {COLUMNS.map((c) => {
+              const label = c.key === "inValue" || c.key === "outValue" ? `${c.label} (${unit})` : c.label;
+              const dir = sort?.key === c.key ? sort.dir : null;
+              const SortIcon = dir === "asc" ? ArrowUp : dir === "desc" ? ArrowDown : ArrowUpDown;
+              return (
+                <TableHead
+                  key={c.key}
+                  className={c.align === "right" ? "text-right" : ""}
+                  aria-sort={dir ? (dir === "asc" ? "ascending" : "descending") : "none"}
+                >
+                  <button
+                    type="button"
+                    className={`inline-flex items-center gap-1 hover:text-foreground ${dir ? "text-foreground" : ""}`}
+                    onClick={() => onSortChange(nextSort(sort, c.key))}
+                  >
+                    {label}
+                    <SortIcon className={`h-3 w-3 ${dir ? "" : "opacity-40"}`} />
+                  </button>
+                </TableHead>
+              );
+            })}
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={COLUMNS.length + 2} className="text-center text-muted-foreground py-8">
+                {emptyText ?? "No counterparties."}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((c) => {
+              const risk = getRiskBadge(c.maxRiskScore);
+              const RiskIcon = risk.icon;
+              return (
+                <TableRow key={c.address} className="border-border/50 hover:bg-muted/10">
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <LabeledAddress address={c.address} label={labelOf?.(c.address) ?? null} short={false} />
+                      {c.mixer && (
+                        <Badge className="bg-destructive/20 text-destructive border-destructive/30">Mixer</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{value(c.inValue, c.inFiat)}</TableCell>
+                  <TableCell className="text-right">{value(c.outValue, c.outFiat)}</TableCell>
+                  <TableCell className="text-right">{c.txCount}</TableCell>
+                  <TableCell className="text-muted-foreground text-xs">{formatTs(c.firstSeen)}</TableCell>
+                  <TableCell className="text-muted-foreground text-xs">{formatTs(c.lastSeen)}</TableCell>
+                  <TableCell>
+                    <Badge variant={risk.variant} className="inline-flex items-center gap-1">
+                      <RiskIcon className="h-3 w-3" />
+                      {c.maxRiskScore.toFixed(2)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{c.avgRiskScore.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="hover:bg-primary/10"
+                        title="Analyze this address"
+                        onClick={() => onAnalyze(c.address)}
+                      >
+                        <Search className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="hover:bg-primary/10"
+                        title="Show transactions with this address"
+                        onClick={() => onShowTransactions(c.address)}
+                      >
+                        <List className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default CounterpartyTable;
@@ -0,0 +1,371 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar as CalendarIcon, FolderPlus, Plus, SlidersHorizontal, Trash2, X } from "lucide-react";
+import { format as formatDate, isValid, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  TX_FIELDS,
+  checkValue,
+  emptyGroup,
+  formatQuery,
+  isComplete,
+  parseQuery,
+  type QueryError,
+  type TxCondition,
+  type TxField,
+  type TxGroup,
+  type TxNode,
+  type TxOp,
+} from "@/lib/txQuery";
+
+type Props = {
+  /** Applied query text (the `q` URL param). */
+  value: string;
+  onChange: (text: string) => void;
+};
+
+const OP_LABELS: Record<TxOp, string> = {
+  "=": "=",
+  "!=": "≠",
+  ">": ">",
+  ">=": "≥",
+  "<": "<",
+  "<=": "≤",
+  "~": "contains",
+};
+
+const FIELD_IDS = Object.keys(TX_FIELDS) as TxField[];
+const MAX_DEPTH = 3;
+
+const newCondition = (): TxCondition => ({ kind: "cond", field: "risk", op: ">=", value: "" });
+
+function parsed(text: string): { tree: TxGroup; error: QueryError | null } {
+  const q = parseQuery(text);
+  return "kind" in q ? { tree: q, error: null } : { tree: emptyGroup(), error: q };
+}
+
+/* ---- Builder rows ---- */
+
+const ValueInput = ({ cond, onChange }: { cond: TxCondition; onChange: (value: string) => void }) => {
+  const def = TX_FIELDS[cond.field];
+
+  if (def.kind === "enum" || def.kind === "bool") {
+    return (
+      <Select value={cond.value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="w-full sm:w-44 h-9 bg-secondary/50 border-border/50">
+          <SelectValue placeholder="Choose…" />
+        </SelectTrigger>
+        <SelectContent>
+          {def.options!.map((o) => (
+            <SelectItem key={o} value={o}>
+              {o}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (def.kind === "date") {
+    const date = cond.value ? parseISO(cond.value) : undefined;
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn(
+              "w-full sm:w-44 h-9 justify-start text-left font-normal bg-secondary/50 border-border/50",
+              !cond.value && "text-muted-foreground"
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {date && isValid(date) ? formatDate(date, "PP") : "Pick a date"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={date && isValid(date) ? date : undefined}
+            onSelect={(d) => onChange(d ? formatDate(d, "yyyy-MM-dd") : "")}
+            initialFocus
+            className="p-3 pointer-events-auto"
+          />
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  const check = cond.value ? checkValue(cond.field, cond.value) : null;
+  return (
+    <Input
+      value={cond.value}
+      onChange={(e) => onChange(e.target.value)}
+      inputMode={def.kind === "number" ? "decimal" : undefined}
+      placeholder={def.kind === "number" ? "0" : "0x…"}
+      title={check && "error" in check ? check.error : undefined}
+      className={cn(
+        "w-full sm:w-44 h-9 bg-secondary/50 border-border/50",
+        def.kind === "text" && "font-mono",
+        check && "error" in check && "border-destructive"
+      )}
+    />
+  );
+};
+
+const ConditionRow = ({
+  cond,
+  onChange,
+  onRemove,
+}: {
+  cond: TxCondition;
+  onChange: (c: TxCondition) => void;
+  onRemove: () => void;
+}) => {
+  const def = TX_FIELDS[cond.field];
+
+  const setField = (field: TxField) => {
+    const next = TX_FIELDS[field];
+    onChange({
+      kind: "cond",
+      field,
+      op: next.ops.includes(cond.op) ? cond.op : next.ops[0],
+      // a risk score is not a date; only carry the value over between like fields
+      value: next.kind === def.kind && next.options === def.options ? cond.value : "",
+    });
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <Select value={cond.field} onValueChange={(v) => setField(v as TxField)}>
+        <SelectTrigger className="w-full sm:w-44 h-9 bg-secondary/50 border-border/50">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FIELD_IDS.map((f) => (
+            <SelectItem key={f} value={f}>
+              {TX_FIELDS[f].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={cond.op} onValueChange={(op) => onChange({ ...cond, op: op as TxOp })}>
+        <SelectTrigger className="w-full sm:w-28 h-9 bg-secondary/50 border-border/50">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {def.ops.map((op) => (
+            <SelectItem key={op} value={op}>
+              {OP_LABELS[op]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ValueInput cond={cond} onChange={(value) => onChange({ ...cond, value })} />
+      <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" title="Remove condition" onClick={onRemove}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+const GroupEditor = ({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: TxGroup;
+  depth: number;
+  onChange: (g: TxGroup) => void;
+  onRemove?: () => void;
+}) => {
+  const setChild = (i: number, node: TxNode) =>
+    onChange({ ...group, children: group.children.map((c, j) => (j === i ? node : c)) });
+  const removeChild = (i: number) => onChange({ ...group, children: group.children.filter((_, j) => j !== i) });
+  const add = (node: TxNode) => onChange({ ...group, children: [...group.children, node] });
+
+  return (
+    <div className={cn("space-y-2", depth > 0 && "rounded-md border border-border/50 bg-secondary/20 p-3")}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">Match</span>
+        <Select value={group.join} onValueChange={(join) => onChange({ ...group, join: join as TxGroup["join"] })}>
+          <SelectTrigger className="w-24 h-8 bg-secondary/50 border-border/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">all (AND)</SelectItem>
+            <SelectItem value="OR">any (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">of</span>
+        <div className="flex-1" />
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Remove group" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.children.length === 0 && (
+        <p className="text-xs text-muted-foreground">No conditions — every transaction matches.</p>
+      )}
+      {group.children.map((c, i) =>
+        c.kind === "cond" ? (
+          <ConditionRow key={i} cond={c} onChange={(n) => setChild(i, n)} onRemove={() => removeChild(i)} />
+        ) : (
+          <GroupEditor
+            key={i}
+            group={c}
+            depth={depth + 1}
+            onChange={(n) => setChild(i, n)}
+            onRemove={() => removeChild(i)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="ghost" size="sm" className="h-8" onClick={() => add(newCondition())}>
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </Button>
+        {depth + 1 < MAX_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8"
+            onClick={() => add({ ...emptyGroup(group.join === "AND" ? "OR" : "AND"), children: [newCondition()] })}
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/* ---- Filter bar ---- */
+
+/**
+ * Transaction filter: a text query (`risk>=80 AND mixer:true`) and a visual
+ * AND/OR builder editing the same tree. Text applies on Enter; builder edits
+ * apply as soon as every condition has a valid value.
+ */
+const FilterBuilder = ({ value, onChange }: Props) => {
+  const [text, setText] = useState(value);
+  const [tree, setTree] = useState(() => parsed(value).tree);
+  const [showBuilder, setShowBuilder] = useState(false);
+  // set when we emitted `value` ourselves, so the builder keeps its layout
+  // (empty groups, incomplete rows) instead of re-reading the canonical text
+  const emitted = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (emitted.current === value) return;
+    emitted.current = null;
+    setText(value);
+    setTree(parsed(value).tree);
+  }, [value]);
+
+  const textError = parsed(text).error;
+  const dirty = text.trim() !== value.trim();
+  const complete = isComplete(tree);
+
+  const emit = (next: string) => {
+    emitted.current = next;
+    onChange(next);
+  };
+
+  const applyText = () => {
+    const q = parseQuery(text);
+    if (!("kind" in q)) return;
+    const canonical = formatQuery(q);
+    setText(canonical);
+    setTree(q);
+    emit(canonical);
+  };
+
+  const editTree = (next: TxGroup) => {
+    setTree(next);
+    if (!isComplete(next)) return;
+    const canonical = formatQuery(next);
+    setText(canonical);
+    if (canonical !== value) emit(canonical);
+  };
+
+  const clear = () => {
+    setText("");
+    setTree(emptyGroup());
+    emit("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") applyText();
+              if (e.key === "Escape") setText(value);
+            }}
+            placeholder="e.g. risk>=80 AND mixer:true AND value>1.5"
+            aria-invalid={!!textError}
+            spellCheck={false}
+            className={cn("font-mono bg-secondary/50 border-border/50 pr-8", textError && "border-destructive")}
+          />
+          {text && (
+            <button
+              type="button"
+              title="Clear filter"
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              onClick={clear}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <Button className="bg-primary hover:bg-primary/90" onClick={applyText} disabled={!!textError || !dirty}>
+          Apply
+        </Button>
+        <Button
+          variant="outline"
+          className={cn("border-border/50", showBuilder && "bg-secondary")}
+          onClick={() => setShowBuilder((s) => !s)}
+        >
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Builder
+        </Button>
+      </div>
+
+      {textError ? (
+        <div className="text-xs text-destructive font-mono">
+          <div className="whitespace-pre overflow-x-auto">
+            {text.slice(0, textError.pos)}
+            <span className="underline decoration-wavy">{text.slice(textError.pos) || " "}</span>
+          </div>
+          <div>
+            {textError.message} (column {textError.pos + 1})
+          </div>
+        </div>
+      ) : (
+        dirty && <p className="text-xs text-muted-foreground">Press Enter to apply, Esc to revert.</p>
+      )}
+
+      {showBuilder && (
+        <div className="rounded-md border border-border/50 p-3">
+          <GroupEditor group={tree} depth={0} onChange={editTree} />
+          {!complete && (
+            <p className="mt-2 text-xs text-warning">Fill in every condition to apply the builder's changes.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Bookmark, BookmarkPlus, Check, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDeleteTableView, useSaveTableView, useTableViews } from "@/hooks/use-table-views";
+import { errorMessage } from "@/lib/api";
+import { BUILT_IN_VIEWS, isCurrentView, toSaved, type TxView } from "@/lib/txViews";
+
+type Props = {
+  current: Pick<TxView, "columns" | "sort" | "filters">;
+  onApply: (view: TxView) => void;
+};
+
+/** Built-in and per-user saved views (columns + sort + filters) for the Transactions table. */
+const SavedViewsMenu = ({ current, onApply }: Props) => {
+  const { toast } = useToast();
+  const saved = useTableViews();
+  const save = useSaveTableView();
+  const remove = useDeleteTableView();
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+
+  const views = [...BUILT_IN_VIEWS, ...(saved.data ?? [])];
+  const active = views.find((v) => isCurrentView(v, current));
+  const overwrite = saved.data?.find((v) => v.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleSave = async () => {
+    try {
+      await save.mutateAsync({ id: overwrite?.id, body: toSaved(name.trim(), current) });
+      toast({ title: overwrite ? "View updated" : "View saved", description: name.trim() });
+      setSaving(false);
+    } catch (e) {
+      toast({ title: "Failed to save view", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (v: TxView) => {
+    try {
+      await remove.mutateAsync(v.id);
+      toast({ title: "View deleted", description: v.name });
+    } catch (e) {
+      toast({ title: "Failed to delete view", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  const item = (v: TxView) => (
+    <DropdownMenuItem key={v.id} onClick={() => onApply(v)} className="gap-2">
+      <Check className={`h-4 w-4 ${v === active ? "" : "invisible"}`} />
+      <span className="flex-1 truncate">{v.name}</span>
+      {!v.builtIn && (
+        <button
+          type="button"
+          title="Delete view"
+          className="text-muted-foreground hover:text-destructive"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleDelete(v);
+          }}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="border-border/50 max-w-[220px]">
+            <Bookmark className="h-4 w-4 mr-2 shrink-0" />
+            <span className="truncate">{active?.name ?? "Custom view"}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Views</DropdownMenuLabel>
+          {BUILT_IN_VIEWS.map(item)}
+          {saved.data && saved.data.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {saved.data.map(item)}
+            </>
+          )}
+          {saved.isError && (
+            <DropdownMenuLabel className="text-xs font-normal text-destructive">
+              {errorMessage(saved.error)}
+            </DropdownMenuLabel>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => {
+              setName(active && !active.builtIn ? active.name : "");
+              setSaving(true);
+            }}
+          >
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save current view…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saving} onOpenChange={setSaving}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>Stores the visible columns, sort and filters under your account.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && name.trim() && handleSave()}
+              placeholder="e.g. Mixer exposure"
+              className="bg-secondary/50 border-border/50"
+            />
+            {overwrite && <p className="text-xs text-warning">Replaces your existing view “{overwrite.name}”.</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" className="border-border/50" onClick={() => setSaving(false)}>
+              Cancel
+            </Button>
+            <Button className="bg-primary hover:bg-primary/90" onClick={handleSave} disabled={!name.trim() || save.isPending}>
+              {save.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
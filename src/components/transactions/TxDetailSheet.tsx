@@ -0,0 +1,306 @@
+import type { ReactNode } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Link } from "react-router-dom";
+import { AlertTriangle, ChevronLeft, ChevronRight, Copy, ExternalLink, Info, Route } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { txValue, type Chain, type TxItem } from "@/lib/api";
+import { explorerAddressUrl, explorerTxUrl, getChain } from "@/lib/chains";
+import { SEVERITY_BANDS, riskFactors, severityOf } from "@/lib/riskFactors";
+import { useToast } from "@/hooks/use-toast";
+import { investigationPath } from "@/wallet/useInvestigationRoute";
+import { dayKey, formatFiat } from "@/pricing/prices";
+import type { FiatValues } from "@/pricing/useFiat";
+import { categoryOf, type LabelLookup } from "@/labels/labels";
+import { getStatusBadge } from "./badges";
+
+type Props = {
+  /** Selected hash; the sheet is open while it is set. */
+  txHash: string | null;
+  /** Filtered rows in display order; prev/next walk this list. */
+  rows: TxItem[];
+  /** Everything loaded, for a selected tx the filters currently hide. */
+  items: TxItem[];
+  chain: Chain;
+  wallet: string | null;
+  fiat: Pick<FiatValues, "currency" | "valueOf">;
+  labelOf?: LabelLookup;
+  onSelect: (txHash: string) => void;
+  onClose: () => void;
+};
+
+const CopyButton = ({ text, what }: { text: string; what: string }) => {
+  const { toast } = useToast();
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-7 w-7 shrink-0"
+      title={`Copy ${what}`}
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(text);
+          toast({ title: "Copied", description: `${what} copied to clipboard` });
+        } catch {
+          toast({ title: "Copy failed", description: "Clipboard access was denied", variant: "destructive" });
+        }
+      }}
+    >
+      <Copy className="h-3.5 w-3.5" />
+    </Button>
+  );
+};
+
+const ExplorerLink = ({ href }: { href: string }) => (
+  <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" asChild>
+    <a href={href} target="_blank" rel="noreferrer" title="Open in explorer">
+      <ExternalLink className="h-3.5 w-3.5" />
+    </a>
+  </Button>
+);
+
+const Field = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="grid grid-cols-[7.5rem_1fr] gap-2 items-start py-1.5">
+    <dt className="text-sm text-muted-foreground pt-1">{label}</dt>
+    <dd className="text-sm min-w-0">{children}</dd>
+  </div>
+);
+
+const missing = <span className="text-muted-foreground">Not provided</span>;
+
+const fmtNumber = (n: number | null | undefined, digits = 6) =>
+  typeof n === "number" ? n.toLocaleString(undefined, { maximumFractionDigits: digits }) : null;
+
+/** Full record of one transaction with the factors behind its risk score. */
+const TxDetailSheet = ({ txHash, rows, items, chain, wallet, fiat, labelOf, onSelect, onClose }: Props) => {
+  const info = getChain(chain);
+  const index = txHash ? rows.findIndex((t) => t.txHash === txHash) : -1;
+  const tx = index >= 0 ? rows[index] : items.find((t) => t.txHash === txHash) ?? null;
+  const prev = index > 0 ? rows[index - 1] : null;
+  const next = index >= 0 && index < rows.length - 1 ? rows[index + 1] : null;
+
+  const addressRow = (label: string, address: string | undefined) => {
+    const own = !!address && !!wallet && address.toLowerCase() === wallet.toLowerCase();
+    const known = labelOf?.(address) ?? null;
+    return (
+      <Field label={label}>
+        {address ? (
+          <div className="flex items-start gap-1">
+            <span className="font-mono break-all flex-1 pt-1">
+              {address}
+              {own && (
+                <Badge variant="outline" className="ml-2 border-primary/30 text-primary align-middle">
+                  monitored
+                </Badge>
+              )}
+              {known && (
+                <Badge
+                  variant="outline"
+                  className={`ml-2 align-middle ${categoryOf(known.category).className}`}
+                  title={known.note ?? categoryOf(known.category).name}
+                >
+                  {known.name}
+                </Badge>
+              )}
+            </span>
+            <CopyButton text={address} what={`${label} address`} />
+            <ExplorerLink href={explorerAddressUrl(chain, address)} />
+          </div>
+        ) : (
+          <span className="text-muted-foreground">None (contract creation)</span>
+        )}
+      </Field>
+    );
+  };
+
+  const renderBody = (t: TxItem) => {
+    const value = txValue(t);
+    const status = getStatusBadge(t.riskLevel);
+    const severity = severityOf(t.riskScore);
+    const band = SEVERITY_BANDS.findIndex((b) => b.severity === severity);
+    const bandMax = band > 0 ? SEVERITY_BANDS[band - 1].min - 1 : 100;
+    const factors = riskFactors(t, info.unit);
+    const fiatValue = fiat.valueOf(t);
+    const fee =
+      typeof t.gasUsed === "number" && typeof t.gasPriceGwei === "number" && info.gasUnit === "gwei"
+        ? (t.gasUsed * t.gasPriceGwei) / 1e9
+        : null;
+
+    return (
+      <div className="space-y-6 py-4">
+        {/* Risk */}
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-3xl font-bold">{t.riskScore.toFixed(1)}</div>
+              <div className="text-xs text-muted-foreground">risk score (0–100)</div>
+            </div>
+            <Badge variant="outline" className={status.className}>
+              {status.label}
+            </Badge>
+          </div>
+          <Progress value={Math.min(100, Math.max(0, t.riskScore))} className="h-2" />
+          <p className="text-sm text-muted-foreground">
+            Falls in the <span className="font-medium text-foreground">{severity}</span> band (
+            {SEVERITY_BANDS[band].min}–{bandMax}); the backend classified it as {t.riskLevel} risk.
+          </p>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Contributing factors</h4>
+            {factors.length === 0 ? (
+              <div className="flex gap-2 text-sm text-muted-foreground">
+                <Info className="h-4 w-4 mt-0.5 shrink-0" />
+                None of the value, gas, address or mixer heuristics apply; the score comes from the backend model alone.
+              </div>
+            ) : (
+              <ul className="space-y-2">
+                {factors.map((f) => (
+                  <li key={f.id} className="flex gap-2 rounded border border-border/50 bg-secondary/30 p-2">
+                    <AlertTriangle
+                      className={`h-4 w-4 mt-0.5 shrink-0 ${f.weight === "strong" ? "text-destructive" : "text-warning"}`}
+                    />
+                    <div>
+                      <div className="text-sm font-medium capitalize">{f.label}</div>
+                      <div className="text-xs text-muted-foreground">{f.detail}</div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+
+        <Separator />
+
+        {/* Transaction */}
+        <dl>
+          <Field label="Hash">
+            <div className="flex items-start gap-1">
+              <span className="font-mono break-all flex-1 pt-1">{t.txHash}</span>
+              <CopyButton text={t.txHash} what="Transaction hash" />
+              <ExplorerLink href={explorerTxUrl(chain, t.txHash)} />
+            </div>
+          </Field>
+          {addressRow("From", t.from)}
+          {addressRow("To", t.to)}
+          <Field label="Value">
+            <span className="font-semibold">
+              {fmtNumber(value, info.decimals)} {info.unit}
+            </span>
+          </Field>
+          {fiat.currency && (
+            <Field label={`Value (${fiat.currency})`}>
+              {fiatValue !== null ? (
+                <>
+                  {formatFiat(fiatValue, fiat.currency)}
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {fiat.currency === "USD" && typeof t.valueUsd === "number"
+                      ? "reported by the backend"
+                      : `daily price, ${dayKey(t.timeStamp)} UTC`}
+                  </span>
+                </>
+              ) : (
+                <span className="text-muted-foreground">No price for this day</span>
+              )}
+            </Field>
+          )}
+          <Field label="Gas price">
+            {fmtNumber(t.gasPriceGwei, 3) ? `${fmtNumber(t.gasPriceGwei, 3)} ${info.gasUnit}` : missing}
+          </Field>
+          <Field label="Gas used">{fmtNumber(t.gasUsed, 0) ?? missing}</Field>
+          {fee !== null && (
+            <Field label="Fee">
+              {fmtNumber(fee, 8)} {info.unit}
+            </Field>
+          )}
+          <Field label="Block">{fmtNumber(t.blockNumber, 0) ?? missing}</Field>
+          <Field label="Confirmations">{fmtNumber(t.confirmations, 0) ?? missing}</Field>
+          <Field label="Timestamp">
+            {t.timeStamp ? (
+              <>
+                <div>{new Date(t.timeStamp * 1000).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(t.timeStamp * 1000).toISOString()} ·{" "}
+                  {formatDistanceToNow(t.timeStamp * 1000, { addSuffix: true })}
+                </div>
+              </>
+            ) : (
+              missing
+            )}
+          </Field>
+          <Field label="Mixer">{t.isMixerInvolved ? "Involved" : "Not involved"}</Field>
+        </dl>
+
+        {t.to && (
+          <Button variant="outline" className="w-full border-border/50" asChild>
+            <Link
+              to={`${investigationPath("/trace", chain, wallet ?? t.from)}?tx=${encodeURIComponent(t.txHash)}`}
+              title="Follow where these funds went"
+            >
+              <Route className="h-4 w-4 mr-2" />
+              Trace funds
+            </Link>
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!txHash} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent
+        className="w-full sm:max-w-xl overflow-y-auto"
+        onKeyDown={(e) => {
+          if (e.target instanceof HTMLInputElement) return;
+          if (e.key === "ArrowLeft" && prev) onSelect(prev.txHash);
+          if (e.key === "ArrowRight" && next) onSelect(next.txHash);
+        }}
+      >
+        <SheetHeader>
+          <SheetTitle>Transaction details</SheetTitle>
+          <SheetDescription>
+            {info.name}
+            {index >= 0 ? ` · ${index + 1} of ${rows.length} in the filtered list` : tx ? " · hidden by the current filters" : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        {tx ? (
+          renderBody(tx)
+        ) : (
+          <div className="my-6 p-3 text-sm rounded border border-border/50 bg-secondary/30 text-muted-foreground break-all">
+            Transaction {txHash} is not in the loaded list. It may be on another page; switch to full history to find
+            it.
+          </div>
+        )}
+
+        <div className="flex items-center justify-between border-t border-border/50 pt-4">
+          <Button
+            variant="outline"
+            className="border-border/50"
+            disabled={!prev}
+            onClick={() => prev && onSelect(prev.txHash)}
+            title="Previous (←)"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            className="border-border/50"
+            disabled={!next}
+            onClick={() => next && onSelect(next.txHash)}
+            title="Next (→)"
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TxDetailSheet;
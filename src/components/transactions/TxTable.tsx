@@ -0,0 +1,335 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState, type ReactNode } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { TableCell, TableHead, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, ArrowUpDown, Eye, ShieldAlert } from "lucide-react";
+import { txValue, type Chain, type TxItem } from "@/lib/api";
+import { explorerTxUrl, unitForChain } from "@/lib/chains";
+import type { TxSort, TxSortKey } from "@/lib/txFilter";
+import { DEFAULT_COLUMNS, TX_COLUMNS, type TxColumnId } from "@/lib/txViews";
+import { formatFiat } from "@/pricing/prices";
+import type { FiatValues } from "@/pricing/useFiat";
+import type { LabelLookup } from "@/labels/labels";
+import { describeHit, type ScreeningHit } from "@/screening/blocklists";
+import LabeledAddress from "@/components/labels/LabeledAddress";
+import { getRiskBadge, getStatusBadge } from "./badges";
+
+const ROW_HEIGHT = 56;
+
+type Props = {
+  rows: TxItem[];
+  chain: Chain;
+  selectedTx: string | null;
+  /** Eye button and Enter on the focused row. */
+  onToggle: (txHash: string) => void;
+  /** Shown when there are no rows. */
+  emptyText: string;
+  columns?: TxColumnId[];
+  sort?: TxSort;
+  /** Headers of sortable columns become buttons when set. */
+  onSortChange?: (sort: TxSort) => void;
+  /** Adds the fiat amount under the native one in the Amount column. */
+  fiat?: Pick<FiatValues, "currency" | "valueOf">;
+  /** Shows address labels next to From/To. */
+  labelOf?: LabelLookup;
+  /** Blocklist hits of a row; rows with any are flagged. */
+  screeningOf?: (t: TxItem) => ScreeningHit[];
+  height?: number;
+};
+
+function formatTs(ts: number) {
+  if (!ts) return "-";
+  const d = new Date(ts * 1000);
+  return d.toLocaleString();
+}
+
+/** desc → asc → unsorted */
+function nextSort(sort: TxSort, key: TxSortKey): TxSort {
+  if (sort?.key !== key) return { key, dir: "desc" };
+  return sort.dir === "desc" ? { key, dir: "asc" } : null;
+}
+
+const noLabels: LabelLookup = () => null;
+const noHits = (): ScreeningHit[] => [];
+
+type CellContext = { chain: Chain; fiat?: Pick<FiatValues, "currency" | "valueOf">; labelOf: LabelLookup };
+
+const CELLS: Record<TxColumnId, { width?: string; className?: string; render: (t: TxItem, ctx: CellContext) => ReactNode }> = {
+  hash: {
+    width: "w-[140px]",
+    className: "font-mono text-xs",
+    render: (t, { chain }) => (
+      <a
+        href={explorerTxUrl(chain, t.txHash)}
+        target="_blank"
+        rel="noreferrer"
+        tabIndex={-1}
+        className="hover:text-primary hover:underline"
+        title={t.txHash}
+      >
+        {t.txHash.slice(0, 10)}…
+      </a>
+    ),
+  },
+  fromTo: {
+    className: "font-mono text-xs",
+    render: (t, { labelOf }) => (
+      <div className="flex items-center gap-1 min-w-0">
+        <LabeledAddress address={t.from} label={labelOf(t.from)} labelOnly className="max-w-[45%]" />
+        <span className="text-muted-foreground">→</span>
+        <LabeledAddress address={t.to} label={labelOf(t.to)} labelOnly className="max-w-[45%]" />
+      </div>
+    ),
+  },
+  from: {
+    className: "font-mono text-xs",
+    render: (t, { labelOf }) => (
+      <LabeledAddress address={t.from} label={labelOf(t.from)} short={false} className="max-w-full" />
+    ),
+  },
+  to: {
+    className: "font-mono text-xs",
+    render: (t, { labelOf }) => (
+      <LabeledAddress address={t.to} label={labelOf(t.to)} short={false} className="max-w-full" />
+    ),
+  },
+  value: {
+    width: "w-[140px]",
+    className: "truncate",
+    render: (t, { fiat }) => (
+      <>
+        <div className="font-semibold truncate">{txValue(t)}</div>
+        {fiat?.currency && (
+          <div className="text-xs text-muted-foreground truncate">{formatFiat(fiat.valueOf(t), fiat.currency)}</div>
+        )}
+      </>
+    ),
+  },
+  riskScore: {
+    width: "w-[130px]",
+    render: (t) => {
+      const riskBadge = getRiskBadge(t.riskScore);
+      const RiskIcon = riskBadge.icon;
+      return (
+        <Badge variant={riskBadge.variant} className="inline-flex items-center gap-1">
+          <RiskIcon className="h-3 w-3" />
+          {t.riskScore.toFixed(2)}
+        </Badge>
+      );
+    },
+  },
+  status: {
+    width: "w-[120px]",
+    render: (t) => {
+      const statusBadge = getStatusBadge(t.riskLevel);
+      return <Badge className={statusBadge.className}>{statusBadge.label}</Badge>;
+    },
+  },
+  time: { width: "w-[190px]", className: "text-muted-foreground text-xs", render: (t) => formatTs(t.timeStamp) },
+  gas: {
+    width: "w-[140px]",
+    className: "text-xs",
+    render: (t) => (typeof t.gasPriceGwei === "number" ? t.gasPriceGwei : "—"),
+  },
+  mixer: {
+    width: "w-[90px]",
+    render: (t) =>
+      t.isMixerInvolved ? (
+        <Badge className="bg-destructive/20 text-destructive border-destructive/30">Mixer</Badge>
+      ) : (
+        <span className="text-xs text-muted-foreground">—</span>
+      ),
+  },
+};
+
+/**
+ * Windowed transaction table: only the rows in view (plus overscan) are in the
+ * DOM, so 200k rows scroll like 50. Header stays pinned; arrow keys, PageUp/
+ * PageDown and Home/End move the focused row, Enter opens it. Columns and sort
+ * are controlled by the caller (see lib/txViews.ts).
+ */
+const TxTable = forwardRef<HTMLDivElement, Props>(
+  (
+    {
+      rows,
+      chain,
+      selectedTx,
+      onToggle,
+      emptyText,
+      columns = DEFAULT_COLUMNS,
+      sort = null,
+      onSortChange,
+      fiat,
+      labelOf = noLabels,
+      screeningOf = noHits,
+      height = 600,
+    },
+    ref
+  ) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    useImperativeHandle(ref, () => scrollRef.current as HTMLDivElement);
+    const [active, setActive] = useState<number | null>(null);
+    const shown = TX_COLUMNS.filter((c) => columns.includes(c.id));
+
+    const virtualizer = useVirtualizer({
+      count: rows.length,
+      getScrollElement: () => scrollRef.current,
+      estimateSize: () => ROW_HEIGHT,
+      overscan: 12,
+    });
+
+    // new rows (refilter, sort, a deep link's data arriving) put the keyboard on the
+    // selected tx, if shown; a selection is scrolled into view once, not on every refilter
+    const scrolledTo = useRef<string | null>(null);
+    useEffect(() => {
+      if (!selectedTx) scrolledTo.current = null;
+      const i = selectedTx ? rows.findIndex((t) => t.txHash === selectedTx) : -1;
+      setActive(i >= 0 ? i : null);
+      if (i < 0 || scrolledTo.current === selectedTx) return;
+      scrolledTo.current = selectedTx;
+      virtualizer.scrollToIndex(i, { align: "center" });
+    }, [rows, selectedTx, virtualizer]);
+
+    const move = (to: number) => {
+      if (rows.length === 0) return;
+      const i = Math.max(0, Math.min(rows.length - 1, to));
+      setActive(i);
+      virtualizer.scrollToIndex(i, { align: "auto" });
+    };
+
+    const pageRows = Math.max(1, Math.floor(height / ROW_HEIGHT) - 1);
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      const cur = active ?? -1;
+      const keys: Record<string, () => void> = {
+        ArrowDown: () => move(cur + 1),
+        ArrowUp: () => move(cur - 1),
+        PageDown: () => move(cur + pageRows),
+        PageUp: () => move(cur - pageRows),
+        Home: () => move(0),
+        End: () => move(rows.length - 1),
+        Enter: () => active !== null && rows[active] && onToggle(rows[active].txHash),
+      };
+      const handler = keys[e.key];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+
+    const items = virtualizer.getVirtualItems();
+    const padTop = items.length ? items[0].start : 0;
+    const padBottom = items.length ? virtualizer.getTotalSize() - items[items.length - 1].end : 0;
+
+    return (
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        role="grid"
+        aria-rowcount={rows.length}
+        className="relative overflow-auto rounded-md border border-border/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        style={{ maxHeight: height }}
+      >
+        <table className="w-full table-fixed caption-bottom text-sm">
+          <colgroup>
+            {shown.map((c) => (
+              <col key={c.id} className={CELLS[c.id].width} />
+            ))}
+            <col className="w-[80px]" />
+          </colgroup>
+          <thead className="sticky top-0 z-10 bg-card [&_tr]:border-b">
+            <TableRow className="border-border/50 hover:bg-transparent">
+              {shown.map((c) => {
+                const label = c.id === "value" ? `${c.label} (${unitForChain(chain)})` : c.label;
+                if (!c.sortKey || !onSortChange) return <TableHead key={c.id}>{label}</TableHead>;
+                const dir = sort?.key === c.sortKey ? sort.dir : null;
+                const SortIcon = dir === "asc" ? ArrowUp : dir === "desc" ? ArrowDown : ArrowUpDown;
+                return (
+                  <TableHead key={c.id} aria-sort={dir ? (dir === "asc" ? "ascending" : "descending") : "none"}>
+                    <button
+                      type="button"
+                      className={`inline-flex items-center gap-1 hover:text-foreground ${dir ? "text-foreground" : ""}`}
+                      onClick={() => onSortChange(nextSort(sort, c.sortKey!))}
+                    >
+                      {label}
+                      <SortIcon className={`h-3 w-3 ${dir ? "" : "opacity-40"}`} />
+                    </button>
+                  </TableHead>
+                );
+              })}
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </thead>
+          <tbody>
+            {padTop > 0 && <tr style={{ height: padTop }} />}
+            {items.map((v) => {
+              const t = rows[v.index];
+              const hits = screeningOf(t);
+              return (
+                <TableRow
+                  key={t.txHash}
+                  aria-rowindex={v.index + 1}
+                  aria-selected={t.txHash === selectedTx}
+                  onClick={() => setActive(v.index)}
+                  style={{ height: ROW_HEIGHT }}
+                  className={`border-border/50 hover:bg-muted/10 ${
+                    v.index === active ? "outline outline-1 -outline-offset-1 outline-primary/60 " : ""
+                  }${
+                    t.txHash === selectedTx
+                      ? "bg-primary/10"
+                      : hits.length
+                      ? "bg-destructive/15"
+                      : t.riskLevel === "high"
+                      ? "bg-destructive/5"
+                      : t.riskLevel === "medium"
+                      ? "bg-warning/5"
+                      : "bg-success/5"
+                  }`}
+                >
+                  {shown.map((c) => (
+                    <TableCell key={c.id} className={`py-0 ${CELLS[c.id].className ?? ""}`}>
+                      {CELLS[c.id].render(t, { chain, fiat, labelOf })}
+                    </TableCell>
+                  ))}
+                  <TableCell className="py-0">
+                    {hits.length > 0 && (
+                      <span
+                        className="inline-flex align-middle mr-1 text-destructive"
+                        role="img"
+                        aria-label="Blocklisted counterparty"
+                        title={hits.map(describeHit).join("\n")}
+                      >
+                        <ShieldAlert className="h-4 w-4" />
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      tabIndex={-1}
+                      title="View details"
+                      onClick={() => onToggle(t.txHash)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {padBottom > 0 && <tr style={{ height: padBottom }} />}
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={shown.length + 1} className="text-center text-muted-foreground py-8">
+                  {emptyText}
+                </TableCell>
+              </TableRow>
+            )}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+);
+TxTable.displayName = "TxTable";
+
+export default TxTable;
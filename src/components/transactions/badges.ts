@@ -0,0 +1,20 @@
+import { AlertTriangle, Eye, Shield } from "lucide-react";
+import type { TxItem } from "@/lib/api";
+
+/** Badge presets shared by the transaction table and detail sheet. */
+export const getRiskBadge = (score: number) => {
+  if (score >= 80) return { label: "High", variant: "destructive" as const, icon: AlertTriangle };
+  if (score >= 50) return { label: "Medium", variant: "default" as const, icon: Eye };
+  return { label: "Low", variant: "secondary" as const, icon: Shield };
+};
+
+export const getStatusBadge = (riskLevel: TxItem["riskLevel"]) => {
+  switch (riskLevel) {
+    case "high":
+      return { label: "Fraud", className: "bg-destructive/20 text-destructive border-destructive/30" };
+    case "medium":
+      return { label: "Suspicious", className: "bg-warning/20 text-warning border-warning/30" };
+    default:
+      return { label: "Safe", className: "bg-success/20 text-success border-success/30" };
+  }
+};
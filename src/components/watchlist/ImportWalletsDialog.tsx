@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileUp, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAddToWatchlist } from "@/hooks/use-watchlist";
+import { errorMessage, type Chain, type WatchlistEntry, type WatchPriority } from "@/lib/api";
+import { PRIORITIES, parseTags } from "@/lib/watchlist";
+import { parseDelimited, previewImport, readImportFile, type ImportStatus } from "@/lib/walletImport";
+import ChainSelect from "@/components/ChainSelect";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existing: WatchlistEntry[];
+};
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  valid: "bg-success/20 text-success border-success/30",
+  ambiguous: "bg-warning/20 text-warning border-warning/30",
+  invalid: "bg-destructive/20 text-destructive border-destructive/30",
+  duplicate: "bg-muted/20 text-muted-foreground border-muted/30",
+};
+
+const MAX_PREVIEW_ROWS = 500;
+
+/**
+ * Import wallets from pasted text or a CSV/XLSX/TXT export. Nothing is written
+ * until the validation preview has been reviewed.
+ */
+const ImportWalletsDialog = ({ open, onOpenChange, existing }: Props) => {
+  const { toast } = useToast();
+  const add = useAddToWatchlist();
+
+  const [source, setSource] = useState<"paste" | "file">("paste");
+  const [text, setText] = useState("");
+  const [fileRows, setFileRows] = useState<string[][] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const [owner, setOwner] = useState("");
+  const [tags, setTags] = useState("");
+  const [priority, setPriority] = useState<WatchPriority>("medium");
+  const [evmChain, setEvmChain] = useState<Chain>("eth");
+  const [includeAmbiguous, setIncludeAmbiguous] = useState(false);
+  const [show, setShow] = useState<ImportStatus | "all">("all");
+
+  useEffect(() => {
+    if (open) return;
+    setText("");
+    setFileRows(null);
+    setFileName(null);
+    setFileError(null);
+    setIncludeAmbiguous(false);
+    setShow("all");
+  }, [open]);
+
+  const preview = useMemo(() => {
+    const rows = source === "paste" ? parseDelimited(text) : fileRows ?? [];
+    return previewImport(rows, { owner: owner.trim() || null, tags: parseTags(tags), priority, evmChain }, existing);
+  }, [source, text, fileRows, owner, tags, priority, evmChain, existing]);
+
+  const counts = preview.reduce<Record<ImportStatus, number>>(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { valid: 0, ambiguous: 0, invalid: 0, duplicate: 0 }
+  );
+  const toImport = preview
+    .filter((r) => r.status === "valid" || (includeAmbiguous && r.status === "ambiguous"))
+    .map((r) => r.entry!);
+  const shown = preview.filter((r) => show === "all" || r.status === show);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    setFileError(null);
+    try {
+      setFileRows(await readImportFile(file));
+      setFileName(file.name);
+    } catch (e) {
+      setFileRows(null);
+      setFileError(errorMessage(e));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const r = await add.mutateAsync(toImport);
+      toast({ title: "Watchlist updated", description: `${r.entries.length} wallet(s) imported` });
+      onOpenChange(false);
+    } catch (e) {
+      toast({ title: "Import failed", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import wallets</DialogTitle>
+          <DialogDescription>
+            Addresses are checked against EIP-55 and base58check/bech32 checksums and deduplicated before import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={(v) => setSource(v as "paste" | "file")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="paste">Paste</TabsTrigger>
+            <TabsTrigger value="file">Upload file</TabsTrigger>
+          </TabsList>
+          <TabsContent value="paste">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={6}
+              placeholder={"address,label\n0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045,Treasury\nbc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq"}
+              className="bg-secondary/50 border-border/50 font-mono text-xs"
+            />
+          </TabsContent>
+          <TabsContent value="file" className="space-y-2">
+            <label className="flex items-center justify-center gap-2 p-6 rounded-lg border border-dashed border-border/50 cursor-pointer hover:bg-muted/10 text-sm text-muted-foreground">
+              {reading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+              {fileName ?? "Choose a .csv, .tsv, .txt or .xlsx file"}
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            <p className="text-xs text-muted-foreground">
+              A header row is recognised by column names like address/wallet, chain/network, label/name, owner, tags and
+              priority; otherwise the first column is the address and the second the label. 0x rows without a chain
+              column go to the EVM network below.
+            </p>
+            {fileError && (
+              <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+                {fileError}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="grid grid-cols-4 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="import-owner">Default owner</Label>
+            <Input
+              id="import-owner"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              className="bg-secondary/50 border-border/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-tags">Add tags</Label>
+            <Input
+              id="import-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="comma separated"
+              className="bg-secondary/50 border-border/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Default priority</Label>
+            <Select value={priority} onValueChange={(v) => setPriority(v as WatchPriority)}>
+              <SelectTrigger className="bg-secondary/50 border-border/50 capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIORITIES.map((p) => (
+                  <SelectItem key={p} value={p} className="capitalize">
+                    {p}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>EVM network</Label>
+            <ChainSelect value={evmChain} onChange={setEvmChain} family="evm" className="w-full" />
+          </div>
+        </div>
+
+        {preview.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              {(["all", "valid", "ambiguous", "invalid", "duplicate"] as const).map((s) => (
+                <Button
+                  key={s}
+                  variant={show === s ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 capitalize"
+                  onClick={() => setShow(s)}
+                >
+                  {s} ({s === "all" ? preview.length : counts[s]})
+                </Button>
+              ))}
+            </div>
+            <div className="rounded-md border border-border/50 max-h-64 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border/50 hover:bg-muted/20">
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shown.slice(0, MAX_PREVIEW_ROWS).map((r) => (
+                    <TableRow key={r.row} className="border-border/50">
+                      <TableCell className="text-xs text-muted-foreground">{r.row}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-[280px] truncate" title={r.entry?.address ?? r.raw[0]}>
+                        {r.entry?.address ?? r.raw.join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`${STATUS_STYLES[r.status]} capitalize`}>{r.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{r.reason ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {shown.length > MAX_PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">Showing the first {MAX_PREVIEW_ROWS} of {shown.length} rows.</p>
+            )}
+            {counts.ambiguous > 0 && (
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={includeAmbiguous} onCheckedChange={(c) => setIncludeAmbiguous(c === true)} />
+                Also import {counts.ambiguous} ambiguous row(s)
+              </label>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="border-border/50" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={handleImport}
+            disabled={add.isPending || toImport.length === 0}
+          >
+            {add.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Import {toImport.length || ""} Wallet{toImport.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportWalletsDialog;
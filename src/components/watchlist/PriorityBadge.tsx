@@ -0,0 +1,15 @@
+import { Badge } from "@/components/ui/badge";
+import type { WatchPriority } from "@/lib/api";
+
+const STYLES: Record<WatchPriority, string> = {
+  critical: "bg-destructive/20 text-destructive border-destructive/30",
+  high: "bg-destructive/10 text-destructive border-destructive/20",
+  medium: "bg-warning/20 text-warning border-warning/30",
+  low: "bg-muted/20 text-muted-foreground border-muted/30",
+};
+
+const PriorityBadge = ({ priority, className = "" }: { priority: WatchPriority; className?: string }) => (
+  <Badge className={`${STYLES[priority]} capitalize ${className}`}>{priority}</Badge>
+);
+
+export default PriorityBadge;
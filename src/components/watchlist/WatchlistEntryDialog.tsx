@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAddToWatchlist, useUpdateWatchlistEntry } from "@/hooks/use-watchlist";
+import { errorMessage, type Chain, type WatchlistEntry, type WatchPriority } from "@/lib/api";
+import { chainOf, describeAddress, validateAddress } from "@/lib/address";
+import { PRIORITIES, parseTags } from "@/lib/watchlist";
+import ChainSelect from "@/components/ChainSelect";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Edit this entry; add a new one when omitted. */
+  entry?: WatchlistEntry | null;
+};
+
+/** Add or edit a single watched wallet. */
+const WatchlistEntryDialog = ({ open, onOpenChange, entry }: Props) => {
+  const { toast } = useToast();
+  const add = useAddToWatchlist();
+  const update = useUpdateWatchlistEntry();
+
+  const [address, setAddress] = useState("");
+  const [chain, setChain] = useState<Chain>("eth");
+  const [label, setLabel] = useState("");
+  const [owner, setOwner] = useState("");
+  const [tags, setTags] = useState("");
+  const [priority, setPriority] = useState<WatchPriority>("medium");
+
+  useEffect(() => {
+    if (!open) return;
+    setAddress(entry?.address ?? "");
+    setChain(entry?.chain ?? "eth");
+    setLabel(entry?.label ?? "");
+    setOwner(entry?.owner ?? "");
+    setTags(entry?.tags.join(", ") ?? "");
+    setPriority(entry?.priority ?? "medium");
+  }, [open, entry]);
+
+  const check = validateAddress(address);
+  const invalid = !entry && address.trim().length > 0 && !check.valid;
+  const pending = add.isPending || update.isPending;
+
+  const handleAddress = (v: string) => {
+    setAddress(v);
+    const r = validateAddress(v);
+    // keep an EVM chain the user already picked; only the family is implied by the address
+    if (r.valid && r.chain) setChain((c) => chainOf(r.normalized!, c) ?? r.chain!);
+  };
+
+  const handleSave = async () => {
+    const fields = { label: label.trim() || null, owner: owner.trim() || null, tags: parseTags(tags), priority };
+    try {
+      if (entry) {
+        await update.mutateAsync({ id: entry.id, patch: fields });
+      } else {
+        const r = await add.mutateAsync([{ address: check.normalized!, chain, ...fields }]);
+        if (r.entries.length === 0) {
+          toast({ title: "Already watched", description: "This wallet is already on the watchlist" });
+        }
+      }
+      onOpenChange(false);
+    } catch (e) {
+      toast({ title: "Failed to save wallet", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{entry ? "Edit watched wallet" : "Add wallet to watchlist"}</DialogTitle>
+          <DialogDescription>Bitcoin is detected from the address; pick the network for EVM (0x) wallets.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_160px] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="wl-address">Address</Label>
+              <Input
+                id="wl-address"
+                value={address}
+                onChange={(e) => handleAddress(e.target.value)}
+                disabled={!!entry}
+                placeholder="0x… or bc1…"
+                className="bg-secondary/50 border-border/50 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Chain</Label>
+              <ChainSelect
+                value={chain}
+                onChange={setChain}
+                family={check.valid ? check.family : null}
+                disabled={!!entry}
+                className="w-full"
+              />
+            </div>
+          </div>
+          {invalid && <p className="text-xs text-destructive">{check.error}</p>}
+          {!entry && check.valid && (
+            <p className={`text-xs ${check.warning ? "text-warning" : "text-muted-foreground"}`}>
+              {describeAddress(check)}
+              {check.warning ? ` — ${check.warning}` : ""}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="wl-label">Label</Label>
+              <Input
+                id="wl-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Customer hot wallet"
+                className="bg-secondary/50 border-border/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wl-owner">Owner</Label>
+              <Input
+                id="wl-owner"
+                value={owner}
+                onChange={(e) => setOwner(e.target.value)}
+                placeholder="Analyst or customer"
+                className="bg-secondary/50 border-border/50"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-[1fr_130px] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="wl-tags">Tags</Label>
+              <Input
+                id="wl-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="kyc, counterparty, exchange"
+                className="bg-secondary/50 border-border/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(v) => setPriority(v as WatchPriority)}>
+                <SelectTrigger className="bg-secondary/50 border-border/50 capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p} className="capitalize">
+                      {p}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" className="border-border/50" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={handleSave}
+            disabled={pending || (!entry && !check.valid)}
+          >
+            {pending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            {entry ? "Save" : "Add Wallet"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WatchlistEntryDialog;
@@ -0,0 +1,103 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Bookmark, Loader2, RefreshCw } from "lucide-react";
+import { useRefreshWatchlistAnalyses, useWatchlist, useWatchlistAnalyses } from "@/hooks/use-watchlist";
+import { summarizeRisk } from "@/lib/watchlist";
+import { investigationPath } from "@/wallet/useInvestigationRoute";
+import PriorityBadge from "./PriorityBadge";
+
+const TOP_N = 5;
+
+/** Dashboard block: risk rolled up across every watched wallet. */
+const WatchlistRiskCard = () => {
+  const navigate = useNavigate();
+  const { data: entries = [], isLoading } = useWatchlist();
+  const analyses = useWatchlistAnalyses(entries);
+  const refresh = useRefreshWatchlistAnalyses();
+
+  const { rows, flagged, highTx, pending, fetching } = useMemo(() => {
+    const rows = analyses
+      .filter((a) => a.data)
+      .map((a) => ({ entry: a.entry, risk: summarizeRisk(a.data!.items) }))
+      .sort((a, b) => b.risk.highCount - a.risk.highCount || b.risk.maxRisk - a.risk.maxRisk);
+    return {
+      rows,
+      flagged: rows.filter((r) => r.risk.highCount > 0).length,
+      highTx: rows.reduce((n, r) => n + r.risk.highCount, 0),
+      pending: analyses.filter((a) => a.isLoading).length,
+      fetching: analyses.some((a) => a.isFetching),
+    };
+  }, [analyses]);
+
+  if (!isLoading && entries.length === 0) return null;
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bookmark className="h-5 w-5 text-primary" />
+              Watchlist Risk
+            </CardTitle>
+            <CardDescription>
+              Aggregate across {entries.length} watched wallet(s)
+              {pending > 0 && ` • analyzing ${pending}…`}
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            title="Re-analyze watched wallets"
+            onClick={() => refresh(entries)}
+            disabled={!entries.length || fetching}
+          >
+            <RefreshCw className={`h-4 w-4 ${fetching ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="p-3 bg-secondary/20 rounded-lg border border-border/50">
+            <div className="text-2xl font-bold text-primary">{entries.length}</div>
+            <div className="text-xs text-muted-foreground">Wallets watched</div>
+          </div>
+          <div className="p-3 bg-secondary/20 rounded-lg border border-border/50">
+            <div className="text-2xl font-bold text-destructive">{flagged}</div>
+            <div className="text-xs text-muted-foreground">With high-risk activity</div>
+          </div>
+          <div className="p-3 bg-secondary/20 rounded-lg border border-border/50">
+            <div className="text-2xl font-bold text-warning">{highTx}</div>
+            <div className="text-xs text-muted-foreground">High-risk transactions</div>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {rows.slice(0, TOP_N).map(({ entry, risk }) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => navigate(investigationPath("/dashboard", entry.chain, entry.address))}
+              className="w-full flex items-center gap-3 p-2 rounded-lg border border-border/50 hover:bg-muted/10 text-left"
+            >
+              <PriorityBadge priority={entry.priority} />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium truncate">{entry.label || entry.address}</div>
+                {entry.label && <div className="font-mono text-xs text-muted-foreground truncate">{entry.address}</div>}
+              </div>
+              <div className="text-right text-xs">
+                <div className={risk.highCount ? "text-destructive" : "text-muted-foreground"}>{risk.highCount} high</div>
+                <div className="text-muted-foreground">max {risk.maxRisk.toFixed(0)}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WatchlistRiskCard;
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { walletKey } from "@/lib/watchlist";
+import { useMonitoredWallet } from "@/wallet/MonitoredWalletContext";
+import { investigationPath } from "@/wallet/useInvestigationRoute";
+
+const INVESTIGATION_PAGES = ["/dashboard", "/transactions", "/alerts", "/reports", "/graph", "/trace"];
+const MAX_SHOWN = 50;
+
+const DOT: Record<string, string> = {
+  critical: "bg-destructive",
+  high: "bg-destructive/60",
+  medium: "bg-warning",
+  low: "bg-muted-foreground/40",
+};
+
+/** Sidebar quick-switch between watched wallets; keeps the current page when it is wallet-scoped. */
+const WatchlistSwitcher = () => {
+  const { data: entries = [] } = useWatchlist();
+  const wallet = useMonitoredWallet();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState("");
+
+  if (entries.length === 0) return null;
+
+  const page = `/${location.pathname.split("/")[1]}`;
+  const target = INVESTIGATION_PAGES.includes(page) ? page : "/transactions";
+  const current = wallet.address ? walletKey(wallet.chain, wallet.address) : null;
+  const needle = filter.trim().toLowerCase();
+  const shown = entries
+    .filter((e) => !needle || e.address.toLowerCase().includes(needle) || e.label?.toLowerCase().includes(needle))
+    .slice(0, MAX_SHOWN);
+
+  return (
+    <SidebarGroup className="px-0">
+      <SidebarGroupLabel>Watchlist ({entries.length})</SidebarGroupLabel>
+      <SidebarGroupContent className="space-y-2">
+        <SidebarInput value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Find wallet…" />
+        <SidebarMenu className="max-h-64 overflow-y-auto">
+          {shown.map((e) => (
+            <SidebarMenuItem key={e.id}>
+              <SidebarMenuButton
+                size="sm"
+                isActive={walletKey(e.chain, e.address) === current}
+                onClick={() => navigate(investigationPath(target, e.chain, e.address))}
+                title={e.address}
+              >
+                <span className={`h-2 w-2 shrink-0 rounded-full ${DOT[e.priority]}`} />
+                <span className="truncate">{e.label || `${e.address.slice(0, 10)}…${e.address.slice(-4)}`}</span>
+                <span className="ml-auto text-[10px] uppercase text-sidebar-foreground/50">{e.chain}</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          ))}
+        </SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
+
+export default WatchlistSwitcher;
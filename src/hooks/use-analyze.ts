@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { analyzeAddress, analyzeFullHistory, type AnalyzeResponse, type Chain } from "@/lib/api";
+
+export const PAGE_SIZES = [25, 50, 100, 250];
+
+/** Shared query options so every page hits the same cache entry for a wallet. */
+export function analyzeQueryOptions(chain: Chain, address: string | null) {
+  return {
+    queryKey: ["analyze", chain, address] as const,
+    queryFn: ({ signal }: { signal: AbortSignal }) => analyzeAddress(chain, address as string, 1, 50, signal),
+    enabled: Boolean(address && address.length > 0),
+    refetchInterval: 15000,
+    refetchOnWindowFocus: false,
+  };
+}
+
+export function useAnalyze(chain: Chain, address: string | null) {
+  return useQuery<AnalyzeResponse>(analyzeQueryOptions(chain, address));
+}
+
+/** One server-side page; keeps the previous page on screen while the next loads. */
+export function useAnalyzePage(chain: Chain, address: string | null, page: number, pageSize: number, enabled = true) {
+  return useQuery<AnalyzeResponse>({
+    queryKey: ["analyze", chain, address, { page, pageSize }],
+    queryFn: ({ signal }) => analyzeAddress(chain, address as string, page, pageSize, signal),
+    enabled: enabled && Boolean(address),
+    placeholderData: keepPreviousData,
+    refetchInterval: page === 1 ? 15000 : false,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function historyQueryOptions(
+  chain: Chain,
+  address: string,
+  onProgress?: (loaded: number, total: number) => void
+) {
+  return {
+    queryKey: ["analyze-history", chain, address] as const,
+    queryFn: ({ signal }: { signal: AbortSignal }) => analyzeFullHistory(chain, address, { signal, onProgress }),
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  };
+}
+
+/** Whole history of a wallet for filters and exports; `progress` updates while pages stream in. */
+export function useFullHistory(chain: Chain, address: string | null, enabled: boolean) {
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const query = useQuery<AnalyzeResponse>({
+    ...historyQueryOptions(chain, address as string, (loaded, total) => setProgress({ loaded, total })),
+    enabled: enabled && Boolean(address),
+  });
+  return { ...query, progress };
+}
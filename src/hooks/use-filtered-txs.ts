@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { TxItem } from "@/lib/api";
+import { filterAndSort, type TxFilters, type TxSort } from "@/lib/txFilter";
+import type { TxWorkerRequest, TxWorkerResponse } from "@/workers/txFilter.worker";
+
+/** Below this, a synchronous pass is cheaper than the round trip. */
+const WORKER_THRESHOLD = 5000;
+
+type Result = { indices: Int32Array; version: number; ms: number };
+
+/**
+ * Filtered + sorted view of `items`. Large lists are processed in a Web Worker
+ * so typing a filter never blocks scrolling; `pending` is true while a result
+ * for the latest inputs is outstanding (the previous rows stay on screen).
+ * `filters.query` is compared by identity, so memoize it on the query text.
+ */
+export function useFilteredTxs(items: TxItem[], filters: TxFilters, sort: TxSort = null) {
+  const useWorker = items.length >= WORKER_THRESHOLD && typeof Worker !== "undefined";
+  const workerRef = useRef<Worker | null>(null);
+  const versionRef = useRef({ items: null as TxItem[] | null, version: 0 });
+  const seqRef = useRef(0);
+  const [result, setResult] = useState<Result | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const { query, wallet } = filters;
+  const sortKey = sort?.key;
+  const sortDir = sort?.dir;
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  useEffect(() => {
+    if (!useWorker) return;
+    if (!workerRef.current) {
+      const w = new Worker(new URL("../workers/txFilter.worker.ts", import.meta.url), { type: "module" });
+      w.onmessage = (e: MessageEvent<TxWorkerResponse>) => {
+        if (e.data.seq !== seqRef.current) return; // superseded by a newer query
+        setResult({ indices: e.data.indices, version: e.data.version, ms: e.data.ms });
+        setPending(false);
+      };
+      workerRef.current = w;
+    }
+    const v = versionRef.current;
+    if (v.items !== items) {
+      v.items = items;
+      v.version += 1;
+      workerRef.current.postMessage({ type: "load", version: v.version, items } satisfies TxWorkerRequest);
+    }
+    seqRef.current += 1;
+    setPending(true);
+    workerRef.current.postMessage({
+      type: "query",
+      seq: seqRef.current,
+      version: v.version,
+      filters: { query, wallet },
+      sort: sortKey && sortDir ? { key: sortKey, dir: sortDir } : null,
+    } satisfies TxWorkerRequest);
+  }, [useWorker, items, query, wallet, sortKey, sortDir]);
+
+  const sync = useMemo(() => {
+    if (useWorker) return null;
+    const started = performance.now();
+    const sort: TxSort = sortKey && sortDir ? { key: sortKey, dir: sortDir } : null;
+    const indices = filterAndSort(items, { query, wallet }, sort);
+    return { indices, ms: performance.now() - started };
+  }, [useWorker, items, query, wallet, sortKey, sortDir]);
+
+  // Worker results refer to the item list they were computed on; until the
+  // first result for a new list arrives, show nothing rather than wrong rows.
+  const source = sync ?? (result && result.version === versionRef.current.version ? result : null);
+  const rows = useMemo(() => (source ? Array.from(source.indices, (i) => items[i]) : []), [source, items]);
+
+  return { rows, pending: useWorker && (pending || !source), ms: source?.ms ?? null };
+}
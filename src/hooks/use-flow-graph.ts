@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { errorMessage, type Chain, type TxItem } from "@/lib/api";
+import { analyzeQueryOptions, useAnalyze } from "@/hooks/use-analyze";
+import {
+  buildFlowGraph,
+  expansionSubtree,
+  neighborsByValue,
+  nodeId,
+  type Expansion,
+  type FlowGraph,
+} from "@/lib/flowGraph";
+
+/** Per hop, only the largest counterparties of each expanded address are followed. */
+const FANOUT = 8;
+/** Upper bound on /api/analyze calls for one expand click. */
+const MAX_FETCHES = 24;
+
+/**
+ * Flow graph around `center`: the center's latest transfers plus those of
+ * every address the user expanded. Expanding fetches through the shared
+ * analyze cache, so revisiting an address is free.
+ */
+export function useFlowGraph(chain: Chain, center: string | null) {
+  const queryClient = useQueryClient();
+  const centerQuery = useAnalyze(chain, center);
+  const [expansions, setExpansions] = useState<Map<string, Expansion>>(new Map());
+  const [fetched, setFetched] = useState<Map<string, TxItem[]>>(new Map());
+  const [loading, setLoading] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  // bumped by every reset, so an expansion still loading from before doesn't write into the new graph
+  const generation = useRef(0);
+
+  // a different wallet or chain starts a new investigation
+  useEffect(() => {
+    generation.current++;
+    setExpansions(new Map());
+    setFetched(new Map());
+    setLoading(new Set());
+    setError(null);
+  }, [chain, center]);
+
+  const graph: FlowGraph | null = useMemo(() => {
+    if (!center) return null;
+    const centerId = nodeId(center);
+    const all = new Map<string, Expansion>(expansions);
+    all.set(centerId, { id: centerId, hop: 0, parent: null });
+    const txs = new Map(fetched);
+    txs.set(centerId, centerQuery.data?.items ?? []);
+    return buildFlowGraph(center, all, txs);
+  }, [center, expansions, fetched, centerQuery.data]);
+
+  const load = useCallback(
+    async (address: string) => {
+      const res = await queryClient.fetchQuery({ ...analyzeQueryOptions(chain, address), staleTime: 60_000 });
+      return res.items ?? [];
+    },
+    [chain, queryClient]
+  );
+
+  /** Load `address` and then `hops - 1` further rings of its largest counterparties. */
+  const expand = useCallback(
+    async (address: string, hops: number) => {
+      if (!graph) return;
+      setError(null);
+      const gen = generation.current;
+      let current = graph;
+      const known = new Map(expansions);
+      const txs = new Map(fetched);
+      const ring = (g: FlowGraph, from: string) => {
+        const byId = new Map(g.nodes.map((n) => [n.id, n]));
+        return neighborsByValue(g, from)
+          .filter((id) => !known.has(id) && id !== g.center)
+          .slice(0, FANOUT)
+          .map((id) => ({ id, address: byId.get(id)!.address, parent: from as string | null }));
+      };
+      // an address that is already loaded (the center included) expands into its counterparties
+      const start = nodeId(address);
+      let frontier =
+        start === current.center || known.has(start) ? ring(current, start) : [{ id: start, address, parent: null }];
+      let budget = MAX_FETCHES;
+
+      for (let h = 0; h < hops && frontier.length && budget > 0; h++) {
+        const batch = frontier.filter((f) => f.id !== current.center && !known.has(f.id)).slice(0, budget);
+        budget -= batch.length;
+        setLoading((prev) => new Set([...prev, ...batch.map((b) => b.id)]));
+        const results = await Promise.allSettled(batch.map((b) => load(b.address)));
+        setLoading((prev) => {
+          const next = new Set(prev);
+          batch.forEach((b) => next.delete(b.id));
+          return next;
+        });
+        if (gen !== generation.current) return;
+
+        const failed: string[] = [];
+        const added = new Map<string, Expansion>();
+        const addedTxs = new Map<string, TxItem[]>();
+        results.forEach((r, i) => {
+          const b = batch[i];
+          if (r.status === "rejected") {
+            failed.push(`${b.address}: ${errorMessage(r.reason)}`);
+            return;
+          }
+          const hop = current.nodes.find((n) => n.id === b.id)?.hop ?? 1;
+          // later rings hang off the node they were reached from, so collapsing that node drops them too
+          const e = { id: b.id, hop, parent: b.parent ?? current.center };
+          known.set(b.id, e);
+          txs.set(b.id, r.value);
+          added.set(b.id, e);
+          addedTxs.set(b.id, r.value);
+        });
+        if (failed.length) setError(failed.join("; "));
+
+        // merge into the current state: another expand may have landed while this ring loaded,
+        // and a node collapsed meanwhile must not get its children back
+        const centerId = current.center;
+        setExpansions((prev) => {
+          const next = new Map(prev);
+          added.forEach((e, id) => {
+            if (e.parent === centerId || next.has(e.parent!)) next.set(id, e);
+          });
+          return next;
+        });
+        setFetched((prev) => new Map([...prev, ...addedTxs]));
+        const all = new Map(known);
+        all.set(current.center, { id: current.center, hop: 0, parent: null });
+        txs.set(current.center, centerQuery.data?.items ?? []);
+        current = buildFlowGraph(center!, all, txs);
+
+        const next = current;
+        frontier = batch.flatMap((b) => ring(next, b.id));
+      }
+    },
+    [graph, center, expansions, fetched, load, centerQuery.data]
+  );
+
+  /** Drop `address`'s expansion and everything expanded from it. */
+  const collapse = useCallback((address: string) => {
+    setExpansions((prev) => {
+      const drop = expansionSubtree(prev, nodeId(address));
+      return new Map([...prev].filter(([id]) => !drop.has(id)));
+    });
+  }, []);
+
+  const reset = useCallback(() => {
+    generation.current++;
+    setExpansions(new Map());
+    setError(null);
+  }, []);
+
+  return {
+    graph,
+    isLoading: centerQuery.isLoading,
+    centerError: centerQuery.isError ? centerQuery.error : null,
+    loading,
+    error,
+    expand,
+    collapse,
+    reset,
+  };
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { settingsApi, type TableViewBody } from "@/lib/api";
+import { fromSaved } from "@/lib/txViews";
+
+const VIEWS_KEY = ["table-views"] as const;
+
+/** The signed-in user's saved Transactions views. */
+export function useTableViews() {
+  return useQuery({
+    queryKey: VIEWS_KEY,
+    queryFn: ({ signal }) => settingsApi.tableViews(signal),
+    select: (r) => r.views.filter((v) => v.table === "transactions").map(fromSaved),
+    staleTime: 5 * 60_000,
+  });
+}
+
+function useViewsMutation<V, R>(fn: (v: V) => Promise<R>) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: fn,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: VIEWS_KEY });
+    },
+  });
+}
+
+export const useSaveTableView = () =>
+  useViewsMutation(({ id, body }: { id?: string; body: TableViewBody }) =>
+    id ? settingsApi.updateTableView(id, body) : settingsApi.createTableView(body)
+  );
+
+export const useDeleteTableView = () => useViewsMutation((id: string) => settingsApi.deleteTableView(id));
@@ -0,0 +1,100 @@
+import { useMutation, useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  watchlistApi,
+  type AnalyzeResponse,
+  type NewWatchlistEntry,
+  type WatchlistEntry,
+} from "@/lib/api";
+import { analyzeQueryOptions } from "@/hooks/use-analyze";
+import { byPriority } from "@/lib/watchlist";
+
+const WATCHLIST_KEY = ["watchlist"] as const;
+
+/** Watched wallets, highest priority first. */
+export function useWatchlist() {
+  return useQuery({
+    queryKey: WATCHLIST_KEY,
+    queryFn: ({ signal }) => watchlistApi.list(signal),
+    select: (r) => [...r.entries].sort(byPriority),
+  });
+}
+
+function useWatchlistMutation<V, R>(fn: (v: V) => Promise<R>) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: fn,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: WATCHLIST_KEY });
+    },
+  });
+}
+
+export const useAddToWatchlist = () =>
+  useWatchlistMutation((entries: NewWatchlistEntry[]) => watchlistApi.add(entries));
+
+export const useUpdateWatchlistEntry = () =>
+  useWatchlistMutation(({ id, patch }: { id: string; patch: Partial<NewWatchlistEntry> }) =>
+    watchlistApi.update(id, patch)
+  );
+
+export const useRemoveFromWatchlist = () => useWatchlistMutation((id: string) => watchlistApi.remove(id));
+
+/* ---- Risk across the list ---- */
+
+// the list can run to hundreds of wallets; never hit /api/analyze for all of them at once
+const ANALYZE_CONCURRENCY = 4;
+const WATCHLIST_STALE_MS = 5 * 60_000;
+
+let running = 0;
+const waiting: (() => void)[] = [];
+
+async function withSlot<T>(fn: () => Promise<T>): Promise<T> {
+  if (running >= ANALYZE_CONCURRENCY) await new Promise<void>((resolve) => waiting.push(resolve));
+  else running++;
+  try {
+    return await fn();
+  } finally {
+    // hand the slot straight to the next caller so it can't be taken in between
+    const next = waiting.shift();
+    if (next) next();
+    else running--;
+  }
+}
+
+/**
+ * Analyze every watched wallet through the same cache entries the pages use.
+ * Requests are queued a few at a time and don't poll; an entry is fetched
+ * again once it is stale and the list is opened, or on `useRefreshWatchlistAnalyses`.
+ */
+export function useWatchlistAnalyses(entries: WatchlistEntry[]) {
+  return useQueries({
+    queries: entries.map((e) => {
+      const options = analyzeQueryOptions(e.chain, e.address);
+      return {
+        ...options,
+        queryFn: (ctx: { signal: AbortSignal }) => withSlot(() => options.queryFn(ctx)),
+        refetchInterval: false as const,
+        staleTime: WATCHLIST_STALE_MS,
+      };
+    }),
+    combine: (results) =>
+      results.map((r, i) => ({
+        entry: entries[i],
+        data: r.data as AnalyzeResponse | undefined,
+        isLoading: r.isLoading,
+        isFetching: r.isFetching,
+        isError: r.isError,
+      })),
+  });
+}
+
+/** Re-analyze the given watched wallets now. */
+export const useRefreshWatchlistAnalyses = () => {
+  const qc = useQueryClient();
+  return (entries: WatchlistEntry[]) =>
+    Promise.all(
+      entries.map((e) =>
+        qc.invalidateQueries({ queryKey: analyzeQueryOptions(e.chain, e.address).queryKey, exact: true })
+      )
+    );
+};
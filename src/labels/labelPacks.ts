@@ -0,0 +1,117 @@
+import type { NewAddressLabel } from "@/lib/api";
+import { validateAddress } from "@/lib/address";
+import { getChain, parseChain } from "@/lib/chains";
+import { parseDelimited } from "@/lib/walletImport";
+import { isLabelCategory, labelKey } from "./labels";
+
+/**
+ * Label packs: curated address lists shared as files. Either JSON
+ *
+ *   { "name": "Exchanges Q3", "labels": [{ "address", "name", "category", "chain"?, "note"? }] }
+ *
+ * (a bare array works too) or CSV with an address, name/label and category
+ * column, plus optional chain and note columns.
+ */
+export type PackRow = {
+  /** 1-based position in the pack; CSV rows count the header. */
+  row: number;
+  address: string;
+  status: "valid" | "invalid";
+  reason?: string;
+  label?: NewAddressLabel;
+};
+
+export type ParsedPack = { name: string | null; rows: PackRow[] };
+
+type RawLabel = Record<string, unknown>;
+
+const COLUMNS = {
+  address: /^(address|wallet|addr|account)$/i,
+  name: /^(name|label|entity|alias)$/i,
+  category: /^(category|type|kind)$/i,
+  chain: /^(chain|network|blockchain)$/i,
+  note: /^(note|notes|comment|description)$/i,
+};
+
+const str = (v: unknown) => (typeof v === "string" || typeof v === "number" ? String(v).trim() : "");
+
+function toRow(raw: RawLabel, row: number, source: string | null, seen: Map<string, number>): PackRow {
+  const input = str(raw.address);
+  const check = validateAddress(input);
+  if (!check.valid) return { row, address: input, status: "invalid", reason: check.error };
+
+  const name = str(raw.name ?? raw.label);
+  if (!name) return { row, address: input, status: "invalid", reason: "Missing name" };
+  const category = str(raw.category ?? raw.type).toLowerCase();
+  if (!isLabelCategory(category)) {
+    return { row, address: input, status: "invalid", reason: `Unknown category "${category || "(empty)"}"` };
+  }
+
+  const declared = str(raw.chain);
+  const chain = declared ? parseChain(declared) : null;
+  if (declared && !chain) return { row, address: input, status: "invalid", reason: `Unknown chain "${declared}"` };
+  if (chain && getChain(chain).family !== check.family) {
+    return { row, address: input, status: "invalid", reason: `Not a ${getChain(chain).name} address` };
+  }
+
+  const address = check.normalized!;
+  const key = labelKey(chain, address);
+  if (seen.has(key)) return { row, address, status: "invalid", reason: `Same address as row ${seen.get(key)}` };
+  seen.set(key, row);
+
+  return {
+    row,
+    address,
+    status: "valid",
+    label: { address, chain, name, category, source, note: str(raw.note) || null },
+  };
+}
+
+function parseJsonPack(text: string, fallbackName: string | null): ParsedPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const pack = Array.isArray(data) ? { labels: data } : (data as { name?: unknown; labels?: unknown });
+  if (!pack || !Array.isArray(pack.labels)) throw new Error('Expected an array of labels or { "labels": [...] }');
+  const name = str((pack as { name?: unknown }).name) || fallbackName;
+  const seen = new Map<string, number>();
+  return {
+    name,
+    rows: pack.labels.map((l, i) => toRow(l && typeof l === "object" ? (l as RawLabel) : {}, i + 1, name, seen)),
+  };
+}
+
+function parseCsvPack(text: string, fallbackName: string | null): ParsedPack {
+  const rows = parseDelimited(text);
+  if (!rows.length) return { name: fallbackName, rows: [] };
+  const map: Partial<Record<keyof typeof COLUMNS, number>> = {};
+  rows[0].forEach((cell, i) => {
+    for (const [key, re] of Object.entries(COLUMNS) as [keyof typeof COLUMNS, RegExp][]) {
+      if (map[key] === undefined && re.test(cell)) map[key] = i;
+    }
+  });
+  if (map.address === undefined || map.name === undefined || map.category === undefined) {
+    throw new Error("CSV packs need a header with address, name and category columns");
+  }
+  const seen = new Map<string, number>();
+  return {
+    name: fallbackName,
+    rows: rows.slice(1).map((r, i) =>
+      toRow(
+        Object.fromEntries(Object.entries(map).map(([k, idx]) => [k, r[idx!] ?? ""])),
+        i + 2,
+        fallbackName,
+        seen
+      )
+    ),
+  };
+}
+
+/** Parse pasted text or a file's contents; JSON is detected by its first character. */
+export function parseLabelPack(text: string, fileName?: string): ParsedPack {
+  const fallbackName = fileName ? fileName.replace(/\.(json|csv|tsv|txt)$/i, "") : null;
+  return /^\s*[[{]/.test(text) ? parseJsonPack(text, fallbackName) : parseCsvPack(text, fallbackName);
+}
@@ -0,0 +1,79 @@
+import { labelsApi, type AddressLabel, type NewAddressLabel } from "@/lib/api";
+import { labelKey } from "./labels";
+
+/**
+ * Where address labels live. The team shares them through /api/labels; the
+ * memory store stands in during development when that endpoint is not
+ * running. Stores are picked with VITE_LABEL_STORE (see LABEL_STORES).
+ */
+export type LabelStore = {
+  id: string;
+  name: string;
+  list: (signal?: AbortSignal) => Promise<AddressLabel[]>;
+  /** Insert or replace by chain + address; returns the stored labels. */
+  upsert: (labels: NewAddressLabel[]) => Promise<AddressLabel[]>;
+  update: (id: string, patch: Partial<NewAddressLabel>) => Promise<AddressLabel>;
+  remove: (id: string) => Promise<void>;
+};
+
+export const apiLabelStore: LabelStore = {
+  id: "api",
+  name: "Shared (server)",
+  list: async (signal) => (await labelsApi.list(signal)).labels ?? [],
+  upsert: async (labels) => (await labelsApi.upsert(labels)).labels ?? [],
+  update: (id, patch) => labelsApi.update(id, patch),
+  remove: async (id) => {
+    await labelsApi.remove(id);
+  },
+};
+
+/** Labels kept in this tab only; gone on reload. */
+export function createMemoryLabelStore(seed: NewAddressLabel[] = []): LabelStore {
+  const byId = new Map<string, AddressLabel>();
+  let nextId = 1;
+  const now = () => new Date().toISOString();
+
+  const upsert = (labels: NewAddressLabel[]) => {
+    const byKey = new Map([...byId.values()].map((l) => [labelKey(l.chain, l.address), l]));
+    return labels.map((l) => {
+      const existing = byKey.get(labelKey(l.chain, l.address));
+      const stored: AddressLabel = { ...existing, ...l, id: existing?.id ?? `local-${nextId++}`, updatedAt: now() };
+      byId.set(stored.id, stored);
+      byKey.set(labelKey(stored.chain, stored.address), stored);
+      return stored;
+    });
+  };
+  upsert(seed);
+
+  return {
+    id: "memory",
+    name: "In-memory (development)",
+    list: async () => [...byId.values()],
+    upsert: async (labels) => upsert(labels),
+    update: async (id, patch) => {
+      const current = byId.get(id);
+      if (!current) throw new Error(`Label ${id} not found`);
+      const next = { ...current, ...patch, id, updatedAt: now() };
+      byId.set(id, next);
+      return next;
+    },
+    remove: async (id) => {
+      byId.delete(id);
+    },
+  };
+}
+
+export const LABEL_STORES: Record<string, LabelStore> = {
+  [apiLabelStore.id]: apiLabelStore,
+  memory: createMemoryLabelStore(),
+};
+
+let active: LabelStore = LABEL_STORES[import.meta.env.VITE_LABEL_STORE ?? ""] ?? apiLabelStore;
+
+export const getLabelStore = () => active;
+
+/** Swap the store at runtime (tests, or a deployment-specific backend). */
+export function setLabelStore(store: LabelStore) {
+  LABEL_STORES[store.id] = store;
+  active = store;
+}
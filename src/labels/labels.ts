@@ -0,0 +1,50 @@
+import type { AddressLabel, Chain, LabelCategory } from "@/lib/api";
+
+export type { AddressLabel, LabelCategory };
+
+export const LABEL_CATEGORIES: { id: LabelCategory; name: string; className: string }[] = [
+  { id: "exchange", name: "Exchange", className: "bg-primary/20 text-primary border-primary/30" },
+  { id: "mixer", name: "Mixer", className: "bg-destructive/20 text-destructive border-destructive/30" },
+  { id: "scam", name: "Scam", className: "bg-destructive/20 text-destructive border-destructive/30" },
+  { id: "sanctioned", name: "Sanctioned", className: "bg-destructive text-destructive-foreground border-destructive" },
+  { id: "internal", name: "Internal", className: "bg-success/20 text-success border-success/30" },
+  { id: "customer", name: "Customer", className: "bg-secondary text-secondary-foreground border-border/50" },
+];
+
+export const categoryOf = (id: LabelCategory) => LABEL_CATEGORIES.find((c) => c.id === id) ?? LABEL_CATEGORIES[0];
+
+export function isLabelCategory(v: string): v is LabelCategory {
+  return LABEL_CATEGORIES.some((c) => c.id === v);
+}
+
+// hex and bech32 addresses are case-insensitive; base58 ones are not
+const normalize = (address: string) => {
+  const a = address.trim();
+  return /^(0x|bc1|tb1)/i.test(a) ? a.toLowerCase() : a;
+};
+
+/** Identity of a label: one per address and chain, `*` for every chain. */
+export const labelKey = (chain: Chain | null, address: string) => `${chain ?? "*"}:${normalize(address)}`;
+
+export type LabelLookup = (address: string | null | undefined) => AddressLabel | null;
+
+/** Lookup for one chain; a chain-specific label wins over a chain-less one. */
+export function labelLookup(labels: AddressLabel[], chain: Chain): LabelLookup {
+  const index = new Map<string, AddressLabel>();
+  for (const l of labels) {
+    if (l.chain === null || l.chain === undefined) {
+      const k = labelKey(null, l.address);
+      if (!index.has(k)) index.set(k, l);
+    } else if (l.chain === chain) {
+      index.set(labelKey(chain, l.address), l);
+    }
+  }
+  return (address) =>
+    address ? index.get(labelKey(chain, address)) ?? index.get(labelKey(null, address)) ?? null : null;
+}
+
+/** `Binance 14 (0xabc…)`-style text for places that cannot render a badge. */
+export function labelText(label: AddressLabel | null, address: string, short = true) {
+  const a = short && address.length > 14 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+  return label ? `${label.name} (${a})` : a;
+}
@@ -0,0 +1,44 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Chain, NewAddressLabel } from "@/lib/api";
+import { getLabelStore } from "./labelStore";
+import { labelLookup, type LabelLookup } from "./labels";
+
+const LABELS_KEY = ["labels"] as const;
+
+/** Every label the team has, from the active store. */
+export function useLabels() {
+  return useQuery({
+    queryKey: [...LABELS_KEY, getLabelStore().id],
+    queryFn: ({ signal }) => getLabelStore().list(signal),
+    staleTime: 60_000,
+  });
+}
+
+/**
+ * Label lookup for one chain. Before labels load (or when the endpoint is
+ * down) it answers null, so callers fall back to the bare address.
+ */
+export function useLabelLookup(chain: Chain): LabelLookup {
+  const { data } = useLabels();
+  return useMemo(() => labelLookup(data ?? [], chain), [data, chain]);
+}
+
+function useLabelMutation<V, R>(fn: (v: V) => Promise<R>) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: fn,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: LABELS_KEY });
+    },
+  });
+}
+
+export const useUpsertLabels = () => useLabelMutation((labels: NewAddressLabel[]) => getLabelStore().upsert(labels));
+
+export const useUpdateLabel = () =>
+  useLabelMutation(({ id, patch }: { id: string; patch: Partial<NewAddressLabel> }) =>
+    getLabelStore().update(id, patch)
+  );
+
+export const useRemoveLabel = () => useLabelMutation((id: string) => getLabelStore().remove(id));
@@ -0,0 +1,240 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { getChain, type AddressFamily, type Chain } from "./chains";
+
+/**
+ * The one place addresses are parsed. Catches typos rather than guessing:
+ * EIP-55 mixed-case checksums for EVM, double-SHA256 base58check for legacy
+ * BTC and the bech32/bech32m polymod for segwit and taproot.
+ *
+ * An EVM address is the same on every EVM chain, so `chain` is only the
+ * family default ("eth"); callers pick the actual network via `chainOf`'s
+ * preference or by asking the user.
+ */
+export type AddressNetwork = "mainnet" | "testnet" | "regtest";
+
+export type AddressType =
+  | "evm"
+  | "p2pkh"        // 1… / m… n…
+  | "p2sh"         // 3… / 2…
+  | "p2wpkh"       // bc1q…, 20-byte program
+  | "p2wsh"        // bc1q…, 32-byte program
+  | "p2tr"         // bc1p…, taproot
+  | "witness";     // future segwit versions
+
+export type AddressCheck = {
+  input: string;
+  valid: boolean;
+  family: AddressFamily | null;
+  chain: Chain | null;
+  network: AddressNetwork | null;
+  type: AddressType | null;
+  /** Canonical form: EIP-55 for EVM, lowercase for bech32, unchanged for base58. */
+  normalized: string | null;
+  /** Valid, but something could not be verified (e.g. no EIP-55 checksum). */
+  warning?: string;
+  error?: string;
+};
+
+function invalid(input: string, error: string, chain: Chain | null = null): AddressCheck {
+  const family = chain ? getChain(chain).family : null;
+  return { input, valid: false, family, chain, network: null, type: null, normalized: null, error };
+}
+
+/* ---- EIP-55 ---- */
+
+export function toChecksumAddress(hex40: string) {
+  const lower = hex40.toLowerCase().replace(/^0x/, "");
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+  let out = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    out += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return out;
+}
+
+function checkEvm(a: string): AddressCheck {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(a)) {
+    return invalid(a, `EVM addresses are 0x followed by 40 hex characters (got ${Math.max(a.length - 2, 0)})`, "eth");
+  }
+  const normalized = toChecksumAddress(a);
+  const body = a.slice(2);
+  const ok: AddressCheck = { input: a, valid: true, family: "evm", chain: "eth", network: "mainnet", type: "evm", normalized };
+  if (body === body.toLowerCase() || body === body.toUpperCase()) {
+    return { ...ok, warning: "No EIP-55 checksum; typos cannot be detected" };
+  }
+  if (a !== normalized) return invalid(a, "EIP-55 checksum mismatch (likely a typo)", "eth");
+  return ok;
+}
+
+/* ---- base58check ---- */
+
+const B58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function base58Decode(s: string): Uint8Array | null {
+  let n = 0n;
+  for (const c of s) {
+    const v = B58.indexOf(c);
+    if (v < 0) return null;
+    n = n * 58n + BigInt(v);
+  }
+  const bytes: number[] = [];
+  while (n > 0n) {
+    bytes.unshift(Number(n & 0xffn));
+    n >>= 8n;
+  }
+  for (const c of s) {
+    if (c !== "1") break;
+    bytes.unshift(0); // leading '1's are leading zero bytes
+  }
+  return Uint8Array.from(bytes);
+}
+
+export function base58CheckDecode(s: string): Uint8Array | null {
+  const raw = base58Decode(s);
+  if (!raw || raw.length < 5) return null;
+  const payload = raw.slice(0, -4);
+  const sum = sha256(sha256(payload)).slice(0, 4);
+  return sum.every((b, i) => b === raw[raw.length - 4 + i]) ? payload : null;
+}
+
+const BTC_VERSIONS: Record<number, [AddressNetwork, AddressType]> = {
+  0x00: ["mainnet", "p2pkh"],
+  0x05: ["mainnet", "p2sh"],
+  0x6f: ["testnet", "p2pkh"],
+  0xc4: ["testnet", "p2sh"],
+};
+
+function checkBase58(a: string): AddressCheck {
+  const payload = base58CheckDecode(a);
+  if (!payload) return invalid(a, "Base58Check checksum mismatch (likely a typo)", "btc");
+  const version = BTC_VERSIONS[payload[0]];
+  if (payload.length !== 21 || !version) return invalid(a, "Not a Bitcoin P2PKH or P2SH address", "btc");
+  const [network, type] = version;
+  return { input: a, valid: true, family: "btc", chain: "btc", network, type, normalized: a };
+}
+
+/* ---- bech32 / bech32m (BIP-173, BIP-350) ---- */
+
+const CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+const GEN = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function polymod(values: number[]) {
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) if ((top >>> i) & 1) chk ^= GEN[i];
+  }
+  return chk >>> 0;
+}
+
+function hrpExpand(hrp: string) {
+  const out: number[] = [];
+  for (const c of hrp) out.push(c.charCodeAt(0) >> 5);
+  out.push(0);
+  for (const c of hrp) out.push(c.charCodeAt(0) & 31);
+  return out;
+}
+
+function convertBits(data: number[], from: number, to: number): number[] | null {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  const maxv = (1 << to) - 1;
+  for (const v of data) {
+    acc = (acc << from) | v;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & maxv);
+    }
+  }
+  if (bits >= from || ((acc << (to - bits)) & maxv)) return null;
+  return out;
+}
+
+export type SegwitDecoded = { hrp: string; version: number; program: number[] };
+
+export function decodeSegwit(addr: string): SegwitDecoded | string {
+  if (addr !== addr.toLowerCase() && addr !== addr.toUpperCase()) return "Mixed case is not allowed in bech32";
+  const a = addr.toLowerCase();
+  const pos = a.lastIndexOf("1");
+  if (pos < 1 || pos + 7 > a.length || a.length > 90) return "Malformed bech32 address";
+  const hrp = a.slice(0, pos);
+  const data: number[] = [];
+  for (const c of a.slice(pos + 1)) {
+    const v = CHARSET.indexOf(c);
+    if (v < 0) return `Invalid bech32 character "${c}"`;
+    data.push(v);
+  }
+  const constant = polymod([...hrpExpand(hrp), ...data]);
+  if (constant !== BECH32_CONST && constant !== BECH32M_CONST) return "Bech32 checksum mismatch (likely a typo)";
+  const version = data[0];
+  const program = convertBits(data.slice(1, -6), 5, 8);
+  if (!program || program.length < 2 || program.length > 40 || version > 16) return "Invalid witness program";
+  if (version === 0 && program.length !== 20 && program.length !== 32) return "Invalid segwit v0 program length";
+  // v0 must use bech32, v1+ (taproot and later) bech32m
+  if ((version === 0) !== (constant === BECH32_CONST)) return "Wrong bech32 variant for this witness version";
+  return { hrp, version, program };
+}
+
+const BECH32_NETWORKS: Record<string, AddressNetwork> = { bc: "mainnet", tb: "testnet", bcrt: "regtest" };
+
+function segwitType(version: number, programLength: number): AddressType {
+  if (version === 0) return programLength === 20 ? "p2wpkh" : "p2wsh";
+  if (version === 1 && programLength === 32) return "p2tr";
+  return "witness";
+}
+
+function checkBech32(a: string): AddressCheck {
+  const r = decodeSegwit(a);
+  if (typeof r === "string") return invalid(a, r, "btc");
+  const network = BECH32_NETWORKS[r.hrp];
+  if (!network) return invalid(a, `Unknown bech32 prefix "${r.hrp}"`);
+  const type = segwitType(r.version, r.program.length);
+  return {
+    input: a,
+    valid: true,
+    family: "btc",
+    chain: "btc",
+    network,
+    type,
+    normalized: a.toLowerCase(),
+    ...(type === "witness" ? { warning: `Segwit v${r.version} output; not yet standard` } : {}),
+  };
+}
+
+/* ---- Entry point ---- */
+
+export function validateAddress(input: string): AddressCheck {
+  const a = input.trim();
+  if (!a) return invalid(input, "Enter a wallet address");
+  if (/^0x/i.test(a)) return checkEvm(a);
+  if (/^(bc|tb|bcrt)1/i.test(a)) return checkBech32(a);
+  if (/^[123mn][1-9A-HJ-NP-Za-km-z]{25,34}$/.test(a)) return checkBase58(a);
+  if (/^[0-9a-fA-F]{40}$/.test(a)) return invalid(a, "EVM address is missing its 0x prefix", "eth");
+  if (/[0OIl]/.test(a) && /^[123mn]/.test(a)) return invalid(a, "Base58 addresses never contain 0, O, I or l", "btc");
+  return invalid(a, "Not a recognised EVM or BTC address");
+}
+
+/**
+ * Chain of a valid address; null for anything that fails validation. EVM
+ * addresses resolve to `preferred` when that is an EVM chain.
+ */
+export function chainOf(address: string, preferred?: Chain | null): Chain | null {
+  const r = validateAddress(address);
+  if (!r.valid) return null;
+  return preferred && getChain(preferred).family === r.family ? preferred : r.chain;
+}
+
+/** Short label for the UI, e.g. "Bitcoin testnet · P2TR". */
+export function describeAddress(r: AddressCheck) {
+  if (!r.valid) return r.error ?? "Invalid address";
+  if (r.type === "evm") return "EVM address";
+  const net = r.network === "mainnet" ? "" : ` ${r.network}`;
+  return `Bitcoin${net} · ${r.type!.toUpperCase()}`;
+}
@@ -1,53 +1,599 @@
 // src/lib/api.ts
+import type { Chain } from "./chains";
+
 const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:8000";
 
-// ---- generic helpers used by AuthContext.tsx ----
-export async function getAuth(path: string, token: string) {
-  const res = await fetch(`${API_BASE}${path}`, {
-    headers: { Authorization: `Bearer ${token}` },
-    credentials: "include",
-  });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data.detail || `GET ${path} failed`);
-  return data;
-}
-
-export async function postForm(path: string, form: Record<string, string>) {
-  const body = new URLSearchParams(form);
-  const res = await fetch(`${API_BASE}${path}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body,
-    credentials: "include",
-  });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data.detail || `POST ${path} failed`);
-  return data;
+export type { Chain };
+
+/** Structured error for every non-2xx response (and network failures, status 0). */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly detail: string | null;
+  readonly requestId: string | null;
+  readonly path: string;
+
+  constructor(opts: { status: number; detail: string | null; requestId: string | null; path: string; method: string }) {
+    super(opts.detail || (opts.status ? `${opts.method} ${opts.path} failed (HTTP ${opts.status})` : `${opts.method} ${opts.path} failed`));
+    this.name = "ApiError";
+    this.status = opts.status;
+    this.detail = opts.detail;
+    this.requestId = opts.requestId;
+    this.path = opts.path;
+  }
+}
+
+export function isApiError(e: unknown): e is ApiError {
+  return e instanceof ApiError;
+}
+
+/** Human-readable message for toasts and inline error boxes. */
+export function errorMessage(e: unknown) {
+  if (e instanceof ApiError) return e.requestId ? `${e.message} (request ${e.requestId})` : e.message;
+  if (e instanceof Error) return e.message;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return String(e);
+  }
+}
+
+// ---- auth injection ----
+type TokenProvider = () => string | null | Promise<string | null>;
+let tokenProvider: TokenProvider = () => localStorage.getItem("auth_token");
+
+/** Lets the auth layer decide where the bearer token comes from. */
+export function setTokenProvider(provider: TokenProvider) {
+  tokenProvider = provider;
+}
+
+type UnauthorizedHandler = () => Promise<string | null>;
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+/** Called once on a 401; a fresh token it returns is used to retry the request. */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  unauthorizedHandler = handler;
 }
 
-export async function postJson(path: string, payload: unknown) {
-  const res = await fetch(`${API_BASE}${path}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-    credentials: "include",
+// ---- core request ----
+type Query = Record<string, string | number | boolean | null | undefined>;
+
+export type RequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  query?: Query;
+  json?: unknown;
+  form?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Attach the bearer token (default true). */
+  auth?: boolean;
+  /** Extra attempts on network errors, 429 and 5xx. Defaults to 2 for GET, 0 otherwise. */
+  retries?: number;
+};
+
+export function apiUrl(path: string, query?: Query) {
+  const url = new URL(`${API_BASE}${path}`);
+  for (const [k, v] of Object.entries(query ?? {})) {
+    if (v !== undefined && v !== null && v !== "") url.searchParams.set(k, String(v));
+  }
+  return url.toString();
+}
+
+const RETRYABLE = new Set([408, 429, 500, 502, 503, 504]);
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const id = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(id);
+      reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    }, { once: true });
   });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data.detail || `POST ${path} failed`);
-  return data;
 }
 
+async function readDetail(res: Response) {
+  const text = await res.text().catch(() => "");
+  if (!text) return null;
+  try {
+    const data = JSON.parse(text);
+    const detail = data?.detail ?? data?.message ?? data?.error;
+    if (typeof detail === "string") return detail;
+    // FastAPI validation errors come back as a list of { loc, msg }
+    if (Array.isArray(detail)) return detail.map((d) => d?.msg ?? JSON.stringify(d)).join("; ");
+    return detail ? JSON.stringify(detail) : text;
+  } catch {
+    return text;
+  }
+}
+
+export async function request<T>(path: string, opts: RequestOptions = {}): Promise<T> {
+  const method = opts.method ?? "GET";
+  const maxRetries = opts.retries ?? (method === "GET" ? 2 : 0);
+
+  const headers: Record<string, string> = { Accept: "application/json" };
+  let body: BodyInit | undefined;
+  if (opts.form) {
+    headers["Content-Type"] = "application/x-www-form-urlencoded";
+    body = new URLSearchParams(opts.form);
+  } else if (opts.json !== undefined) {
+    headers["Content-Type"] = "application/json";
+    body = JSON.stringify(opts.json);
+  }
+  if (opts.auth !== false) {
+    const token = await tokenProvider();
+    if (token) headers.Authorization = `Bearer ${token}`;
+  }
+
+  let reauthorized = false;
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(apiUrl(path, opts.query), {
+        method,
+        headers,
+        body,
+        signal: opts.signal,
+        credentials: "include",
+      });
+    } catch (e) {
+      if (opts.signal?.aborted) throw e;
+      if (attempt < maxRetries) {
+        await sleep(300 * 2 ** attempt, opts.signal);
+        continue;
+      }
+      throw new ApiError({ status: 0, detail: "Network error — is the API reachable?", requestId: null, path, method });
+    }
+
+    if (res.ok) {
+      if (res.status === 204) return undefined as T;
+      const text = await res.text();
+      if (!text) return undefined as T;
+      try {
+        return JSON.parse(text) as T;
+      } catch {
+        // e.g. a proxy's HTML page with a 200; callers only handle ApiError
+        throw new ApiError({
+          status: res.status,
+          detail: `${method} ${path} returned a non-JSON response (HTTP ${res.status})`,
+          requestId: res.headers.get("x-request-id"),
+          path,
+          method,
+        });
+      }
+    }
+
+    if (res.status === 401 && headers.Authorization && unauthorizedHandler && !reauthorized) {
+      reauthorized = true;
+      const fresh = await unauthorizedHandler();
+      if (fresh) {
+        headers.Authorization = `Bearer ${fresh}`;
+        attempt--;
+        continue;
+      }
+    }
+
+    if (RETRYABLE.has(res.status) && attempt < maxRetries) {
+      await sleep(300 * 2 ** attempt, opts.signal);
+      continue;
+    }
+
+    throw new ApiError({
+      status: res.status,
+      detail: await readDetail(res),
+      requestId: res.headers.get("x-request-id"),
+      path,
+      method,
+    });
+  }
+}
+
+// ---- auth ----
+export type User = {
+  id: number;
+  email: string;
+  full_name?: string | null;
+  roles?: string[];          // see auth/permissions.ts
+  permissions?: string[];    // explicit grants; overrides role defaults
+};
+export type TokenResponse = {
+  access_token: string;
+  token_type?: string;
+  refresh_token?: string;
+  expires_in?: number;    // seconds
+};
+
+/** /auth/login answers with a challenge instead of tokens when the account has 2FA. */
+export type MfaChallengeResponse = { mfa_required: true; mfa_token: string };
+
+export function isMfaChallenge(res: TokenResponse | MfaChallengeResponse): res is MfaChallengeResponse {
+  return (res as MfaChallengeResponse).mfa_required === true;
+}
+
+export const authApi = {
+  login: (email: string, password: string) =>
+    request<TokenResponse | MfaChallengeResponse>("/auth/login", {
+      method: "POST",
+      form: { username: email, password },
+      auth: false,
+    }),
+  /** Second step: TOTP code or one of the recovery codes. */
+  verifyMfa: (mfaToken: string, code: string) =>
+    request<TokenResponse>("/auth/login/mfa", { method: "POST", json: { mfa_token: mfaToken, code }, auth: false }),
+  register: (body: { email: string; password: string; full_name?: string }) =>
+    request<User>("/auth/register", { method: "POST", json: body, auth: false }),
+  /** Backend trades the provider's authorization code (+ PKCE verifier) for our tokens. */
+  oidcCallback: (provider: string, body: { code: string; code_verifier: string; redirect_uri: string; nonce: string }) =>
+    request<TokenResponse>(`/auth/oidc/${encodeURIComponent(provider)}/callback`, { method: "POST", json: body, auth: false }),
+  refresh: (refreshToken: string) =>
+    request<TokenResponse>("/auth/refresh", { method: "POST", json: { refresh_token: refreshToken }, auth: false }),
+  me: (signal?: AbortSignal) => request<User>("/auth/me", { signal }),
+};
+
 // ---- chain-aware analyze ----
+export type RiskLevel = "low" | "medium" | "high";
+
+export type TxItem = {
+  txHash: string;
+  from: string;
+  to: string;
+  value: number;          // native units of the chain (ETH, BNB, POL, BTC…)
+  valueEth?: number;      // legacy field from older backends
+  timeStamp: number;      // unix seconds
+  riskScore: number;
+  riskLevel: RiskLevel;
+  gasPriceGwei?: number | null;
+  isMixerInvolved?: boolean;
+  // optional detail; not every backend/chain provides these
+  blockNumber?: number | null;
+  confirmations?: number | null;
+  gasUsed?: number | null;
+  valueUsd?: number | null;  // fiat value at the time of the transfer
+};
+
+export type AnalyzeResponse = { count: number; items: TxItem[] };
+
+/** Native amount of a tx, tolerating the legacy `valueEth` field. */
+export function txValue(t: TxItem) {
+  return typeof t.valueEth === "number" ? t.valueEth : (t.value ?? 0);
+}
+
 export async function analyzeAddress(
-  chain: "eth" | "btc",
+  chain: Chain,
   address: string,
   page = 1,
-  offset = 50
+  offset = 50,
+  signal?: AbortSignal
 ) {
-  const res = await fetch(
-    `${API_BASE}/api/analyze/${chain}/${address}?page=${page}&offset=${offset}`
+  return request<AnalyzeResponse>(
+    `/api/analyze/${chain}/${encodeURIComponent(address)}`,
+    { query: { page, offset }, signal }
   );
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data.detail || "Analyze failed");
-  return data as { count: number; items: any[] };
 }
+
+/** Page size used when walking a wallet's whole history. */
+export const HISTORY_PAGE_SIZE = 200;
+
+/**
+ * Every transaction of a wallet, fetched page by page. New activity can shift
+ * offsets between requests, so rows are deduplicated by hash. With `since`
+ * (unix seconds) paging stops once a page reaches older transfers; `maxPages`
+ * caps the walk, and `complete` is false when the cap cut it short.
+ */
+export async function analyzeFullHistory(
+  chain: Chain,
+  address: string,
+  opts: {
+    signal?: AbortSignal;
+    onProgress?: (loaded: number, total: number) => void;
+    since?: number;
+    maxPages?: number;
+  } = {}
+): Promise<AnalyzeResponse & { complete: boolean }> {
+  const byHash = new Map<string, TxItem>();
+  let count = 0;
+  for (let page = 1; ; page++) {
+    const r = await analyzeAddress(chain, address, page, HISTORY_PAGE_SIZE, opts.signal);
+    const before = byHash.size;
+    count = r.count;
+    for (const t of r.items) byHash.set(t.txHash, t);
+    opts.onProgress?.(byHash.size, Math.max(count, byHash.size));
+    // short page, everything loaded, or a backend that ignores `page`
+    if (r.items.length < HISTORY_PAGE_SIZE || byHash.size >= count || byHash.size === before) break;
+    // pages run newest first, so nothing later is as recent as `since`
+    if (opts.since !== undefined && r.items.some((t) => t.timeStamp < opts.since!)) break;
+    if (opts.maxPages && page >= opts.maxPages) {
+      return { count: Math.max(count, byHash.size), items: [...byHash.values()], complete: false };
+    }
+  }
+  return { count: Math.max(count, byHash.size), items: [...byHash.values()], complete: true };
+}
+
+// ---- reports ----
+export type MonthlyPoint = {
+  month: string;              // e.g. 'Jan'
+  transactions: number;
+  fraudDetected: number;
+  falsePositives: number;
+};
+
+export type MonthlyReportResp = { points: MonthlyPoint[] };
+
+export type QuickStatsResp = {
+  detectionRatePct: number;      // e.g. 98.7
+  falsePositivePct: number;      // e.g. 1.3
+  responseP95Ms: number;         // e.g. 1800
+  criticalCount: number;
+  activeCount: number;
+  resolvedToday: number;
+};
+
+export type ReportTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  type: "summary" | "analysis" | "assessment" | "compliance";
+  icon: "Shield" | "BarChart3" | "TrendingUp" | "FileText" | "PieChart";
+  lastGenerated: string; // ISO date
+  size: string;          // e.g. "2.3 MB"
+  downloadUrl?: string;  // optional direct URL from API
+};
+
+export type GenerateReportBody = {
+  from?: string;
+  to?: string;
+  reportType: string;
+  format: string;
+  chain: Chain;
+  address: string | null;
+};
+
+export type GenerateReportResp = { reportId: string; status: "queued" | "ready"; downloadUrl?: string };
+
+export const reportsApi = {
+  monthly: (params: { chain: Chain; address: string | null; months: number }, signal?: AbortSignal) =>
+    request<MonthlyReportResp>("/api/reports/monthly", { query: params, signal }),
+  quickStats: (params: { chain: Chain; address: string | null }, signal?: AbortSignal) =>
+    request<QuickStatsResp>("/api/reports/quick-stats", { query: params, signal }),
+  templates: (signal?: AbortSignal) =>
+    request<{ templates: ReportTemplate[] }>("/api/reports/templates", { signal }),
+  generate: (body: GenerateReportBody) =>
+    request<GenerateReportResp>("/api/reports/generate", { method: "POST", json: body }),
+  downloadUrl: (id: string) => apiUrl(`/api/reports/download/${encodeURIComponent(id)}`),
+};
+
+// ---- prices ----
+export type Fiat = "USD" | "EUR";
+
+/** Daily closing prices keyed by UTC day (`2024-01-31`); days without data are omitted. */
+export type DailyPricesResp = { asset: string; fiat: Fiat; prices: Record<string, number> };
+
+export const pricesApi = {
+  daily: (params: { asset: string; fiat: Fiat; from: string; to: string }, signal?: AbortSignal) =>
+    request<DailyPricesResp>(`/api/prices/${encodeURIComponent(params.asset)}/daily`, {
+      query: { fiat: params.fiat, from: params.from, to: params.to },
+      signal,
+    }),
+};
+
+// ---- watchlist ----
+export type WatchPriority = "low" | "medium" | "high" | "critical";
+
+export type WatchlistEntry = {
+  id: string;
+  address: string;
+  chain: Chain;
+  label?: string | null;
+  owner?: string | null;   // analyst or customer account responsible for the wallet
+  tags: string[];
+  priority: WatchPriority;
+  createdAt?: string;
+};
+
+export type NewWatchlistEntry = Omit<WatchlistEntry, "id" | "createdAt">;
+
+export const watchlistApi = {
+  list: (signal?: AbortSignal) => request<{ entries: WatchlistEntry[] }>("/api/watchlist", { signal }),
+  /** Bulk-friendly: the server skips wallets already on the list and returns what it added. */
+  add: (entries: NewWatchlistEntry[]) =>
+    request<{ entries: WatchlistEntry[] }>("/api/watchlist", { method: "POST", json: { entries } }),
+  update: (id: string, patch: Partial<NewWatchlistEntry>) =>
+    request<WatchlistEntry>(`/api/watchlist/${encodeURIComponent(id)}`, { method: "PATCH", json: patch }),
+  remove: (id: string) => request<unknown>(`/api/watchlist/${encodeURIComponent(id)}`, { method: "DELETE" }),
+};
+
+// ---- address labels ----
+export type LabelCategory = "exchange" | "mixer" | "scam" | "sanctioned" | "internal" | "customer";
+
+export type AddressLabel = {
+  id: string;
+  address: string;
+  chain: Chain | null;     // null: the label applies on every chain the address exists on
+  name: string;            // e.g. "Binance hot wallet 14"
+  category: LabelCategory;
+  source?: string | null;  // label pack or analyst that added it
+  note?: string | null;
+  updatedAt?: string;
+};
+
+export type NewAddressLabel = Omit<AddressLabel, "id" | "updatedAt">;
+
+export const labelsApi = {
+  list: (signal?: AbortSignal) => request<{ labels: AddressLabel[] }>("/api/labels", { signal }),
+  /** Upsert by chain + address, so re-importing a pack updates instead of duplicating. */
+  upsert: (labels: NewAddressLabel[]) =>
+    request<{ labels: AddressLabel[] }>("/api/labels", { method: "POST", json: { labels } }),
+  update: (id: string, patch: Partial<NewAddressLabel>) =>
+    request<AddressLabel>(`/api/labels/${encodeURIComponent(id)}`, { method: "PATCH", json: patch }),
+  remove: (id: string) => request<unknown>(`/api/labels/${encodeURIComponent(id)}`, { method: "DELETE" }),
+};
+
+// ---- screening ----
+export type BlocklistEntry = {
+  address: string;
+  chain?: Chain | null;        // null/absent: the address is listed on every chain
+  reference?: string | null;   // e.g. SDN entry or internal case id
+};
+
+export type Blocklist = {
+  id: string;
+  name: string;                // e.g. "OFAC SDN (ETH)"
+  version: string;             // publication date or content hash; recorded with every hit
+  source: "endpoint" | "upload";
+  loadedAt: string;
+  entries: BlocklistEntry[];
+};
+
+/** One blocklist match in the compliance audit trail. */
+export type ScreeningAuditEntry = {
+  chain: Chain;
+  txHash: string;
+  role: "from" | "to";
+  address: string;
+  listId: string;
+  listName: string;
+  listVersion: string;
+  reference: string | null;
+  detectedAt: string;          // set by the server when the hit is first recorded
+};
+
+export const screeningApi = {
+  /** Lists the backend publishes; `path` comes from VITE_BLOCKLIST_ENDPOINT. */
+  lists: (path: string, signal?: AbortSignal) =>
+    request<{ lists: Omit<Blocklist, "source" | "loadedAt">[] }>(path, { signal }),
+  hits: (signal?: AbortSignal) => request<{ hits: ScreeningAuditEntry[] }>("/api/screening/hits", { signal }),
+  /** Idempotent per chain + tx + role + list id + list version; returns how many were new. */
+  recordHits: (hits: Omit<ScreeningAuditEntry, "detectedAt">[]) =>
+    request<{ recorded: number }>("/api/screening/hits", { method: "POST", json: { hits } }),
+};
+
+// ---- settings ----
+export type UserMe = User & {
+  first_name?: string | null;
+  last_name?: string | null;
+  phone?: string | null;
+  avatar_url?: string | null;
+};
+
+export type ApiKeyScope = "read-analyze" | "write-alerts" | "reports";
+
+export type ApiKeyUsage = {
+  requestsToday: number;
+  requests30d: number;
+  avgResponseMs?: number | null;
+};
+
+export type ApiKeyMeta = {
+  id: string;
+  name: string;           // e.g. "SIEM export", one key per integration
+  masked: string;         // e.g. "sk_live_•••••••••••••••••••••••1234"
+  scopes: ApiKeyScope[];
+  createdAt?: string;
+  expiresAt?: string | null;     // ISO; null = never
+  lastUsedAt?: string | null;
+  ipAllowlist?: string[];        // IPs or CIDRs; empty = any
+  active?: boolean;
+  usage?: ApiKeyUsage | null;
+};
+
+export type CreateApiKeyBody = {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | null;
+  ipAllowlist?: string[];
+};
+
+/** The full secret is only ever returned here, on create and rotate. */
+export type ApiKeySecretResp = { key: ApiKeyMeta; secret: string };
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt?: string | null;
+  recoveryCodesRemaining?: number;
+};
+
+/** Pending enrollment; becomes active only after /confirm with a valid code. */
+export type TwoFactorSetup = {
+  secret: string;        // base32, for manual entry
+  otpauthUrl: string;    // otpauth://totp/... rendered as a QR code
+};
+
+export type ActiveSession = {
+  id: string;
+  current: boolean;
+  ip?: string | null;
+  location?: string | null;    // e.g. "Berlin, DE" (GeoIP hint)
+  userAgent?: string | null;
+  device?: string | null;      // server-side parsed, preferred over userAgent
+  browser?: string | null;
+  createdAt: string;           // ISO
+  lastSeenAt: string;          // ISO
+};
+
+export type LoginEvent = {
+  id: string;
+  timestamp: string;           // ISO
+  success: boolean;
+  method?: "password" | "sso" | "mfa" | "refresh" | string;
+  ip?: string | null;
+  location?: string | null;
+  userAgent?: string | null;
+  failureReason?: string | null;
+};
+
+export type Notifications = {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  fraudAlerts: boolean;
+  weeklyReports: boolean;
+};
+
+/** A named table layout; `columns`/`filters` are validated client-side (see lib/txViews.ts). */
+export type TableViewBody = {
+  name: string;
+  table: "transactions";
+  columns: string[];
+  sort: { key: string; dir: "asc" | "desc" } | null;
+  filters: Record<string, string>;
+};
+
+export type SavedTableView = TableViewBody & { id: string; createdAt?: string };
+
+export const settingsApi = {
+  me: (signal?: AbortSignal) => request<UserMe>("/auth/me", { signal }),
+  updateProfile: (body: Partial<UserMe>) =>
+    request<UserMe>("/api/settings/profile", { method: "PUT", json: body }),
+  apiKeys: (signal?: AbortSignal) => request<{ keys: ApiKeyMeta[] }>("/api/settings/api-keys", { signal }),
+  createApiKey: (body: CreateApiKeyBody) =>
+    request<ApiKeySecretResp>("/api/settings/api-keys", { method: "POST", json: body }),
+  rotateApiKey: (id: string) =>
+    request<ApiKeySecretResp>(`/api/settings/api-keys/${encodeURIComponent(id)}/rotate`, { method: "POST" }),
+  revokeApiKey: (id: string) =>
+    request<unknown>(`/api/settings/api-keys/${encodeURIComponent(id)}`, { method: "DELETE" }),
+  tableViews: (signal?: AbortSignal) =>
+    request<{ views: SavedTableView[] }>("/api/settings/table-views", { signal }),
+  createTableView: (body: TableViewBody) =>
+    request<SavedTableView>("/api/settings/table-views", { method: "POST", json: body }),
+  updateTableView: (id: string, body: TableViewBody) =>
+    request<SavedTableView>(`/api/settings/table-views/${encodeURIComponent(id)}`, { method: "PUT", json: body }),
+  deleteTableView: (id: string) =>
+    request<unknown>(`/api/settings/table-views/${encodeURIComponent(id)}`, { method: "DELETE" }),
+  notifications: (signal?: AbortSignal) => request<Notifications>("/api/settings/notifications", { signal }),
+  updateNotifications: (body: Notifications) =>
+    request<Notifications>("/api/settings/notifications", { method: "PUT", json: body }),
+  changePassword: (body: { current: string; new: string }) =>
+    request<unknown>("/api/settings/security/change-password", { method: "POST", json: body }),
+  signoutOthers: () => request<unknown>("/api/settings/security/signout-others", { method: "POST" }),
+  sessions: (signal?: AbortSignal) =>
+    request<{ sessions: ActiveSession[] }>("/api/settings/security/sessions", { signal }),
+  revokeSession: (id: string) =>
+    request<unknown>(`/api/settings/security/sessions/${encodeURIComponent(id)}`, { method: "DELETE" }),
+  loginHistory: (limit: number, signal?: AbortSignal) =>
+    request<{ events: LoginEvent[] }>("/api/settings/security/login-history", { query: { limit }, signal }),
+  twoFactor: {
+    status: (signal?: AbortSignal) => request<TwoFactorStatus>("/api/settings/2fa", { signal }),
+    enable: () => request<TwoFactorSetup>("/api/settings/2fa/enable", { method: "POST" }),
+    confirm: (code: string) =>
+      request<{ recoveryCodes: string[] }>("/api/settings/2fa/confirm", { method: "POST", json: { code } }),
+    disable: (code: string) => request<unknown>("/api/settings/2fa/disable", { method: "POST", json: { code } }),
+    regenerateRecoveryCodes: (code: string) =>
+      request<{ recoveryCodes: string[] }>("/api/settings/2fa/recovery-codes", { method: "POST", json: { code } }),
+  },
+};
@@ -0,0 +1,142 @@
+/**
+ * Chain registry. Adding a network the backend has an adapter for is a new
+ * entry here; pages, selects, units, explorer links and exports read from it.
+ */
+export type AddressFamily = "evm" | "btc";
+
+type ChainConfig = {
+  name: string;
+  unit: string;          // native currency symbol
+  decimals: number;
+  gasUnit: string;       // how fees are quoted
+  family: AddressFamily;
+  /** `{hash}` / `{address}` are substituted. */
+  explorerTx: string;
+  explorerAddress: string;
+};
+
+const REGISTRY = {
+  eth: {
+    name: "Ethereum",
+    unit: "ETH",
+    decimals: 18,
+    gasUnit: "gwei",
+    family: "evm",
+    explorerTx: "https://etherscan.io/tx/{hash}",
+    explorerAddress: "https://etherscan.io/address/{address}",
+  },
+  btc: {
+    name: "Bitcoin",
+    unit: "BTC",
+    decimals: 8,
+    gasUnit: "sat/vB",
+    family: "btc",
+    explorerTx: "https://mempool.space/tx/{hash}",
+    explorerAddress: "https://mempool.space/address/{address}",
+  },
+  bsc: {
+    name: "BNB Smart Chain",
+    unit: "BNB",
+    decimals: 18,
+    gasUnit: "gwei",
+    family: "evm",
+    explorerTx: "https://bscscan.com/tx/{hash}",
+    explorerAddress: "https://bscscan.com/address/{address}",
+  },
+  polygon: {
+    name: "Polygon",
+    unit: "POL",
+    decimals: 18,
+    gasUnit: "gwei",
+    family: "evm",
+    explorerTx: "https://polygonscan.com/tx/{hash}",
+    explorerAddress: "https://polygonscan.com/address/{address}",
+  },
+  arbitrum: {
+    name: "Arbitrum One",
+    unit: "ETH",
+    decimals: 18,
+    gasUnit: "gwei",
+    family: "evm",
+    explorerTx: "https://arbiscan.io/tx/{hash}",
+    explorerAddress: "https://arbiscan.io/address/{address}",
+  },
+  optimism: {
+    name: "OP Mainnet",
+    unit: "ETH",
+    decimals: 18,
+    gasUnit: "gwei",
+    family: "evm",
+    explorerTx: "https://optimistic.etherscan.io/tx/{hash}",
+    explorerAddress: "https://optimistic.etherscan.io/address/{address}",
+  },
+  base: {
+    name: "Base",
+    unit: "ETH",
+    decimals: 18,
+    gasUnit: "gwei",
+    family: "evm",
+    explorerTx: "https://basescan.org/tx/{hash}",
+    explorerAddress: "https://basescan.org/address/{address}",
+  },
+} satisfies Record<string, ChainConfig>;
+
+export type Chain = keyof typeof REGISTRY;
+export type ChainInfo = ChainConfig & { id: Chain };
+
+const ALL = (Object.keys(REGISTRY) as Chain[]).map((id): ChainInfo => ({ id, ...REGISTRY[id] }));
+
+// Deployments whose backend lacks some adapters can narrow the list, e.g. VITE_CHAINS=eth,btc,polygon
+const enabledIds = (import.meta.env.VITE_CHAINS ?? "")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(Boolean);
+
+/** Enabled chains in display order. */
+export const CHAINS: ChainInfo[] = enabledIds.length ? ALL.filter((c) => enabledIds.includes(c.id)) : ALL;
+
+export function isChain(v: unknown): v is Chain {
+  return typeof v === "string" && CHAINS.some((c) => c.id === v);
+}
+
+export function getChain(id: Chain): ChainInfo {
+  return { id, ...REGISTRY[id] };
+}
+
+export function chainsInFamily(family: AddressFamily) {
+  return CHAINS.filter((c) => c.family === family);
+}
+
+export function unitForChain(chain: Chain) {
+  return REGISTRY[chain].unit;
+}
+
+export function explorerTxUrl(chain: Chain, hash: string) {
+  return REGISTRY[chain].explorerTx.replace("{hash}", encodeURIComponent(hash));
+}
+
+export function explorerAddressUrl(chain: Chain, address: string) {
+  return REGISTRY[chain].explorerAddress.replace("{address}", encodeURIComponent(address));
+}
+
+/** Matches ids, names and common tickers/aliases as found in CRM exports ("matic", "BNB Chain", …). */
+const ALIASES: Record<string, Chain> = {
+  ethereum: "eth",
+  bitcoin: "btc",
+  xbt: "btc",
+  bnb: "bsc",
+  "bnb chain": "bsc",
+  "binance smart chain": "bsc",
+  matic: "polygon",
+  pol: "polygon",
+  arb: "arbitrum",
+  arbitrum: "arbitrum",
+  op: "optimism",
+};
+
+export function parseChain(text: string): Chain | null {
+  const t = text.trim().toLowerCase();
+  if (!t) return null;
+  const hit = ALIASES[t] ?? CHAINS.find((c) => c.id === t || c.name.toLowerCase() === t)?.id ?? null;
+  return hit && isChain(hit) ? hit : null;
+}
@@ -0,0 +1,91 @@
+import { txValue, type TxItem } from "./api";
+
+/**
+ * Per-counterparty totals for a wallet: every unique `from`/`to` other than
+ * the wallet itself, with in/out volume as seen from the wallet's side.
+ */
+export type Counterparty = {
+  address: string;
+  inValue: number;        // received by the wallet from this counterparty
+  outValue: number;       // sent by the wallet to this counterparty
+  inFiat: number | null;  // null when fiat is off or nothing could be priced
+  outFiat: number | null;
+  txCount: number;
+  firstSeen: number;      // unix seconds
+  lastSeen: number;
+  maxRiskScore: number;
+  avgRiskScore: number;
+  mixer: boolean;
+};
+
+export type CounterpartySortKey =
+  | "inValue"
+  | "outValue"
+  | "txCount"
+  | "firstSeen"
+  | "lastSeen"
+  | "maxRiskScore"
+  | "avgRiskScore";
+export type CounterpartySort = { key: CounterpartySortKey; dir: "asc" | "desc" } | null;
+
+export function aggregateCounterparties(
+  items: TxItem[],
+  wallet: string | null,
+  fiatOf?: (t: TxItem) => number | null
+): Counterparty[] {
+  if (!wallet) return [];
+  const self = wallet.toLowerCase();
+  const byId = new Map<string, Counterparty & { riskSum: number }>();
+  const addFiat = (a: number | null, v: number | null) => (v === null ? a : (a ?? 0) + v);
+
+  for (const t of items) {
+    const from = t.from?.toLowerCase();
+    const to = t.to?.toLowerCase();
+    // self-transfers and contract creations have no counterparty
+    const dir = from === self && to && to !== self ? "out" : to === self && from && from !== self ? "in" : null;
+    if (!dir) continue;
+    const address = dir === "out" ? t.to : t.from;
+    const id = address.toLowerCase();
+    let c = byId.get(id);
+    if (!c) {
+      c = {
+        address,
+        inValue: 0,
+        outValue: 0,
+        inFiat: null,
+        outFiat: null,
+        txCount: 0,
+        firstSeen: t.timeStamp,
+        lastSeen: t.timeStamp,
+        maxRiskScore: t.riskScore,
+        avgRiskScore: 0,
+        mixer: false,
+        riskSum: 0,
+      };
+      byId.set(id, c);
+    }
+    const value = txValue(t);
+    const fiat = fiatOf ? fiatOf(t) : null;
+    if (dir === "in") {
+      c.inValue += value;
+      c.inFiat = addFiat(c.inFiat, fiat);
+    } else {
+      c.outValue += value;
+      c.outFiat = addFiat(c.outFiat, fiat);
+    }
+    c.txCount += 1;
+    c.firstSeen = Math.min(c.firstSeen, t.timeStamp);
+    c.lastSeen = Math.max(c.lastSeen, t.timeStamp);
+    c.maxRiskScore = Math.max(c.maxRiskScore, t.riskScore);
+    c.riskSum += t.riskScore;
+    c.mixer ||= !!t.isMixerInvolved;
+  }
+
+  return [...byId.values()].map(({ riskSum, ...c }) => ({ ...c, avgRiskScore: riskSum / c.txCount }));
+}
+
+export function sortCounterparties(rows: Counterparty[], sort: CounterpartySort) {
+  if (!sort) return rows;
+  const sign = sort.dir === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => sign * (a[sort.key] - b[sort.key]) || a.address.localeCompare(b.address));
+}
@@ -0,0 +1,18 @@
+/**
+ * Cells and files for the CSV exports. Text a spreadsheet would run as a
+ * formula (leading `=`, `+`, `-`, `@`, tab or CR) gets a `'` in front:
+ * labels and list names come from users and imported packs.
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export function toCsvCell(v: unknown) {
+  let s = `${v ?? ""}`;
+  if (typeof v === "string" && FORMULA_START.test(s)) s = `'${s}`;
+  // quote if it contains a comma, quote or line break
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export const toCsvRow = (cells: unknown[]) => cells.map(toCsvCell).join(",");
+
+/** Leading UTF-8 BOM so Excel reads the file as UTF-8. */
+export const withBom = (csv: string) => `\uFEFF${csv}`;
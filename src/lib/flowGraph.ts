@@ -0,0 +1,209 @@
+import { txValue, type Chain, type RiskLevel, type TxItem } from "./api";
+import { getChain } from "./chains";
+import type { LabelLookup } from "@/labels/labels";
+
+/**
+ * Fund-flow graph for an investigation: addresses are nodes, transfers
+ * between a pair of addresses are merged into one directed edge. The graph is
+ * derived from the transactions of every expanded address, so collapsing an
+ * address is just dropping its expansion and rebuilding.
+ */
+export type FlowNode = {
+  id: string;          // lowercased address
+  address: string;
+  hop: number;         // expansions away from the center
+  expanded: boolean;
+  txCount: number;
+  inValue: number;
+  outValue: number;
+  maxRiskScore: number;
+  mixer: boolean;
+};
+
+export type FlowEdge = {
+  id: string;          // `${source}->${target}`
+  source: string;
+  target: string;
+  value: number;
+  count: number;
+  riskLevel: RiskLevel;  // worst level among the merged transfers
+  maxRiskScore: number;
+  txHashes: string[];
+};
+
+export type FlowGraph = { center: string; nodes: FlowNode[]; edges: FlowEdge[] };
+
+/** An address whose transactions have been loaded; `parent` is the node it was expanded from. */
+export type Expansion = { id: string; hop: number; parent: string | null };
+
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+export const nodeId = (address: string) => address.trim().toLowerCase();
+
+export function buildFlowGraph(
+  center: string,
+  expansions: Map<string, Expansion>,
+  txsByNode: Map<string, TxItem[]>
+): FlowGraph {
+  const nodes = new Map<string, FlowNode>();
+  const edges = new Map<string, FlowEdge>();
+  const seen = new Set<string>();
+
+  const node = (address: string, hop: number) => {
+    const id = nodeId(address);
+    let n = nodes.get(id);
+    if (!n) {
+      n = { id, address, hop, expanded: false, txCount: 0, inValue: 0, outValue: 0, maxRiskScore: 0, mixer: false };
+      nodes.set(id, n);
+    }
+    n.hop = Math.min(n.hop, hop);
+    return n;
+  };
+
+  node(center, 0);
+  const ordered = [...expansions.values()].sort((a, b) => a.hop - b.hop);
+  for (const exp of ordered) {
+    const self = nodes.get(exp.id);
+    if (self) self.expanded = true;
+    for (const t of txsByNode.get(exp.id) ?? []) {
+      if (!t.from || !t.to || seen.has(t.txHash)) continue;
+      seen.add(t.txHash);
+      const from = node(t.from, nodeId(t.from) === exp.id ? exp.hop : exp.hop + 1);
+      const to = node(t.to, nodeId(t.to) === exp.id ? exp.hop : exp.hop + 1);
+      const value = txValue(t);
+      for (const n of [from, to]) {
+        n.txCount += 1;
+        n.maxRiskScore = Math.max(n.maxRiskScore, t.riskScore);
+        n.mixer ||= !!t.isMixerInvolved;
+      }
+      from.outValue += value;
+      to.inValue += value;
+
+      const id = `${from.id}->${to.id}`;
+      const e = edges.get(id);
+      if (e) {
+        e.value += value;
+        e.count += 1;
+        e.maxRiskScore = Math.max(e.maxRiskScore, t.riskScore);
+        if (RISK_ORDER[t.riskLevel] > RISK_ORDER[e.riskLevel]) e.riskLevel = t.riskLevel;
+        e.txHashes.push(t.txHash);
+      } else {
+        edges.set(id, {
+          id,
+          source: from.id,
+          target: to.id,
+          value,
+          count: 1,
+          riskLevel: t.riskLevel,
+          maxRiskScore: t.riskScore,
+          txHashes: [t.txHash],
+        });
+      }
+    }
+  }
+  // expanded addresses with no transfers still show up
+  for (const exp of expansions.values()) {
+    if (!nodes.has(exp.id)) node(exp.id, exp.hop).expanded = true;
+  }
+  return { center: nodeId(center), nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+/** `id` and every expansion made from it, directly or further down. */
+export function expansionSubtree(expansions: Map<string, Expansion>, id: string) {
+  const out = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const e of expansions.values()) {
+      if (e.parent && out.has(e.parent) && !out.has(e.id)) {
+        out.add(e.id);
+        grew = true;
+      }
+    }
+  }
+  return out;
+}
+
+/** Neighbors of `id` by total value exchanged, largest first. */
+export function neighborsByValue(graph: FlowGraph, id: string) {
+  const totals = new Map<string, number>();
+  for (const e of graph.edges) {
+    const other = e.source === id ? e.target : e.target === id ? e.source : null;
+    if (other && other !== id) totals.set(other, (totals.get(other) ?? 0) + e.value);
+  }
+  return [...totals.entries()].sort((a, b) => b[1] - a[1]).map(([n]) => n);
+}
+
+export const shortAddress = (a: string) => (a.length > 14 ? `${a.slice(0, 6)}…${a.slice(-4)}` : a);
+
+/* ---- GraphML ---- */
+
+const xml = (v: string | number | boolean) =>
+  String(v).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * GraphML for Gephi, yEd, Neo4j and friends; values are in the chain's native
+ * unit. Address labels go into the `label` and `category` node attributes.
+ */
+export function toGraphML(graph: FlowGraph, chain: Chain, labelOf: LabelLookup = () => null) {
+  const unit = getChain(chain).unit;
+  const keys = [
+    ["address", "node", "string"],
+    ["label", "node", "string"],
+    ["category", "node", "string"],
+    ["hop", "node", "int"],
+    ["expanded", "node", "boolean"],
+    ["center", "node", "boolean"],
+    ["txCount", "node", "int"],
+    ["inValue", "node", "double"],
+    ["outValue", "node", "double"],
+    ["maxRiskScore", "node", "double"],
+    ["mixer", "node", "boolean"],
+    ["value", "edge", "double"],
+    ["count", "edge", "int"],
+    ["riskLevel", "edge", "string"],
+    ["maxRiskScore_e", "edge", "double"],
+    ["txHashes", "edge", "string"],
+  ];
+  const data = (key: string, v: string | number | boolean) => `      <data key="${key}">${xml(v)}</data>`;
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    ...keys.map(
+      ([id, kind, type]) =>
+        `  <key id="${id}" for="${kind}" attr.name="${id.replace(/_e$/, "")}" attr.type="${type}"/>`
+    ),
+    `  <graph id="${xml(`${chain}:${graph.center}`)}" edgedefault="directed">`,
+    `    <desc>${xml(`Fund flows on ${getChain(chain).name}; values in ${unit}`)}</desc>`,
+  ];
+  for (const n of graph.nodes) {
+    const known = labelOf(n.address);
+    lines.push(
+      `    <node id="${xml(n.id)}">`,
+      data("address", n.address),
+      ...(known ? [data("label", known.name), data("category", known.category)] : []),
+      data("hop", n.hop),
+      data("expanded", n.expanded),
+      data("center", n.id === graph.center),
+      data("txCount", n.txCount),
+      data("inValue", n.inValue),
+      data("outValue", n.outValue),
+      data("maxRiskScore", n.maxRiskScore),
+      data("mixer", n.mixer),
+      `    </node>`
+    );
+  }
+  for (const e of graph.edges) {
+    lines.push(
+      `    <edge id="${xml(e.id)}" source="${xml(e.source)}" target="${xml(e.target)}">`,
+      data("value", e.value),
+      data("count", e.count),
+      data("riskLevel", e.riskLevel),
+      data("maxRiskScore_e", e.maxRiskScore),
+      data("txHashes", e.txHashes.join(" ")),
+      `    </edge>`
+    );
+  }
+  lines.push(`  </graph>`, `</graphml>`);
+  return lines.join("\n");
+}
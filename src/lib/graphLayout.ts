@@ -0,0 +1,134 @@
+import { forceCollide, forceLink, forceManyBody, forceSimulation, forceX, forceY, type SimulationNodeDatum } from "d3-force";
+import type { FlowGraph } from "./flowGraph";
+
+/**
+ * Node positions for the flow graph. Both layouts are computed in one go
+ * (no animation) and keep pinned nodes where the user put them.
+ */
+export type Point = { x: number; y: number };
+export type Positions = Map<string, Point>;
+export type GraphLayout = "force" | "hierarchical";
+
+const TICKS = 300;
+const LAYER_GAP = 150;
+const NODE_GAP = 90;
+
+/** Cheap stable angle per id, so new nodes fan out around their neighbor the same way every time. */
+function angleOf(id: string) {
+  let h = 0;
+  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) | 0;
+  return ((h >>> 0) % 360) * (Math.PI / 180);
+}
+
+/** Start positions: previous ones, otherwise next to an already placed neighbor. */
+function seed(graph: FlowGraph, prev: Positions): Positions {
+  const out: Positions = new Map();
+  for (const n of graph.nodes) {
+    const p = prev.get(n.id);
+    if (p) out.set(n.id, { ...p });
+  }
+  if (!out.has(graph.center)) out.set(graph.center, { x: 0, y: 0 });
+  for (let pass = 0; pass < 3; pass++) {
+    for (const e of graph.edges) {
+      for (const [a, b] of [
+        [e.source, e.target],
+        [e.target, e.source],
+      ]) {
+        const anchor = out.get(a);
+        if (anchor && !out.has(b)) {
+          const t = angleOf(b);
+          out.set(b, { x: anchor.x + Math.cos(t) * 80, y: anchor.y + Math.sin(t) * 80 });
+        }
+      }
+    }
+  }
+  return out;
+}
+
+type SimNode = SimulationNodeDatum & { id: string };
+
+export function forceLayout(graph: FlowGraph, prev: Positions, pinned: Set<string>): Positions {
+  const start = seed(graph, prev);
+  const nodes: SimNode[] = graph.nodes.map((n) => {
+    const p = start.get(n.id);
+    // the center anchors the picture; pinned nodes stay where they were dropped
+    const fixed = pinned.has(n.id) || n.id === graph.center;
+    return { id: n.id, x: p?.x, y: p?.y, fx: fixed ? p?.x ?? 0 : undefined, fy: fixed ? p?.y ?? 0 : undefined };
+  });
+  const links = graph.edges.filter((e) => e.source !== e.target).map((e) => ({ source: e.source, target: e.target }));
+
+  const sim = forceSimulation(nodes)
+    .force("link", forceLink<SimNode, { source: string; target: string }>(links).id((d) => d.id).distance(90))
+    .force("charge", forceManyBody().strength(-260))
+    .force("collide", forceCollide(28))
+    .force("x", forceX(0).strength(0.02))
+    .force("y", forceY(0).strength(0.02))
+    .stop();
+  for (let i = 0; i < TICKS; i++) sim.tick();
+
+  return new Map(nodes.map((n) => [n.id, { x: n.x ?? 0, y: n.y ?? 0 }]));
+}
+
+/**
+ * Layers by hop distance from the center (top to bottom), each layer ordered
+ * by the average position of its neighbors in the layer above to cut down on
+ * crossings.
+ */
+export function hierarchicalLayout(graph: FlowGraph, prev: Positions, pinned: Set<string>): Positions {
+  const adj = new Map<string, string[]>(graph.nodes.map((n) => [n.id, []]));
+  for (const e of graph.edges) {
+    adj.get(e.source)?.push(e.target);
+    adj.get(e.target)?.push(e.source);
+  }
+
+  const depth = new Map<string, number>([[graph.center, 0]]);
+  const queue = [graph.center];
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const next of adj.get(id) ?? []) {
+      if (!depth.has(next)) {
+        depth.set(next, depth.get(id)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+  const maxDepth = Math.max(0, ...depth.values());
+  for (const n of graph.nodes) if (!depth.has(n.id)) depth.set(n.id, maxDepth + 1);
+
+  const layers: string[][] = [];
+  for (const [id, d] of depth) (layers[d] ??= []).push(id);
+
+  const out: Positions = new Map();
+  layers.forEach((layer, d) => {
+    const order = layer
+      .map((id) => {
+        const above = (adj.get(id) ?? []).map((n) => out.get(n)?.x).filter((x): x is number => x !== undefined);
+        return { id, key: above.length ? above.reduce((a, b) => a + b, 0) / above.length : 0 };
+      })
+      .sort((a, b) => a.key - b.key || a.id.localeCompare(b.id));
+    order.forEach(({ id }, i) => out.set(id, { x: (i - (order.length - 1) / 2) * NODE_GAP, y: d * LAYER_GAP }));
+  });
+
+  for (const id of pinned) {
+    const p = prev.get(id);
+    if (p && out.has(id)) out.set(id, { ...p });
+  }
+  return out;
+}
+
+export function layoutGraph(kind: GraphLayout, graph: FlowGraph, prev: Positions, pinned: Set<string>) {
+  return kind === "force" ? forceLayout(graph, prev, pinned) : hierarchicalLayout(graph, prev, pinned);
+}
+
+/** Bounding box of all positions, padded. */
+export function boundsOf(positions: Positions, pad = 60) {
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const p of positions.values()) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  if (!Number.isFinite(minX)) return { x: -pad, y: -pad, width: pad * 2, height: pad * 2 };
+  return { x: minX - pad, y: minY - pad, width: maxX - minX + pad * 2, height: maxY - minY + pad * 2 };
+}
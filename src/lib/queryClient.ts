@@ -0,0 +1,43 @@
+import { MutationCache, QueryCache, QueryClient, type Mutation, type Query } from "@tanstack/react-query";
+import { expireSession, isSessionError } from "@/auth/session";
+import { isApiError } from "@/lib/api";
+
+// Requests that failed because the session expired; replayed after re-login.
+const failedQueries = new Map<string, Query<unknown, unknown, unknown>>();
+const failedMutations = new Set<Mutation<unknown, unknown, unknown, unknown>>();
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      if (!isSessionError(error)) return;
+      failedQueries.set(query.queryHash, query);
+      expireSession();
+    },
+  }),
+  mutationCache: new MutationCache({
+    onError: (error, _variables, _context, mutation) => {
+      if (!isSessionError(error)) return;
+      failedMutations.add(mutation);
+      expireSession();
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      // the API client already retries network errors and 5xx
+      retry: (failureCount, error) => !isApiError(error) && failureCount < 2,
+    },
+  },
+});
+
+/** Re-run everything that failed with a session error while the session was expired. */
+export async function replayFailedRequests() {
+  const queries = [...failedQueries.values()];
+  const mutations = [...failedMutations];
+  failedQueries.clear();
+  failedMutations.clear();
+
+  await Promise.allSettled([
+    ...queries.map((q) => queryClient.refetchQueries({ queryKey: q.queryKey, exact: true })),
+    ...mutations.map((m) => m.execute(m.state.variables)),
+  ]);
+}
@@ -0,0 +1,90 @@
+import { txValue, type TxItem } from "./api";
+
+/**
+ * Heuristics over the fields a transaction carries, used to explain a risk
+ * score. The backend's `riskScore` is authoritative; these name what stands
+ * out about the transaction so an analyst can see why it scored as it did.
+ */
+export type Severity = "critical" | "high" | "medium" | "low";
+
+export type RiskFactor = {
+  id: "high-value" | "large-value" | "gas" | "self-transfer" | "no-destination" | "mixer";
+  /** Short phrase, joined into alert reasons. */
+  label: string;
+  /** One sentence with the observed value. */
+  detail: string;
+  weight: "strong" | "moderate";
+};
+
+/** Lower bound of each severity band, highest first. */
+export const SEVERITY_BANDS: { severity: Severity; min: number }[] = [
+  { severity: "critical", min: 80 },
+  { severity: "high", min: 50 },
+  { severity: "medium", min: 30 },
+  { severity: "low", min: 0 },
+];
+
+export function severityOf(score: number): Severity {
+  return SEVERITY_BANDS.find((b) => score >= b.min)?.severity ?? "low";
+}
+
+const HIGH_VALUE = 5;
+/** Native units; also the floor of the "Large outflows" view. */
+export const LARGE_VALUE = 1;
+const HIGH_GAS_GWEI = 100;
+
+/** Factors present on `t`, in the order alert reasons list them. `unit` labels amounts (ETH, BTC…). */
+export function riskFactors(t: TxItem, unit: string): RiskFactor[] {
+  const val = txValue(t);
+  const gp = typeof t.gasPriceGwei === "number" ? t.gasPriceGwei : 0;
+  const out: RiskFactor[] = [];
+
+  if (val > HIGH_VALUE) {
+    out.push({
+      id: "high-value",
+      label: "high-value transfer",
+      detail: `${val} ${unit} is above the ${HIGH_VALUE} ${unit} high-value threshold.`,
+      weight: "strong",
+    });
+  } else if (val > LARGE_VALUE) {
+    out.push({
+      id: "large-value",
+      label: "large transfer",
+      detail: `${val} ${unit} is above the ${LARGE_VALUE} ${unit} large-transfer threshold.`,
+      weight: "moderate",
+    });
+  }
+  if (gp > HIGH_GAS_GWEI) {
+    out.push({
+      id: "gas",
+      label: "elevated gas price",
+      detail: `Gas price of ${gp} gwei is above ${HIGH_GAS_GWEI} gwei, typical of rushed transfers.`,
+      weight: "moderate",
+    });
+  }
+  if (t.from && t.to && t.from.toLowerCase() === t.to.toLowerCase()) {
+    out.push({
+      id: "self-transfer",
+      label: "self-transfer behavior",
+      detail: "Sender and recipient are the same address.",
+      weight: "moderate",
+    });
+  }
+  if (!t.to) {
+    out.push({
+      id: "no-destination",
+      label: "unknown destination",
+      detail: "The transaction has no recipient address (contract creation or malformed data).",
+      weight: "moderate",
+    });
+  }
+  if (t.isMixerInvolved) {
+    out.push({
+      id: "mixer",
+      label: "known mixer involvement",
+      detail: "One side of the transfer is a known mixing service.",
+      weight: "strong",
+    });
+  }
+  return out;
+}
@@ -0,0 +1,42 @@
+import { txValue, type TxItem } from "./api";
+import { evaluateQuery, type TxGroup } from "./txQuery";
+
+/**
+ * Filtering and sorting of transaction lists. Pure functions so they run the
+ * same on the main thread and inside workers/txFilter.worker.ts.
+ */
+export type TxFilters = {
+  /** Parsed query (see lib/txQuery.ts); null matches everything. */
+  query: TxGroup | null;
+  /** Monitored address; direction and counterparty are relative to it. */
+  wallet?: string | null;
+};
+
+export type TxSortKey = "timeStamp" | "value" | "riskScore" | "gasPriceGwei";
+export type TxSort = { key: TxSortKey; dir: "asc" | "desc" } | null;
+
+export function matchesTx(t: TxItem, f: TxFilters) {
+  return !f.query || evaluateQuery(f.query, t, f.wallet?.toLowerCase() ?? "");
+}
+
+function sortValue(t: TxItem, key: TxSortKey) {
+  if (key === "value") return txValue(t);
+  return t[key] ?? 0;
+}
+
+/** Indices into `items` of the rows to show, in display order. Source order when `sort` is null. */
+export function filterAndSort(items: TxItem[], filters: TxFilters, sort: TxSort): Int32Array {
+  const out: number[] = [];
+  const wallet = filters.wallet?.toLowerCase() ?? "";
+  for (let i = 0; i < items.length; i++) {
+    if (!filters.query || evaluateQuery(filters.query, items[i], wallet)) out.push(i);
+  }
+  if (sort) {
+    const sign = sort.dir === "asc" ? 1 : -1;
+    // precompute keys; comparator lookups dominate on 100k+ rows otherwise
+    const keys = new Float64Array(items.length);
+    for (const i of out) keys[i] = sortValue(items[i], sort.key);
+    out.sort((a, b) => sign * (keys[a] - keys[b]) || a - b);
+  }
+  return Int32Array.from(out);
+}
@@ -0,0 +1,317 @@
+import { txValue, type TxItem } from "./api";
+
+/**
+ * Transaction filter language shared by the text box and the visual builder:
+ *
+ *   risk>=80 AND mixer:true AND value>1.5
+ *   (direction:out OR counterparty~0xd8da) AND time>=2024-01-01
+ *
+ * `:` and `=` mean equals, `~` means contains. AND binds tighter than OR;
+ * juxtaposed conditions are ANDed. Dates are local calendar days.
+ */
+export type TxField =
+  | "risk"
+  | "level"
+  | "value"
+  | "gas"
+  | "time"
+  | "direction"
+  | "mixer"
+  | "from"
+  | "to"
+  | "counterparty"
+  | "hash";
+
+export type TxOp = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~";
+
+export type TxCondition = { kind: "cond"; field: TxField; op: TxOp; value: string };
+export type TxGroup = { kind: "group"; join: "AND" | "OR"; children: TxNode[] };
+export type TxNode = TxCondition | TxGroup;
+
+export type QueryError = { message: string; pos: number };
+
+type FieldKind = "number" | "date" | "enum" | "bool" | "text";
+
+const NUMBER_OPS: TxOp[] = ["=", "!=", ">", ">=", "<", "<="];
+const EQ_OPS: TxOp[] = ["=", "!="];
+const TEXT_OPS: TxOp[] = ["=", "!=", "~"];
+
+export const TX_FIELDS: Record<TxField, { label: string; kind: FieldKind; ops: TxOp[]; options?: string[] }> = {
+  risk: { label: "Risk score", kind: "number", ops: NUMBER_OPS },
+  level: { label: "Risk level", kind: "enum", ops: EQ_OPS, options: ["low", "medium", "high"] },
+  value: { label: "Value", kind: "number", ops: NUMBER_OPS },
+  gas: { label: "Gas price (gwei)", kind: "number", ops: NUMBER_OPS },
+  time: { label: "Date", kind: "date", ops: NUMBER_OPS },
+  direction: { label: "Direction", kind: "enum", ops: EQ_OPS, options: ["in", "out"] },
+  mixer: { label: "Mixer involved", kind: "bool", ops: EQ_OPS, options: ["true", "false"] },
+  from: { label: "From", kind: "text", ops: TEXT_OPS },
+  to: { label: "To", kind: "text", ops: TEXT_OPS },
+  counterparty: { label: "Counterparty", kind: "text", ops: TEXT_OPS },
+  hash: { label: "Tx hash", kind: "text", ops: TEXT_OPS },
+};
+
+const ALIASES: Record<string, TxField> = {
+  riskscore: "risk",
+  score: "risk",
+  risklevel: "level",
+  status: "level",
+  amount: "value",
+  gasprice: "gas",
+  gaspricegwei: "gas",
+  date: "time",
+  timestamp: "time",
+  dir: "direction",
+  cp: "counterparty",
+  address: "counterparty",
+  tx: "hash",
+  txhash: "hash",
+};
+
+// the old status dropdown's wording still works: status:fraud
+const LEVEL_ALIASES: Record<string, string> = { safe: "low", suspicious: "medium", fraud: "high" };
+
+export const emptyGroup = (join: "AND" | "OR" = "AND"): TxGroup => ({ kind: "group", join, children: [] });
+
+/* ---- Parsing ---- */
+
+type Token = { type: "word" | "string" | "op" | "lparen" | "rparen"; text: string; pos: number };
+
+function tokenize(input: string): Token[] | QueryError {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "(" || c === ")") {
+      tokens.push({ type: c === "(" ? "lparen" : "rparen", text: c, pos: i });
+      i++;
+    } else if (c === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) return { message: "Unterminated quoted value", pos: i };
+      tokens.push({ type: "string", text: input.slice(i + 1, end), pos: i });
+      i = end + 1;
+    } else if (/[<>=!:~]/.test(c)) {
+      const two = input.slice(i, i + 2);
+      const op = [">=", "<=", "!="].includes(two) ? two : c;
+      if (op === "!") return { message: 'Expected "!="', pos: i };
+      tokens.push({ type: "op", text: op, pos: i });
+      i += op.length;
+    } else {
+      const m = /^[^\s()<>=!:~"]+/.exec(input.slice(i))!;
+      tokens.push({ type: "word", text: m[0], pos: i });
+      i += m[0].length;
+    }
+  }
+  return tokens;
+}
+
+function isError(v: unknown): v is QueryError {
+  return typeof v === "object" && v !== null && "message" in v && "pos" in v;
+}
+
+/** Normalizes and checks a condition value for its field; returns an error message or the canonical value. */
+export function checkValue(field: TxField, value: string): { value: string } | { error: string } {
+  const def = TX_FIELDS[field];
+  const v = value.trim();
+  if (!v) return { error: `${def.label} needs a value` };
+  switch (def.kind) {
+    case "number":
+      return Number.isFinite(Number(v)) ? { value: v } : { error: `${def.label} must be a number, got "${v}"` };
+    case "date":
+      return dayRange(v) ? { value: v } : { error: `Expected a date like 2024-01-31, got "${v}"` };
+    case "bool": {
+      const b = v.toLowerCase();
+      if (["true", "yes", "1"].includes(b)) return { value: "true" };
+      if (["false", "no", "0"].includes(b)) return { value: "false" };
+      return { error: `${def.label} is true or false, got "${v}"` };
+    }
+    case "enum": {
+      const e = field === "level" ? LEVEL_ALIASES[v.toLowerCase()] ?? v.toLowerCase() : v.toLowerCase();
+      return def.options!.includes(e) ? { value: e } : { error: `${def.label} is one of ${def.options!.join(", ")}` };
+    }
+    default:
+      return { value: v };
+  }
+}
+
+function fieldOf(word: string): TxField | null {
+  const w = word.toLowerCase();
+  return w in TX_FIELDS ? (w as TxField) : ALIASES[w] ?? null;
+}
+
+/** Parse the text syntax; an empty query is an empty AND group (matches everything). */
+export function parseQuery(input: string): TxGroup | QueryError {
+  const tokens = tokenize(input);
+  if (isError(tokens)) return tokens;
+  let i = 0;
+  const peek = () => tokens[i];
+  const isKeyword = (t: Token | undefined, kw: string) => t?.type === "word" && t.text.toUpperCase() === kw;
+
+  const condition = (): TxNode | QueryError => {
+    const t = peek();
+    if (!t) return { message: "Expected a condition", pos: input.length };
+    if (t.type === "lparen") {
+      i++;
+      const inner = orExpr();
+      if (isError(inner)) return inner;
+      if (peek()?.type !== "rparen") return { message: 'Missing ")"', pos: peek()?.pos ?? input.length };
+      i++;
+      return inner;
+    }
+    if (t.type !== "word") return { message: `Unexpected "${t.text}"`, pos: t.pos };
+    const field = fieldOf(t.text);
+    if (!field) return { message: `Unknown field "${t.text}"`, pos: t.pos };
+    i++;
+    const opTok = peek();
+    if (opTok?.type !== "op") return { message: `Expected an operator after "${t.text}"`, pos: opTok?.pos ?? input.length };
+    i++;
+    const op: TxOp = opTok.text === ":" ? "=" : (opTok.text as TxOp);
+    if (!TX_FIELDS[field].ops.includes(op)) {
+      return { message: `"${opTok.text}" does not apply to ${TX_FIELDS[field].label.toLowerCase()}`, pos: opTok.pos };
+    }
+    const valTok = peek();
+    if (!valTok || (valTok.type !== "word" && valTok.type !== "string")) {
+      return { message: `Expected a value after "${opTok.text}"`, pos: valTok?.pos ?? input.length };
+    }
+    i++;
+    const checked = checkValue(field, valTok.text);
+    if ("error" in checked) return { message: checked.error, pos: valTok.pos };
+    return { kind: "cond", field, op, value: checked.value };
+  };
+
+  const andExpr = (): TxNode | QueryError => {
+    const children: TxNode[] = [];
+    for (;;) {
+      const c = condition();
+      if (isError(c)) return c;
+      children.push(c);
+      if (isKeyword(peek(), "AND")) i++;
+      else if (!peek() || peek().type === "rparen" || isKeyword(peek(), "OR")) break;
+    }
+    return children.length === 1 ? children[0] : { kind: "group", join: "AND", children };
+  };
+
+  const orExpr = (): TxNode | QueryError => {
+    const children: TxNode[] = [];
+    for (;;) {
+      const c = andExpr();
+      if (isError(c)) return c;
+      children.push(c);
+      if (!isKeyword(peek(), "OR")) break;
+      i++;
+    }
+    return children.length === 1 ? children[0] : { kind: "group", join: "OR", children };
+  };
+
+  if (tokens.length === 0) return emptyGroup();
+  const root = orExpr();
+  if (isError(root)) return root;
+  if (i < tokens.length) return { message: `Unexpected "${tokens[i].text}"`, pos: tokens[i].pos };
+  return root.kind === "group" ? root : { kind: "group", join: "AND", children: [root] };
+}
+
+/* ---- Formatting ---- */
+
+const quote = (v: string) => (/^[^\s()<>=!:~"]+$/.test(v) ? v : `"${v.replace(/"/g, "")}"`);
+
+function formatNode(n: TxNode, nested: boolean): string {
+  if (n.kind === "cond") {
+    const op = n.op === "=" && ["enum", "bool"].includes(TX_FIELDS[n.field].kind) ? ":" : n.op;
+    return `${n.field}${op}${quote(n.value)}`;
+  }
+  const parts = n.children.map((c) => formatNode(c, true)).filter(Boolean);
+  const text = parts.join(` ${n.join} `);
+  return nested && parts.length > 1 ? `(${text})` : text;
+}
+
+/** Canonical text for a tree; round-trips through `parseQuery`. */
+export function formatQuery(g: TxGroup) {
+  return formatNode(g, false);
+}
+
+/** True when every condition in the tree has a valid value (the builder can hold incomplete rows). */
+export function isComplete(n: TxNode): boolean {
+  return n.kind === "cond" ? !("error" in checkValue(n.field, n.value)) : n.children.every(isComplete);
+}
+
+/* ---- Evaluation ---- */
+
+function dayRange(v: string): [number, number] | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(v);
+  if (!m) return null;
+  const start = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  if (Number.isNaN(start.getTime()) || start.getDate() !== Number(m[3])) return null;
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start.getTime() / 1000, end.getTime() / 1000];
+}
+
+function compare(a: number, op: TxOp, b: number) {
+  switch (op) {
+    case "=": return a === b;
+    case "!=": return a !== b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    case "<": return a < b;
+    case "<=": return a <= b;
+    default: return false;
+  }
+}
+
+function matchText(actual: string | undefined, op: TxOp, expected: string) {
+  const a = (actual ?? "").toLowerCase();
+  const e = expected.toLowerCase();
+  if (op === "~") return a.includes(e);
+  return op === "!=" ? a !== e : a === e;
+}
+
+function evalCondition(c: TxCondition, t: TxItem, wallet: string) {
+  const from = t.from?.toLowerCase() ?? "";
+  const to = t.to?.toLowerCase() ?? "";
+  switch (c.field) {
+    case "risk": return compare(t.riskScore, c.op, Number(c.value));
+    case "value": return compare(txValue(t), c.op, Number(c.value));
+    case "gas": return typeof t.gasPriceGwei === "number" && compare(t.gasPriceGwei, c.op, Number(c.value));
+    case "level": return (t.riskLevel === c.value) === (c.op === "=");
+    case "mixer": return (!!t.isMixerInvolved === (c.value === "true")) === (c.op === "=");
+    case "direction": {
+      if (!wallet) return true;
+      const dir = from === wallet ? "out" : to === wallet ? "in" : null;
+      return (dir === c.value) === (c.op === "=");
+    }
+    case "time": {
+      const [start, end] = dayRange(c.value) ?? [0, 0];
+      const ts = t.timeStamp;
+      switch (c.op) {
+        case "=": return ts >= start && ts < end;
+        case "!=": return ts < start || ts >= end;
+        case ">": return ts >= end;
+        case ">=": return ts >= start;
+        case "<": return ts < start;
+        case "<=": return ts < end;
+        default: return false;
+      }
+    }
+    case "from": return matchText(t.from, c.op, c.value);
+    case "to": return matchText(t.to, c.op, c.value);
+    case "hash": return matchText(t.txHash, c.op, c.value);
+    case "counterparty": {
+      // the other side relative to the monitored wallet; either side when unknown
+      if (wallet && from === wallet) return matchText(t.to, c.op, c.value);
+      if (wallet && to === wallet) return matchText(t.from, c.op, c.value);
+      return c.op === "!="
+        ? matchText(t.from, c.op, c.value) && matchText(t.to, c.op, c.value)
+        : matchText(t.from, c.op, c.value) || matchText(t.to, c.op, c.value);
+    }
+  }
+}
+
+/** `wallet` is the monitored address, lowercased; direction/counterparty are relative to it. */
+export function evaluateQuery(n: TxNode, t: TxItem, wallet: string): boolean {
+  if (n.kind === "cond") return evalCondition(n, t, wallet);
+  if (n.children.length === 0) return true;
+  return n.join === "AND"
+    ? n.children.every((c) => evaluateQuery(c, t, wallet))
+    : n.children.some((c) => evaluateQuery(c, t, wallet));
+}
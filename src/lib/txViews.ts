@@ -0,0 +1,148 @@
+import type { TableViewBody } from "./api";
+import type { TxSort, TxSortKey } from "./txFilter";
+import { formatQuery, parseQuery } from "./txQuery";
+import { LARGE_VALUE } from "./riskFactors";
+
+/**
+ * Transactions table columns and named views (columns + sort + filters).
+ * Built-in views ship with the app; saved views live on the server per user.
+ */
+export type TxColumnId =
+  | "hash"
+  | "fromTo"
+  | "from"
+  | "to"
+  | "value"
+  | "riskScore"
+  | "status"
+  | "time"
+  | "gas"
+  | "mixer";
+
+export const TX_COLUMNS: { id: TxColumnId; label: string; sortKey?: TxSortKey }[] = [
+  { id: "hash", label: "Tx Hash" },
+  { id: "fromTo", label: "From → To" },
+  { id: "from", label: "From (full)" },
+  { id: "to", label: "To (full)" },
+  { id: "value", label: "Amount", sortKey: "value" },
+  { id: "riskScore", label: "Risk Score", sortKey: "riskScore" },
+  { id: "status", label: "Status" },
+  { id: "time", label: "Time", sortKey: "timeStamp" },
+  { id: "gas", label: "Gas Price (gwei)", sortKey: "gasPriceGwei" },
+  { id: "mixer", label: "Mixer" },
+];
+
+export const DEFAULT_COLUMNS: TxColumnId[] = ["hash", "fromTo", "value", "riskScore", "status", "time"];
+
+export type TxView = {
+  id: string;
+  name: string;
+  columns: TxColumnId[];
+  sort: TxSort;
+  /** Query text (lib/txQuery.ts syntax); empty shows everything. */
+  filters: { query: string };
+  builtIn?: boolean;
+};
+
+export const BUILT_IN_VIEWS: TxView[] = [
+  {
+    id: "builtin:default",
+    name: "Default",
+    columns: DEFAULT_COLUMNS,
+    sort: null,
+    filters: { query: "" },
+    builtIn: true,
+  },
+  {
+    id: "builtin:mixer-exposure",
+    name: "Mixer exposure",
+    columns: ["hash", "from", "to", "value", "riskScore", "mixer", "time"],
+    sort: { key: "riskScore", dir: "desc" },
+    filters: { query: "mixer:true" },
+    builtIn: true,
+  },
+  {
+    id: "builtin:large-outflows",
+    name: "Large outflows",
+    columns: ["hash", "to", "value", "gas", "riskScore", "time"],
+    sort: { key: "value", dir: "desc" },
+    filters: { query: `direction:out AND value>${LARGE_VALUE}` },
+    builtIn: true,
+  },
+];
+
+/* ---- URL encoding ---- */
+
+const SORT_KEYS = TX_COLUMNS.flatMap((c) => (c.sortKey ? [c.sortKey] : []));
+const COLUMN_IDS = TX_COLUMNS.map((c) => c.id);
+
+/** `riskScore:desc` → sort; anything unknown → null. */
+export function parseSort(param: string | null): TxSort {
+  const [key, dir] = (param ?? "").split(":");
+  if (!SORT_KEYS.includes(key as TxSortKey) || (dir !== "asc" && dir !== "desc")) return null;
+  return { key: key as TxSortKey, dir };
+}
+
+export function formatSort(sort: TxSort) {
+  return sort ? `${sort.key}:${sort.dir}` : null;
+}
+
+/** Comma list, unknown ids dropped; defaults when empty. */
+export function parseColumns(param: string | readonly string[] | null): TxColumnId[] {
+  const ids = (typeof param === "string" ? param.split(",") : param ?? []).filter((c): c is TxColumnId =>
+    COLUMN_IDS.includes(c as TxColumnId)
+  );
+  return ids.length ? [...new Set(ids)] : DEFAULT_COLUMNS;
+}
+
+/** Keeps table order regardless of the order columns were toggled in. */
+export function orderColumns(ids: TxColumnId[]) {
+  return COLUMN_IDS.filter((id) => ids.includes(id));
+}
+
+/** Canonical form so equivalent spellings (`dir:out`, `direction=out`) compare equal. */
+export function normalizeQuery(text: string) {
+  const q = parseQuery(text);
+  return "kind" in q ? formatQuery(q) : text.trim();
+}
+
+/* ---- Views ---- */
+
+const LEGACY_RISK: Record<string, string> = { low: "risk<50", medium: "risk>=50 AND risk<80", high: "risk>=80" };
+
+/**
+ * Query text for the status/risk/direction/mixer dropdown values that views
+ * and links stored before the query builder.
+ */
+export function legacyFilterQuery(f: Record<string, string | null | undefined>) {
+  const parts: string[] = [];
+  if (f.status && f.status !== "all") parts.push(`status:${f.status}`);
+  if (LEGACY_RISK[f.risk]) parts.push(LEGACY_RISK[f.risk]);
+  if (f.direction === "in" || f.direction === "out") parts.push(`direction:${f.direction}`);
+  if (f.mixer === "only" || f.mixer === "exclude") parts.push(`mixer:${f.mixer === "only"}`);
+  return parts.join(" AND ");
+}
+
+export function fromSaved(v: TableViewBody & { id: string }): TxView {
+  const f = v.filters ?? {};
+  return {
+    id: v.id,
+    name: v.name,
+    columns: orderColumns(parseColumns(v.columns)),
+    sort: parseSort(v.sort ? `${v.sort.key}:${v.sort.dir}` : null),
+    filters: { query: normalizeQuery(typeof f.query === "string" ? f.query : legacyFilterQuery(f)) },
+  };
+}
+
+export function toSaved(name: string, v: Pick<TxView, "columns" | "sort" | "filters">): TableViewBody {
+  return { name, table: "transactions", columns: v.columns, sort: v.sort, filters: { ...v.filters } };
+}
+
+/** Whether the table currently shows exactly this view. */
+export function isCurrentView(v: TxView, cur: Pick<TxView, "columns" | "sort" | "filters">) {
+  return (
+    orderColumns(v.columns).join() === orderColumns(cur.columns).join() &&
+    formatSort(v.sort) === formatSort(cur.sort) &&
+    normalizeQuery(v.filters.query) === normalizeQuery(cur.filters.query)
+  );
+}
@@ -0,0 +1,28 @@
+// Just enough UA sniffing to label a session ("Chrome on macOS"); not for feature detection.
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/curl\//, "curl"],
+  [/python-requests|httpx|aiohttp/i, "Python client"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+export function describeUserAgent(ua?: string | null) {
+  if (!ua) return "Unknown device";
+  const browser = BROWSERS.find(([re]) => re.test(ua))?.[1];
+  const platform = PLATFORMS.find(([re]) => re.test(ua))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
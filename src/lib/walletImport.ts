@@ -0,0 +1,146 @@
+import type { Chain, NewWatchlistEntry, WatchlistEntry, WatchPriority } from "./api";
+import { validateAddress } from "./address";
+import { getChain, parseChain } from "./chains";
+import { PRIORITIES, parseTags, walletKey } from "./watchlist";
+
+export type ImportStatus = "valid" | "ambiguous" | "invalid" | "duplicate";
+
+export type ImportRow = {
+  /** 1-based row number in the source, header included. */
+  row: number;
+  raw: string[];
+  status: ImportStatus;
+  reason?: string;
+  entry?: NewWatchlistEntry;
+};
+
+type Defaults = Pick<NewWatchlistEntry, "owner" | "tags" | "priority"> & {
+  /** Network for 0x rows without a chain column; the address alone cannot tell. */
+  evmChain: Chain;
+};
+
+/* ---- Reading ---- */
+
+/** Minimal RFC 4180 reader; picks tab, semicolon or comma from the first line. */
+export function parseDelimited(text: string): string[][] {
+  const first = text.split(/\r?\n/, 1)[0] ?? "";
+  const delim = first.includes("\t") ? "\t" : first.split(";").length > first.split(",").length ? ";" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"' && cell === "") quoted = true;
+    else if (c === delim) {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += c;
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.map((r) => r.map((c) => c.trim())).filter((r) => r.some(Boolean));
+}
+
+/** Rows from a CSV, TSV, plain-text or XLSX upload (first sheet). */
+export async function readImportFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const { default: readXlsxFile } = await import("read-excel-file");
+    const rows = await readXlsxFile(file);
+    return rows
+      .map((r) => r.map((c) => (c == null ? "" : c instanceof Date ? c.toISOString() : String(c).trim())))
+      .filter((r) => r.some(Boolean));
+  }
+  if (/\.xls$/i.test(file.name)) throw new Error("Legacy .xls files are not supported; save as .xlsx or CSV");
+  return parseDelimited(await file.text());
+}
+
+/* ---- Column mapping ---- */
+
+const COLUMNS: Record<keyof Omit<NewWatchlistEntry, "tags"> | "tags", RegExp> = {
+  address: /^(address|wallet|wallet address|addr|account)$/i,
+  chain: /^(chain|network|blockchain|asset|currency)$/i,
+  label: /^(label|name|alias|description)$/i,
+  owner: /^(owner|customer|client|analyst|assignee)$/i,
+  tags: /^(tags?|categor(y|ies))$/i,
+  priority: /^(priority|severity)$/i,
+};
+
+type ColumnMap = Partial<Record<keyof typeof COLUMNS, number>>;
+
+/** Header row if any cell names an address column; otherwise `address[, label]`. */
+function detectColumns(first: string[]): { map: ColumnMap; hasHeader: boolean } {
+  const map: ColumnMap = {};
+  first.forEach((cell, i) => {
+    for (const [key, re] of Object.entries(COLUMNS) as [keyof typeof COLUMNS, RegExp][]) {
+      if (map[key] === undefined && re.test(cell)) map[key] = i;
+    }
+  });
+  if (map.address !== undefined) return { map, hasHeader: true };
+  return { map: { address: 0, label: 1 }, hasHeader: false };
+}
+
+/* ---- Preview ---- */
+
+/**
+ * Validate, normalize and dedupe rows before anything is written. Invalid and
+ * duplicate rows are never imported; ambiguous ones only when the user opts in.
+ */
+export function previewImport(rows: string[][], defaults: Defaults, existing: WatchlistEntry[] = []): ImportRow[] {
+  if (rows.length === 0) return [];
+  const { map, hasHeader } = detectColumns(rows[0]);
+  const watched = new Set(existing.map((e) => walletKey(e.chain, e.address)));
+  const seen = new Map<string, number>();
+  const cell = (r: string[], k: keyof typeof COLUMNS) => (map[k] === undefined ? "" : (r[map[k]!] ?? "").trim());
+
+  return rows.slice(hasHeader ? 1 : 0).map((raw, i) => {
+    const row = i + (hasHeader ? 2 : 1);
+    const check = validateAddress(cell(raw, "address"));
+    if (!check.valid) return { row, raw, status: "invalid", reason: check.error };
+
+    const declared = cell(raw, "chain");
+    const declaredChain = parseChain(declared);
+    const sameFamily = declaredChain && getChain(declaredChain).family === check.family;
+    const chain = sameFamily ? declaredChain : check.family === "evm" ? defaults.evmChain : check.chain!;
+    const address = check.normalized!;
+    const key = walletKey(chain, address);
+    if (watched.has(key)) return { row, raw, status: "duplicate", reason: "Already on the watchlist" };
+    if (seen.has(key)) return { row, raw, status: "duplicate", reason: `Same wallet as row ${seen.get(key)}` };
+    seen.set(key, row);
+
+    const reasons: string[] = [];
+    if (check.warning) reasons.push(check.warning);
+    if (declared && !sameFamily) {
+      reasons.push(
+        declaredChain
+          ? `Chain column says ${getChain(declaredChain).name} but this is a ${check.family === "evm" ? "0x" : "Bitcoin"} address`
+          : `Unknown chain "${declared}"; using ${getChain(chain).name}`
+      );
+    }
+    const priorityCell = cell(raw, "priority").toLowerCase() as WatchPriority;
+    const tags = parseTags(cell(raw, "tags").replace(/[;|]/g, ","));
+
+    const entry: NewWatchlistEntry = {
+      address,
+      chain,
+      label: cell(raw, "label") || null,
+      owner: cell(raw, "owner") || defaults.owner || null,
+      tags: [...new Set([...defaults.tags, ...tags])],
+      priority: PRIORITIES.includes(priorityCell) ? priorityCell : defaults.priority,
+    };
+    return reasons.length
+      ? { row, raw, status: "ambiguous", reason: reasons.join("; "), entry }
+      : { row, raw, status: "valid", entry };
+  });
+}
@@ -0,0 +1,32 @@
+import type { Chain, TxItem, WatchlistEntry, WatchPriority } from "./api";
+import { getChain } from "./chains";
+
+export const PRIORITIES: WatchPriority[] = ["critical", "high", "medium", "low"];
+
+export function byPriority(a: WatchlistEntry, b: WatchlistEntry) {
+  return PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority) || (a.label ?? a.address).localeCompare(b.label ?? b.address);
+}
+
+/** Case-insensitive for EVM hex; bech32 is case-insensitive too, base58 is not. */
+export function walletKey(chain: Chain, address: string) {
+  const a = address.trim();
+  return `${chain}:${getChain(chain).family === "evm" || /^(bc1|tb1)/i.test(a) ? a.toLowerCase() : a}`;
+}
+
+export function parseTags(text: string) {
+  return [...new Set(text.split(",").map((t) => t.trim()).filter(Boolean))];
+}
+
+export type WalletRisk = { txCount: number; highCount: number; mediumCount: number; maxRisk: number };
+
+export function summarizeRisk(items: TxItem[]): WalletRisk {
+  return items.reduce<WalletRisk>(
+    (acc, t) => ({
+      txCount: acc.txCount + 1,
+      highCount: acc.highCount + (t.riskLevel === "high" ? 1 : 0),
+      mediumCount: acc.mediumCount + (t.riskLevel === "medium" ? 1 : 0),
+      maxRisk: Math.max(acc.maxRisk, t.riskScore),
+    }),
+    { txCount: 0, highCount: 0, mediumCount: 0, maxRisk: 0 }
+  );
+}
@@ -1,66 +1,22 @@
-import { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, Clock, Eye, CheckCircle, XCircle, Zap, Loader2 } from "lucide-react";
-import { useAuth } from "@/auth/AuthContext";
-
-const API = import.meta.env.VITE_API_BASE || "http://localhost:8000";
-
-type Chain = "eth" | "btc";
-
-/** Infer chain from address as a fallback */
-function inferChainFromAddress(addr: string): Chain {
-  const a = addr.trim();
-  if (a.startsWith("0x") && a.length === 42) return "eth";
-  const lower = a.toLowerCase();
-  if (lower.startsWith("bc1") || lower.startsWith("tb1")) return "btc"; // bech32
-  if (/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(a)) return "btc";        // legacy/segwit
-  return "eth";
-}
-
-/** ---- Types from backend (supports legacy valueEth too) ---- */
-type TxItem = {
-  txHash: string;
-  from: string;
-  to: string;
-  value?: number;        // native unit (ETH or BTC)
-  valueEth?: number;     // legacy FE type
-  timeStamp: number;     // unix seconds
-  riskScore: number;
-  riskLevel: "low" | "medium" | "high";
-  gasPriceGwei?: number | null;
-  isMixerInvolved?: boolean;
-};
-
-type AnalyzeResponse = { count: number; items: TxItem[] };
-
-/** ---- Data fetch (uses stored chain/address) ---- */
-function useAnalyze(
-  address: string | null,
-  token: string | null,
-  chainOverride?: Chain | null
-) {
-  return useQuery<AnalyzeResponse>({
-    queryKey: ["alerts-analyze", address, chainOverride, token],
-    queryFn: async () => {
-      if (!address) throw new Error("No address");
-      const effectiveChain: Chain =
-        chainOverride ?? inferChainFromAddress(address);
-
-      const url = `${API}/api/analyze/${effectiveChain}/${address}?page=1&offset=50`;
-      const res = await fetch(url, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) throw new Error(await res.text());
-      return res.json();
-    },
-    enabled: Boolean(address && address.length > 0),
-    refetchInterval: 15000,
-    refetchOnWindowFocus: false,
-  });
-}
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Clock, Eye, CheckCircle, XCircle, Zap, Loader2, Filter, ShieldAlert } from "lucide-react";
+import { errorMessage, txValue, type Chain, type TxItem } from "@/lib/api";
+import { useAnalyze } from "@/hooks/use-analyze";
+import { useCan } from "@/auth/useCan";
+import { useInvestigationRoute } from "@/wallet/useInvestigationRoute";
+import { getChain, unitForChain } from "@/lib/chains";
+import { riskFactors, severityOf, type Severity } from "@/lib/riskFactors";
+import { FIATS, formatFiat, type Fiat } from "@/pricing/prices";
+import { useFiatValues } from "@/pricing/useFiat";
+import { labelText } from "@/labels/labels";
+import { useLabelLookup } from "@/labels/useLabels";
+import { describeHit, type ScreeningHit } from "@/screening/blocklists";
+import { useWalletScreening } from "@/screening/useScreening";
 
 /** ---- Helpers ---- */
 function timeAgo(tsSec: number) {
@@ -87,7 +43,6 @@ function timeAgo(tsSec: number) {
 }
 
 type Status = "active" | "acknowledged" | "resolved";
-type Severity = "critical" | "high" | "medium" | "low";
 
 type Alert = {
   id: string;
@@ -100,8 +55,11 @@ type Alert = {
   status: Status;
   reason: string;
   amount?: number;
+  fiatAmount?: number | null;
   from: string;
   to: string;
+  /** Blocklist matches of the sender or recipient. */
+  screening: ScreeningHit[];
 };
 
 const statusKey = (address: string) => `alert_statuses_${address}`;
@@ -118,30 +76,54 @@ function saveStatuses(address: string, map: Record<string, Status>) {
   localStorage.setItem(statusKey(address), JSON.stringify(map));
 }
 
+/** Alerts below this amount are not raised; `unit` is the chain's native coin or a fiat currency. */
+type AmountThreshold = { amount: number; unit: "native" | Fiat };
+
+// per chain, since a native amount means something else on every chain
+const THRESHOLD_KEY = "alert_amount_threshold";
+const thresholdKey = (chain: Chain) => `${THRESHOLD_KEY}:${chain}`;
+
+function readThreshold(key: string): AmountThreshold | null {
+  try {
+    const t = JSON.parse(localStorage.getItem(key) ?? "");
+    if (typeof t?.amount === "number" && (t.unit === "native" || FIATS.includes(t.unit))) return t;
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+function loadThreshold(chain: Chain): AmountThreshold {
+  const own = readThreshold(thresholdKey(chain));
+  if (own) return own;
+  // the old single threshold still applies where it was in fiat; a native one can't be carried over
+  const legacy = readThreshold(THRESHOLD_KEY);
+  return legacy && legacy.unit !== "native" ? legacy : { amount: 0, unit: "native" };
+}
+
+function saveThreshold(chain: Chain, t: AmountThreshold) {
+  localStorage.setItem(thresholdKey(chain), JSON.stringify(t));
+}
+
 /** ---- Reason/Title heuristics from available fields ---- */
-function buildReasonAndTitle(t: TxItem): {
+function buildReasonAndTitle(t: TxItem, unit: string, hits: ScreeningHit[]): {
   title: string;
   reason: string;
   severity: Severity;
 } {
-  const val = typeof t.valueEth === "number" ? t.valueEth : (t.value ?? 0);
-  const gp = typeof t.gasPriceGwei === "number" ? t.gasPriceGwei : 0;
-  const selfTransfer = t.from && t.to && t.from.toLowerCase() === t.to.toLowerCase();
-  const missingTo = !t.to || t.to.length === 0;
-
-  const severity: Severity =
-    t.riskScore >= 80 ? "critical" :
-    t.riskScore >= 50 ? "high" :
-    t.riskScore >= 30 ? "medium" :
-    "low";
-
-  const parts: string[] = [];
-  if (val > 5) parts.push("high-value transfer");
-  else if (val > 1) parts.push("large transfer");
-  if (gp > 100) parts.push("elevated gas price");
-  if (selfTransfer) parts.push("self-transfer behavior");
-  if (missingTo) parts.push("unknown destination");
-  if (t.isMixerInvolved) parts.push("known mixer involvement");
+  const parts = riskFactors(t, unit).map((f) => f.label);
+
+  // a blocklisted counterparty is critical whatever the backend scored
+  if (hits.length) {
+    const risk = parts.length ? ` Also: ${parts.join(", ")} (risk ${t.riskScore.toFixed(1)}).` : "";
+    return {
+      title: "Blocklisted Counterparty",
+      reason: `${hits.map(describeHit).join("; ")}.${risk}`,
+      severity: "critical",
+    };
+  }
+
+  const severity = severityOf(t.riskScore);
   if (parts.length === 0) parts.push("anomalous activity detected");
 
   const title =
@@ -159,60 +141,69 @@ function buildReasonAndTitle(t: TxItem): {
 
 /** ---- Component ---- */
 const AlertsPage = () => {
-  const { token } = useAuth();
-
-  const [address, setAddress] = useState<string | null>(() =>
-    localStorage.getItem("last_address")
-  );
-  const [chain, setChain] = useState<Chain>(() => {
-    const storedChain = localStorage.getItem("last_chain") as Chain | null;
-    if (storedChain === "eth" || storedChain === "btc") return storedChain;
-    const addr = localStorage.getItem("last_address") || "";
-    return inferChainFromAddress(addr);
-  });
-
-  // keep in sync with Transactions page
-  useEffect(() => {
-    const id = setInterval(() => {
-      const a = localStorage.getItem("last_address") || "";
-      const c = localStorage.getItem("last_chain") as Chain | null;
-      if (a && a !== address) setAddress(a);
-      if (c && c !== chain) setChain(c);
-      if (!c && a && !address) setChain(inferChainFromAddress(a));
-    }, 1000);
-    return () => clearInterval(id);
-  }, [address, chain]);
-
-  const { data, isLoading, isError, error } = useAnalyze(address, token, chain);
-  const items = data?.items ?? [];
+  const can = useCan();
+  const canUpdate = can("alerts:update");
+  const { address, chain, getParam, setParams } = useInvestigationRoute();
+  const selectedTx = getParam("tx");
+
+  const { data, isLoading, isError, error } = useAnalyze(chain, address);
+  const screening = useWalletScreening(chain, address);
+  const { lists: blocklists, hitsByTx, endpointError } = screening;
+  // the latest transfers, plus older ones with a blocklist hit anywhere in the history
+  const items = useMemo(() => {
+    const latest = data?.items ?? [];
+    const shown = new Set(latest.map((t) => t.txHash));
+    return [...latest, ...screening.flagged.filter((t) => !shown.has(t.txHash))];
+  }, [data, screening.flagged]);
 
   const [statusMap, setStatusMap] = useState<Record<string, Status>>(() =>
     loadStatuses(address || "")
   );
   useEffect(() => setStatusMap(loadStatuses(address || "")), [address]);
 
+  const [threshold, setThresholdState] = useState<AmountThreshold>(() => loadThreshold(chain));
+  useEffect(() => setThresholdState(loadThreshold(chain)), [chain]);
+  const setThreshold = (t: AmountThreshold) => {
+    setThresholdState(t);
+    saveThreshold(chain, t);
+  };
+  const { currency: fiatCurrency, valueOf: fiatOf } = useFiatValues(chain, items);
+  const labelOf = useLabelLookup(chain);
+  const thresholdFiat = useFiatValues(chain, items, threshold.unit === "native" || !threshold.amount ? null : threshold.unit);
+  const thresholdFiatOf = thresholdFiat.valueOf;
+
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
-  const toggleDetails = (id: string) =>
+  const toggleDetails = (id: string) => {
+    const open = !(expanded.has(id) || id === selectedTx);
     setExpanded((prev) => {
       const next = new Set(prev);
-      next.has(id) ? next.delete(id) : next.add(id);
+      if (open) next.add(id);
+      else next.delete(id);
       return next;
     });
+    // the last opened alert is the one a copied link points at
+    if (open) setParams({ tx: id }, { replace: true });
+    else if (id === selectedTx) setParams({ tx: null }, { replace: true });
+  };
 
   const alerts: Alert[] = useMemo(() => {
     return items.map((t) => {
-      const { title, reason, severity } = buildReasonAndTitle(t);
+      const screening = hitsByTx.get(t.txHash) ?? [];
+      const { title, reason, severity } = buildReasonAndTitle(t, unitForChain(chain), screening);
       const defaultStatus: Status =
         severity === "critical" || severity === "high" ? "active" : "resolved";
       const status = statusMap[t.txHash] ?? defaultStatus;
-      const amount = typeof t.valueEth === "number" ? t.valueEth : t.value;
+      const amount = txValue(t);
+      const fiatAmount = fiatOf(t);
 
       return {
         id: t.txHash,
         title,
-        description: `From ${t.from.slice(0, 10)}… to ${
-          t.to ? t.to.slice(0, 10) + "…" : "—"
-        } • ${amount ?? 0}`,
+        description: `From ${labelText(labelOf(t.from), t.from)} to ${
+          t.to ? labelText(labelOf(t.to), t.to) : "—"
+        } • ${amount ?? 0} ${unitForChain(chain)}${
+          fiatCurrency && fiatAmount !== null ? ` (≈ ${formatFiat(fiatAmount, fiatCurrency)})` : ""
+        }`,
         severity,
         walletAddress: t.to || t.from,
         transactionHash: t.txHash,
@@ -220,15 +211,40 @@ const AlertsPage = () => {
         status,
         reason,
         amount,
+        fiatAmount,
         from: t.from,
         to: t.to,
+        screening,
       };
     });
-  }, [items, statusMap]);
+  }, [items, statusMap, chain, fiatCurrency, fiatOf, labelOf, hitsByTx]);
+
+  // Unpriced transfers stay visible under a fiat threshold: a missing price must not hide an alert.
+  const aboveThreshold = useMemo(() => {
+    if (!threshold.amount) return alerts;
+    const byHash = new Map(items.map((t) => [t.txHash, t]));
+    return alerts.filter((a) => {
+      // blocklist matches are raised at any amount
+      if (a.screening.length) return true;
+      if (threshold.unit === "native") return (a.amount ?? 0) >= threshold.amount;
+      const t = byHash.get(a.id);
+      const v = t ? thresholdFiatOf(t) : null;
+      return v === null || v >= threshold.amount;
+    });
+  }, [alerts, items, threshold, thresholdFiatOf]);
+  const hiddenByThreshold = alerts.length - aboveThreshold.length;
 
-  const criticalAlerts = alerts.filter((a) => a.severity === "critical").length;
-  const activeAlerts = alerts.filter((a) => a.status === "active").length;
-  const resolvedAlerts = alerts.filter((a) => a.status === "resolved").length;
+  // bring a deep-linked alert into view once it has loaded
+  const scrolledTo = useRef<string | null>(null);
+  useEffect(() => {
+    if (!selectedTx || scrolledTo.current === selectedTx || !alerts.some((a) => a.id === selectedTx)) return;
+    scrolledTo.current = selectedTx;
+    document.getElementById(`alert-${selectedTx}`)?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [alerts, selectedTx]);
+
+  const criticalAlerts = aboveThreshold.filter((a) => a.severity === "critical").length;
+  const activeAlerts = aboveThreshold.filter((a) => a.status === "active").length;
+  const resolvedAlerts = aboveThreshold.filter((a) => a.status === "resolved").length;
 
   const getSeverityBadge = (severity: Severity) => {
     switch (severity) {
@@ -316,7 +332,7 @@ const AlertsPage = () => {
                 {chain ? (
                   <>
                     {" "}
-                    on <span className="uppercase">{chain}</span>
+                    on <span>{getChain(chain).name}</span>
                   </>
                 ) : null}
               </>
@@ -338,6 +354,14 @@ const AlertsPage = () => {
             <AlertTriangle className="h-3 w-3 mr-1" />
             {activeAlerts} Active
           </Badge>
+          <Badge
+            variant="outline"
+            className="border-border/50 text-muted-foreground"
+            title={blocklists.map((l) => `${l.name} (${l.version})`).join("\n") || "No blocklists loaded"}
+          >
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            {blocklists.length} Blocklist{blocklists.length === 1 ? "" : "s"}
+          </Badge>
         </div>
       </div>
 
@@ -385,9 +409,83 @@ const AlertsPage = () => {
         </Card>
       </div>
 
+      <Card className="border-border/50">
+        <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Filter className="h-4 w-4 text-muted-foreground" />
+            Only alert on transfers of at least
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={threshold.amount || ""}
+              placeholder="0"
+              onChange={(e) => setThreshold({ ...threshold, amount: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-32 bg-secondary/50 border-border/50"
+            />
+            <Select
+              value={threshold.unit}
+              onValueChange={(unit) => setThreshold({ ...threshold, unit: unit as AmountThreshold["unit"] })}
+            >
+              <SelectTrigger className="w-28 bg-secondary/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="native">{unitForChain(chain)}</SelectItem>
+                {FIATS.map((f) => (
+                  <SelectItem key={f} value={f}>
+                    {f}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-xs text-muted-foreground md:ml-auto">
+            {thresholdFiat.isLoading
+              ? "Loading prices…"
+              : thresholdFiat.isError
+              ? "Prices unavailable; fiat threshold not applied"
+              : hiddenByThreshold > 0
+              ? `${hiddenByThreshold} smaller ${hiddenByThreshold === 1 ? "transfer" : "transfers"} not alerted`
+              : null}
+          </div>
+        </CardContent>
+      </Card>
+
+      {endpointError && (
+        <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+          Blocklist feed unavailable ({errorMessage(endpointError)}); screening against {blocklists.length} uploaded
+          list{blocklists.length === 1 ? "" : "s"} only.
+        </div>
+      )}
+      {screening.historyError ? (
+        <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+          Could not load the history for screening ({errorMessage(screening.historyError)}); only the latest
+          transfers were checked against the blocklists.
+        </div>
+      ) : (
+        screening.screening ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Screening recent history
+            {screening.progress ? ` (${screening.progress.loaded}/${screening.progress.total})` : ""}…
+          </div>
+        ) : (
+          !screening.complete &&
+          screening.screenedCount > 0 && (
+            <div className="text-sm text-muted-foreground">
+              Screened the latest {screening.screenedCount} transfers; load the full history on Transactions to screen
+              older ones.
+            </div>
+          )
+        )
+      )}
+
       {isError && (
         <div className="p-4 border border-destructive/30 bg-destructive/10 rounded text-destructive text-sm break-words">
-          {(error as Error)?.message || "Failed to load alerts"}
+          {error ? errorMessage(error) : "Failed to load alerts"}
         </div>
       )}
 
@@ -401,7 +499,7 @@ const AlertsPage = () => {
           </Card>
         )}
 
-        {!isLoading && alerts.length === 0 && (
+        {!isLoading && aboveThreshold.length === 0 && (
           <Card className="border-border/50">
             <CardHeader>
               <CardTitle>No alerts</CardTitle>
@@ -412,17 +510,20 @@ const AlertsPage = () => {
           </Card>
         )}
 
-        {alerts.map((alert) => {
+        {aboveThreshold.map((alert) => {
           const severityBadge = getSeverityBadge(alert.severity);
           const statusBadge = getStatusBadge(alert.status);
           const SeverityIcon = severityBadge.icon;
           const StatusIcon = statusBadge.icon;
-          const isOpen = expanded.has(alert.id);
+          const isOpen = expanded.has(alert.id) || alert.id === selectedTx;
 
           return (
             <Card
               key={alert.id}
+              id={`alert-${alert.id}`}
               className={`border-border/50 hover:shadow-lg transition-all ${
+                alert.id === selectedTx ? "ring-1 ring-primary/50 " : ""
+              }${
                 alert.severity === "critical"
                   ? "border-destructive/30 shadow-destructive/10"
                   : alert.severity === "high"
@@ -442,6 +543,12 @@ const AlertsPage = () => {
                         <StatusIcon className="h-3 w-3 mr-1" />
                         {statusBadge.label}
                       </Badge>
+                      {alert.screening.length > 0 && (
+                        <Badge className="bg-destructive text-destructive-foreground border-destructive">
+                          <ShieldAlert className="h-3 w-3 mr-1" />
+                          Blocklist match
+                        </Badge>
+                      )}
                     </div>
                     <CardTitle className="text-lg">{alert.title}</CardTitle>
                     <CardDescription className="mt-1">
@@ -467,7 +574,7 @@ const AlertsPage = () => {
                       <div>
                         <span className="text-muted-foreground">Wallet:</span>
                         <p className="font-mono text-foreground break-all">
-                          {alert.walletAddress}
+                          {labelText(labelOf(alert.walletAddress), alert.walletAddress, false)}
                         </p>
                       </div>
                       <div>
@@ -477,6 +584,21 @@ const AlertsPage = () => {
                         </p>
                       </div>
                     </div>
+                    {alert.screening.length > 0 && (
+                      <div className="mt-3 space-y-1 text-xs">
+                        <span className="text-muted-foreground">Matched lists:</span>
+                        {alert.screening.map((h, i) => (
+                          <div key={`${h.role}:${h.listId}:${i}`} className="flex flex-wrap gap-x-2">
+                            <span className="font-semibold">{h.listName}</span>
+                            <span className="text-muted-foreground">version {h.listVersion}</span>
+                            {h.reference && <span className="text-muted-foreground">entry {h.reference}</span>}
+                            <span className="font-mono break-all">
+                              {h.role} {h.address}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {isOpen && (
@@ -511,7 +633,8 @@ const AlertsPage = () => {
                             From → To
                           </div>
                           <div className="font-mono break-all">
-                            {alert.from} → {alert.to || "—"}
+                            {labelText(labelOf(alert.from), alert.from, false)} →{" "}
+                            {alert.to ? labelText(labelOf(alert.to), alert.to, false) : "—"}
                           </div>
                         </div>
                       </div>
@@ -519,7 +642,7 @@ const AlertsPage = () => {
                   )}
 
                   <div className="flex items-center gap-2">
-                    {alert.status === "active" && (
+                    {canUpdate && alert.status === "active" && (
                       <>
                         <Button
                           size="sm"
@@ -540,7 +663,7 @@ const AlertsPage = () => {
                         </Button>
                       </>
                     )}
-                    {alert.status === "acknowledged" && (
+                    {canUpdate && alert.status === "acknowledged" && (
                       <Button
                         size="sm"
                         className="bg-primary hover:bg-primary/90"
@@ -1,5 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -7,86 +6,47 @@ import {
   PieChart, Pie, Cell, BarChart, Bar
 } from "recharts";
 import { TrendingUp, Shield, AlertTriangle, Eye, Activity, DollarSign, Loader2 } from "lucide-react";
-import { useAuth } from "@/auth/AuthContext";
-
-const API = import.meta.env.VITE_API_BASE || "http://localhost:8000";
-
-type Chain = "eth" | "btc";
-
-function inferChainFromAddress(addr: string): Chain {
-  const a = addr.trim();
-  if (a.startsWith("0x") && a.length === 42) return "eth";
-  const lower = a.toLowerCase();
-  if (lower.startsWith("bc1") || lower.startsWith("tb1")) return "btc";
-  if (/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(a)) return "btc";
-  return "eth";
-}
-
-type TxItem = {
-  txHash: string;
-  from: string;
-  to: string;
-  valueEth: number;
-  timeStamp: number;
-  riskScore: number;
-  riskLevel: "low" | "medium" | "high";
-  gasPriceGwei: number;
-  isMixerInvolved: boolean;
-};
-type AnalyzeResponse = { count: number; items: TxItem[] };
-
-function useAnalyze(chain: Chain, address: string | null, token: string | null) {
-  return useQuery<AnalyzeResponse>({
-    queryKey: ["dashboard-analyze", chain, address, token],
-    queryFn: async () => {
-      if (!address) throw new Error("No address");
-      const res = await fetch(`${API}/api/analyze/${chain}/${address}?page=1&offset=50`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) throw new Error(await res.text());
-      return res.json();
-    },
-    enabled: Boolean(address && address.length > 0),
-    refetchInterval: 15000,
-    refetchOnWindowFocus: false,
-  });
-}
+import { useAnalyze } from "@/hooks/use-analyze";
+import { useInvestigationRoute } from "@/wallet/useInvestigationRoute";
+import { getChain } from "@/lib/chains";
+import { txValue } from "@/lib/api";
+import { formatFiat } from "@/pricing/prices";
+import { useFiatValues } from "@/pricing/useFiat";
+import WatchlistRiskCard from "@/components/watchlist/WatchlistRiskCard";
 
 const DashboardPage = () => {
-  const { token } = useAuth();
-  const [address, setAddress] = useState<string | null>(() =>
-    localStorage.getItem("last_address")
-  );
-  const [chain, setChain] = useState<Chain>(() => {
-    const storedChain = localStorage.getItem("last_chain") as Chain | null;
-    if (storedChain === "eth" || storedChain === "btc") return storedChain;
-    const addr = localStorage.getItem("last_address") || "";
-    return inferChainFromAddress(addr);
-  });
+  const { address, chain } = useInvestigationRoute();
 
-  // stay synced with changes from Transactions page
-  useEffect(() => {
-    const id = setInterval(() => {
-      const storedAddr = localStorage.getItem("last_address") || "";
-      const storedChain = localStorage.getItem("last_chain") as Chain | null;
-
-      if (storedAddr && storedAddr !== address) setAddress(storedAddr);
-      if (storedChain && storedChain !== chain) setChain(storedChain);
-      if (!storedChain && storedAddr && !address) {
-        setChain(inferChainFromAddress(storedAddr));
-      }
-    }, 1000);
-    return () => clearInterval(id);
-  }, [address, chain]);
-
-  const { data, isLoading, isError } = useAnalyze(chain, address, token);
-  const items = data?.items ?? [];
+  const { data, isLoading, isError } = useAnalyze(chain, address);
+  const items = useMemo(() => data?.items ?? [], [data]);
 
   const totalTx = items.length;
   const fraudCount = items.filter((t) => t.riskLevel === "high").length;
   const suspiciousCount = items.filter((t) => t.riskLevel === "medium").length;
   const safeCount = items.filter((t) => t.riskLevel === "low").length;
 
+  const fiat = useFiatValues(chain, items);
+  const { currency: fiatCurrency, valueOf: fiatOf } = fiat;
+  const volume = useMemo(() => {
+    const wallet = address?.toLowerCase();
+    const v = { total: 0, in: 0, out: 0, unpriced: 0 };
+    for (const t of items) {
+      const amount = fiatCurrency ? fiatOf(t) : txValue(t);
+      if (amount === null) {
+        v.unpriced += 1;
+        continue;
+      }
+      v.total += amount;
+      if (wallet && t.from?.toLowerCase() === wallet) v.out += amount;
+      else if (wallet && t.to?.toLowerCase() === wallet) v.in += amount;
+    }
+    return v;
+  }, [items, fiatCurrency, fiatOf, address]);
+  const fmtVolume = (n: number) =>
+    fiat.currency
+      ? formatFiat(n, fiat.currency, { compact: true })
+      : `${n.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${getChain(chain).unit}`;
+
   const detectionRate = totalTx
     ? ((fraudCount + suspiciousCount) / totalTx) * 100
     : 0;
@@ -158,7 +118,7 @@ const DashboardPage = () => {
               <>
                 Live overview for{" "}
                 <span className="font-mono">{address}</span>{" "}
-                on <span className="uppercase">{chain}</span>
+                on <span>{getChain(chain).name}</span>
               </>
             ) : (
               <>Set a wallet on the Transactions page to start monitoring.</>
@@ -172,11 +132,11 @@ const DashboardPage = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
         <Card className="border-border/50 hover:shadow-lg hover:shadow-primary/5 transition-all">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Transactions</CardTitle>
-            <DollarSign className="h-4 w-4 text-primary" />
+            <Activity className="h-4 w-4 text-primary" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">
@@ -188,6 +148,31 @@ const DashboardPage = () => {
           </CardContent>
         </Card>
 
+        <Card className="border-border/50 hover:shadow-lg hover:shadow-primary/5 transition-all">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Volume{fiat.currency ? ` (${fiat.currency})` : ""}</CardTitle>
+            <DollarSign className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-primary">
+              {isLoading || (fiat.currency && fiat.isLoading) ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : fiat.isError ? (
+                "—"
+              ) : (
+                fmtVolume(volume.total)
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {fiat.isError
+                ? "Prices unavailable"
+                : `In ${fmtVolume(volume.in)} · Out ${fmtVolume(volume.out)}${
+                    volume.unpriced ? ` · ${volume.unpriced} unpriced` : ""
+                  }`}
+            </p>
+          </CardContent>
+        </Card>
+
         <Card className="border-border/50 hover:shadow-lg hover:shadow-destructive/5 transition-all">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Frauds Detected</CardTitle>
@@ -224,6 +209,8 @@ const DashboardPage = () => {
         </Card>
       </div>
 
+      <WatchlistRiskCard />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Transaction Trends Chart */}
         <Card className="border-border/50">
@@ -0,0 +1,385 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, Expand, Loader2, Maximize, Minimize2, Network, Pin, PinOff, Search } from "lucide-react";
+import { errorMessage, type Chain } from "@/lib/api";
+import { getChain } from "@/lib/chains";
+import { downloadFile } from "@/lib/download";
+import { useToast } from "@/hooks/use-toast";
+import { useFlowGraph } from "@/hooks/use-flow-graph";
+import { toGraphML, type FlowGraph, type FlowNode } from "@/lib/flowGraph";
+import { boundsOf, layoutGraph, type GraphLayout, type Point, type Positions } from "@/lib/graphLayout";
+import { investigationPath, useInvestigationRoute } from "@/wallet/useInvestigationRoute";
+import FlowGraphCanvas, { type FlowGraphCanvasHandle } from "@/components/graph/FlowGraphCanvas";
+import { RISK_COLORS } from "@/components/graph/colors";
+import { categoryOf } from "@/labels/labels";
+import { useLabelLookup } from "@/labels/useLabels";
+
+/** ---------- EXPORT HELPERS ---------- */
+const BACKGROUND = "hsl(222, 47%, 6%)";
+
+/** Standalone SVG of the whole graph, independent of the current pan/zoom. */
+function serializeSvg(svg: SVGSVGElement, positions: Positions) {
+  const b = boundsOf(positions);
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("viewBox", `${b.x} ${b.y} ${b.width} ${b.height}`);
+  clone.setAttribute("width", String(Math.round(b.width)));
+  clone.setAttribute("height", String(Math.round(b.height)));
+  clone.removeAttribute("class");
+  clone.querySelector("[data-graph-root]")?.removeAttribute("transform");
+  const bg = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+  bg.setAttribute("x", String(b.x));
+  bg.setAttribute("y", String(b.y));
+  bg.setAttribute("width", String(b.width));
+  bg.setAttribute("height", String(b.height));
+  bg.setAttribute("fill", BACKGROUND);
+  clone.insertBefore(bg, clone.firstChild);
+  return { markup: new XMLSerializer().serializeToString(clone), width: b.width, height: b.height };
+}
+
+function svgToPng(markup: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const ctx = canvas.getContext("2d");
+      URL.revokeObjectURL(url);
+      if (!ctx) return reject(new Error("Canvas is not available"));
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, width, height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the graph image"));
+    };
+    img.src = url;
+  });
+}
+
+const fileBase = (chain: Chain, graph: FlowGraph) => `flow_${chain}_${graph.center.slice(0, 10)}`;
+const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const GraphPage = () => {
+  const { address, chain } = useInvestigationRoute();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const unit = getChain(chain).unit;
+  const labelOf = useLabelLookup(chain);
+
+  const { graph, isLoading, centerError, loading, error, expand, collapse, reset } = useFlowGraph(chain, address);
+  const [hops, setHops] = useState(1);
+  const [layout, setLayout] = useState<GraphLayout>("force");
+  const [positions, setPositions] = useState<Positions>(new Map());
+  const [pinned, setPinned] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const canvas = useRef<FlowGraphCanvasHandle>(null);
+
+  // start over for another wallet
+  useEffect(() => {
+    setPositions(new Map());
+    setPinned(new Set());
+    setSelectedId(null);
+  }, [chain, address]);
+
+  // re-layout when the graph's shape or the layout changes; current positions seed the next run
+  const shape = useMemo(
+    () => (graph ? `${graph.nodes.map((n) => n.id).join(",")}|${graph.edges.length}` : ""),
+    [graph]
+  );
+  const positionsRef = useRef(positions);
+  positionsRef.current = positions;
+  const pinnedRef = useRef(pinned);
+  pinnedRef.current = pinned;
+  const graphRef = useRef(graph);
+  graphRef.current = graph;
+  useEffect(() => {
+    if (!graphRef.current) return;
+    setPositions(layoutGraph(layout, graphRef.current, positionsRef.current, pinnedRef.current));
+    // keyed on `shape` rather than `graph`: value-only updates keep the picture still
+  }, [shape, layout]);
+
+  const selected = graph?.nodes.find((n) => n.id === selectedId) ?? null;
+  const selectedLabel = selected ? labelOf(selected.address) : null;
+
+  const onExpand = useCallback(
+    (n: FlowNode) =>
+      expand(n.address, hops).catch((e) =>
+        toast({ title: "Expand failed", description: errorMessage(e), variant: "destructive" })
+      ),
+    [expand, hops, toast]
+  );
+
+  const onNodeClick = (n: FlowNode) => {
+    setSelectedId(n.id);
+    if (!n.expanded && !loading.has(n.id)) onExpand(n);
+  };
+
+  const onNodeMove = (id: string, p: Point) => {
+    setPositions((prev) => new Map(prev).set(id, p));
+    setPinned((prev) => (prev.has(id) ? prev : new Set(prev).add(id)));
+  };
+
+  const togglePin = (id: string) =>
+    setPinned((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  const onCollapse = (n: FlowNode) => {
+    collapse(n.address);
+    setSelectedId(n.id);
+  };
+
+  const onReset = () => {
+    reset();
+    setPinned(new Set());
+    setSelectedId(null);
+  };
+
+  const exportAs = async (kind: "svg" | "png" | "graphml") => {
+    if (!graph) return;
+    try {
+      if (kind === "graphml") {
+        downloadFile(toGraphML(graph, chain, labelOf), `${fileBase(chain, graph)}.graphml`, "application/graphml+xml");
+        return;
+      }
+      const svg = canvas.current?.svg;
+      if (!svg) return;
+      const { markup, width, height } = serializeSvg(svg, positions);
+      if (kind === "svg") downloadFile(markup, `${fileBase(chain, graph)}.svg`, "image/svg+xml");
+      else downloadFile(await svgToPng(markup, width, height), `${fileBase(chain, graph)}.png`, "image/png");
+    } catch (e) {
+      toast({ title: "Export failed", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Flow Graph
+          </h1>
+          <p className="text-muted-foreground">
+            {address ? (
+              <>
+                Counterparties of <span className="font-mono">{address}</span> on{" "}
+                <span>{getChain(chain).name}</span>
+              </>
+            ) : (
+              <>Set a wallet on the Transactions page to map its fund flows.</>
+            )}
+          </p>
+        </div>
+        {graph && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <Select value={String(hops)} onValueChange={(v) => setHops(Number(v))}>
+              <SelectTrigger className="w-[120px] bg-secondary/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3].map((h) => (
+                  <SelectItem key={h} value={String(h)}>
+                    {h} hop{h === 1 ? "" : "s"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={layout} onValueChange={(v) => setLayout(v as GraphLayout)}>
+              <SelectTrigger className="w-[150px] bg-secondary/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="force">Force layout</SelectItem>
+                <SelectItem value="hierarchical">Hierarchical</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => canvas.current?.fit()}>
+              <Maximize className="h-4 w-4 mr-2" />
+              Fit
+            </Button>
+            <Button variant="outline" onClick={onReset}>
+              Reset
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button className="bg-primary hover:bg-primary/90">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportAs("png")}>PNG image</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportAs("svg")}>SVG image</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportAs("graphml")}>GraphML</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+      </div>
+
+      {centerError && (
+        <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+          {errorMessage(centerError)}
+        </div>
+      )}
+      {error && (
+        <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+          Some addresses could not be expanded: {error}
+        </div>
+      )}
+
+      {!address ? (
+        <Card className="border-border/50">
+          <CardContent className="py-16 text-center text-muted-foreground">
+            <Network className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            No wallet selected.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="border-border/50 lg:col-span-3 overflow-hidden">
+            <CardContent className="p-0 h-[600px] relative">
+              {isLoading || !graph ? (
+                <div className="h-full flex items-center justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <FlowGraphCanvas
+                  ref={canvas}
+                  graph={graph}
+                  positions={positions}
+                  pinned={pinned}
+                  loading={loading}
+                  selected={selectedId}
+                  unit={unit}
+                  labelOf={labelOf}
+                  onNodeClick={onNodeClick}
+                  onNodeMove={onNodeMove}
+                  onBackgroundClick={() => setSelectedId(null)}
+                />
+              )}
+              <div className="absolute bottom-3 left-3 flex gap-3 text-xs text-muted-foreground bg-background/80 rounded px-2 py-1">
+                {(["low", "medium", "high"] as const).map((level) => (
+                  <span key={level} className="flex items-center gap-1">
+                    <span className="inline-block w-3 h-0.5" style={{ background: RISK_COLORS[level] }} />
+                    {level}
+                  </span>
+                ))}
+                <span>· dashed = not expanded</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle>{selected ? "Address" : "Graph"}</CardTitle>
+              <CardDescription>
+                {selected
+                  ? selected.id === graph?.center
+                    ? "Investigated wallet"
+                    : `${selected.hop} hop${selected.hop === 1 ? "" : "s"} from the wallet`
+                  : "Click an address to expand it; drag to pin it in place."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {selected && graph ? (
+                <>
+                  {selectedLabel && (
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={categoryOf(selectedLabel.category).className}>
+                        {categoryOf(selectedLabel.category).name}
+                      </Badge>
+                      <span className="font-medium">{selectedLabel.name}</span>
+                    </div>
+                  )}
+                  <div className="font-mono break-all">{selected.address}</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <span className="text-muted-foreground">Transfers</span>
+                    <span>{selected.txCount}</span>
+                    <span className="text-muted-foreground">Received</span>
+                    <span>
+                      {fmt(selected.inValue)} {unit}
+                    </span>
+                    <span className="text-muted-foreground">Sent</span>
+                    <span>
+                      {fmt(selected.outValue)} {unit}
+                    </span>
+                    <span className="text-muted-foreground">Max risk</span>
+                    <span>{selected.maxRiskScore.toFixed(1)}</span>
+                  </div>
+                  {selected.mixer && <Badge variant="destructive">Mixer involved</Badge>}
+                  <div className="flex flex-col gap-2">
+                    {selected.id !== graph.center &&
+                      (selected.expanded ? (
+                        <Button variant="outline" onClick={() => onCollapse(selected)}>
+                          <Minimize2 className="h-4 w-4 mr-2" />
+                          Collapse
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          disabled={loading.has(selected.id)}
+                          onClick={() => onExpand(selected)}
+                        >
+                          {loading.has(selected.id) ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Expand className="h-4 w-4 mr-2" />
+                          )}
+                          Expand {hops} hop{hops === 1 ? "" : "s"}
+                        </Button>
+                      ))}
+                    {selected.id === graph.center && (
+                      <Button variant="outline" disabled={loading.size > 0} onClick={() => onExpand(selected)}>
+                        <Expand className="h-4 w-4 mr-2" />
+                        Expand counterparties {hops} hop{hops === 1 ? "" : "s"}
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => togglePin(selected.id)}>
+                      {pinned.has(selected.id) ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                      {pinned.has(selected.id) ? "Unpin" : "Pin"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => navigate(investigationPath("/transactions", chain, selected.address))}
+                    >
+                      <Search className="h-4 w-4 mr-2" />
+                      Investigate
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                graph && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <span className="text-muted-foreground">Addresses</span>
+                    <span>{graph.nodes.length}</span>
+                    <span className="text-muted-foreground">Flows</span>
+                    <span>{graph.edges.length}</span>
+                    <span className="text-muted-foreground">Expanded</span>
+                    <span>{graph.nodes.filter((n) => n.expanded).length}</span>
+                  </div>
+                )
+              )}
+              <p className="text-xs text-muted-foreground">
+                Each address contributes its latest 50 transfers; edge width follows value, color the worst risk level.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphPage;
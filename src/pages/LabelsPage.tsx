@@ -0,0 +1,264 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, FileUp, Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCan } from "@/auth/useCan";
+import { errorMessage, type AddressLabel } from "@/lib/api";
+import { getChain } from "@/lib/chains";
+import { validateAddress } from "@/lib/address";
+import { downloadFile } from "@/lib/download";
+import { investigationPath } from "@/wallet/useInvestigationRoute";
+import { LABEL_CATEGORIES, categoryOf } from "@/labels/labels";
+import { getLabelStore } from "@/labels/labelStore";
+import { useLabels, useRemoveLabel } from "@/labels/useLabels";
+import LabelDialog from "@/components/labels/LabelDialog";
+import ImportLabelsDialog from "@/components/labels/ImportLabelsDialog";
+
+function matches(l: AddressLabel, q: string) {
+  if (!q) return true;
+  const needle = q.toLowerCase();
+  return [l.address, l.name, l.note, l.source].some((v) => v?.toLowerCase().includes(needle));
+}
+
+const LabelsPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const can = useCan();
+  const canManage = can("labels:manage");
+  const store = getLabelStore();
+
+  const labels = useLabels();
+  const remove = useRemoveLabel();
+  const all = useMemo(
+    () => [...(labels.data ?? [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [labels.data]
+  );
+
+  const [query, setQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [editing, setEditing] = useState<AddressLabel | null>(null);
+  const [labelOpen, setLabelOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [removing, setRemoving] = useState<AddressLabel | null>(null);
+
+  const filtered = all.filter(
+    (l) => (categoryFilter === "all" || l.category === categoryFilter) && matches(l, query.trim())
+  );
+
+  const openLabel = (l: AddressLabel | null) => {
+    setEditing(l);
+    setLabelOpen(true);
+  };
+
+  // the exported file is itself a label pack, so it can be imported elsewhere
+  const handleExport = () => {
+    const pack = {
+      name: "Address labels",
+      labels: filtered.map(({ address, chain, name, category, note }) => ({ address, chain, name, category, note })),
+    };
+    downloadFile(JSON.stringify(pack, null, 2), "address-labels.json", "application/json");
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+    const l = removing;
+    setRemoving(null);
+    try {
+      await remove.mutateAsync(l.id);
+      toast({ title: "Label removed", description: l.name });
+    } catch (err) {
+      toast({ title: "Failed to remove label", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Address Labels
+          </h1>
+          <p className="text-muted-foreground">Known entities shown next to their addresses across the app</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="border-border/50" onClick={handleExport} disabled={!filtered.length}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" className="border-border/50" onClick={() => setImportOpen(true)} disabled={!canManage}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Import Pack
+          </Button>
+          <Button className="bg-primary hover:bg-primary/90" onClick={() => openLabel(null)} disabled={!canManage}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Label
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-border/50">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Labels</CardTitle>
+              <CardDescription>
+                {labels.isSuccess ? `${all.length} label(s)` : "Loading…"} · {store.name}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search address, name, note, pack"
+                className="w-[260px] bg-secondary/50 border-border/50"
+              />
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="w-[150px] bg-secondary/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {LABEL_CATEGORIES.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {labels.isError && (
+            <div className="mb-4 p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+              {errorMessage(labels.error)}
+            </div>
+          )}
+          <div className="rounded-md border border-border/50 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border/50 hover:bg-muted/20">
+                  <TableHead>Category</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Chain</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((l) => {
+                  const category = categoryOf(l.category);
+                  // chain-less labels open on the chain the address format implies
+                  const investigateChain = l.chain ?? validateAddress(l.address).chain;
+                  return (
+                    <TableRow key={l.id} className="border-border/50 hover:bg-muted/10">
+                      <TableCell>
+                        <Badge variant="outline" className={category.className}>
+                          {category.name}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{l.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground truncate max-w-[300px]" title={l.address}>
+                          {l.address}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">{l.chain ? getChain(l.chain).name : "All chains"}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{l.source || "—"}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[240px] truncate" title={l.note ?? ""}>
+                        {l.note || "—"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Investigate"
+                            disabled={!investigateChain}
+                            onClick={() => navigate(investigationPath("/transactions", investigateChain!, l.address))}
+                          >
+                            <Search className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Edit"
+                            onClick={() => openLabel(l)}
+                            disabled={!canManage}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive"
+                            title="Remove"
+                            onClick={() => setRemoving(l)}
+                            disabled={!canManage}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {labels.isSuccess && filtered.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      {all.length ? "No labels match your search." : "No address labels yet. Add one or import a label pack."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <LabelDialog open={labelOpen} onOpenChange={setLabelOpen} label={editing} />
+      <ImportLabelsDialog open={importOpen} onOpenChange={setImportOpen} />
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this label?</AlertDialogTitle>
+            <AlertDialogDescription className="break-all">
+              {removing?.name} — {removing?.address}. It is removed for the whole team.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default LabelsPage;
@@ -5,9 +5,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { Shield, Github, Chrome } from "lucide-react";
+import { Shield, Github, Chrome, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
 import { useAuth } from "@/auth/AuthContext";
+import MfaChallenge from "@/auth/MfaChallenge";
+import { beginOidcSignIn, getOidcProvider, type OidcProviderId } from "@/auth/oidc";
 
 
 const LoginPage = () => {
@@ -16,21 +19,44 @@ const LoginPage = () => {
   const [password, setPassword] = useState("");
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { login, register } = useAuth();
+  const { login, verifyMfa, register } = useAuth();
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [ssoPending, setSsoPending] = useState<OidcProviderId | null>(null);
+
+  const handleSso = async (provider: OidcProviderId) => {
+    setSsoPending(provider);
+    try {
+      await beginOidcSignIn(provider); // navigates away on success
+    } catch (err) {
+      setSsoPending(null);
+      toast({ title: "Single sign-on failed", description: errorMessage(err), variant: "destructive" });
+    }
+  };
 
   
 const handleSubmit = async (e) => {
   e.preventDefault();
   try {
-    if (isLogin) await login(email, password);
-    else await register(email, password);
+    if (isLogin) {
+      const res = await login(email, password);
+      if (res.status === "mfa_required") {
+        setMfaToken(res.mfaToken);
+        return;
+      }
+    } else await register(email, password);
     toast({ title: isLogin ? "Welcome back!" : "Account created!", description: "Signed in successfully." });
     navigate("/dashboard");
   } catch (err) {
-    toast({ title: "Auth failed", description: String(err), variant: "destructive" });
+    toast({ title: "Auth failed", description: errorMessage(err), variant: "destructive" });
   }
 };
 
+const handleVerifyMfa = async (code: string) => {
+  await verifyMfa(mfaToken as string, code);
+  toast({ title: "Welcome back!", description: "Signed in successfully." });
+  navigate("/dashboard");
+};
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <div className="w-full max-w-md space-y-8">
@@ -51,84 +77,110 @@ const handleSubmit = async (e) => {
           </div>
         </div>
 
-        {/* Login/Signup Form */}
-        <Card className="border-border/50 shadow-lg shadow-primary/5">
-          <CardHeader>
-            <CardTitle className="text-center">
-              {isLogin ? "Welcome Back" : "Create Account"}
-            </CardTitle>
-            <CardDescription className="text-center">
-              {isLogin 
-                ? "Enter your credentials to access your dashboard" 
-                : "Sign up to start detecting crypto fraud"
-              }
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input 
-                  id="email"
-                  type="email"
-                  placeholder="Enter your email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  className="bg-secondary/50 border-border/50"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <Input 
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  className="bg-secondary/50 border-border/50"
-                />
-              </div>
-              <Button type="submit" className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
-                {isLogin ? "Sign In" : "Create Account"}
-              </Button>
-            </form>
-
-            <div className="space-y-4">
-              <div className="relative">
-                <Separator />
-                <span className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 bg-card px-2 text-xs text-muted-foreground">
-                  or continue with
-                </span>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <Button variant="outline" className="border-border/50">
-                  <Chrome className="h-4 w-4 mr-2" />
-                  Google
+        {mfaToken ? (
+          <Card className="border-border/50 shadow-lg shadow-primary/5">
+            <CardHeader>
+              <CardTitle className="text-center">Two-Factor Authentication</CardTitle>
+              <CardDescription className="text-center">
+                Enter the code from your authenticator app to finish signing in
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MfaChallenge onVerify={handleVerifyMfa} onCancel={() => setMfaToken(null)} />
+            </CardContent>
+          </Card>
+        ) : (
+          /* Login/Signup Form */
+          <Card className="border-border/50 shadow-lg shadow-primary/5">
+            <CardHeader>
+              <CardTitle className="text-center">
+                {isLogin ? "Welcome Back" : "Create Account"}
+              </CardTitle>
+              <CardDescription className="text-center">
+                {isLogin 
+                  ? "Enter your credentials to access your dashboard" 
+                  : "Sign up to start detecting crypto fraud"
+                }
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input 
+                    id="email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="bg-secondary/50 border-border/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input 
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="bg-secondary/50 border-border/50"
+                  />
+                </div>
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
+                  {isLogin ? "Sign In" : "Create Account"}
                 </Button>
-                <Button variant="outline" className="border-border/50">
-                  <Github className="h-4 w-4 mr-2" />
-                  GitHub
+              </form>
+  
+              <div className="space-y-4">
+                <div className="relative">
+                  <Separator />
+                  <span className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 bg-card px-2 text-xs text-muted-foreground">
+                    or continue with
+                  </span>
+                </div>
+  
+                <div className="grid grid-cols-2 gap-4">
+                  <Button
+                    variant="outline"
+                    className="border-border/50"
+                    disabled={!getOidcProvider("google") || ssoPending !== null}
+                    title={getOidcProvider("google") ? undefined : "Google sign-in is not configured"}
+                    onClick={() => handleSso("google")}
+                  >
+                    {ssoPending === "google" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Chrome className="h-4 w-4 mr-2" />}
+                    Google
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="border-border/50"
+                    disabled={!getOidcProvider("github") || ssoPending !== null}
+                    title={getOidcProvider("github") ? undefined : "GitHub sign-in is not configured"}
+                    onClick={() => handleSso("github")}
+                  >
+                    {ssoPending === "github" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Github className="h-4 w-4 mr-2" />}
+                    GitHub
+                  </Button>
+                </div>
+              </div>
+  
+              <div className="text-center">
+                <Button
+                  variant="link"
+                  onClick={() => setIsLogin(!isLogin)}
+                  className="text-primary hover:text-primary/80"
+                >
+                  {isLogin 
+                    ? "Don't have an account? Sign up" 
+                    : "Already have an account? Sign in"
+                  }
                 </Button>
               </div>
-            </div>
-
-            <div className="text-center">
-              <Button
-                variant="link"
-                onClick={() => setIsLogin(!isLogin)}
-                className="text-primary hover:text-primary/80"
-              >
-                {isLogin 
-                  ? "Don't have an account? Sign up" 
-                  : "Already have an account? Sign in"
-                }
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { useAuth } from "@/auth/AuthContext";
+import { completeOidcSignIn } from "@/auth/oidc";
+import { errorMessage } from "@/lib/api";
+
+const OAuthCallbackPage = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { loginWithOidc } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // the pending state is single-use, so never run the exchange twice
+    if (started.current) return;
+    started.current = true;
+    (async () => {
+      try {
+        const result = completeOidcSignIn(location.search);
+        await loginWithOidc(result);
+        navigate(result.returnTo || "/dashboard", { replace: true });
+      } catch (e) {
+        setError(errorMessage(e));
+      }
+    })();
+  }, [location.search, loginWithOidc, navigate]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {error ? <ShieldAlert className="h-5 w-5 text-destructive" /> : <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+            {error ? "Sign-in failed" : "Signing you in…"}
+          </CardTitle>
+          <CardDescription>{error ? "We couldn't complete single sign-on." : "Completing single sign-on."}</CardDescription>
+        </CardHeader>
+        {error && (
+          <CardContent className="space-y-4">
+            <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive break-words">
+              {error}
+            </div>
+            <Button asChild variant="outline" className="w-full border-border/50">
+              <Link to="/login">Back to sign in</Link>
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default OAuthCallbackPage;
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -19,7 +19,7 @@ import {
   Activity,
   Loader2,
 } from "lucide-react";
-import { format as formatDate } from "date-fns";
+import { format as formatDate, isValid, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
 import {
   ResponsiveContainer,
@@ -30,42 +30,22 @@ import {
   CartesianGrid,
   Tooltip,
 } from "recharts";
-import { useAuth } from "@/auth/AuthContext";
-
-const API = import.meta.env.VITE_API_BASE || "http://localhost:8000";
-
-type Chain = "eth" | "btc";
-
-type MonthlyPoint = {
-  month: string;              // e.g. 'Jan'
-  transactions: number;
-  fraudDetected: number;
-  falsePositives: number;
-};
-
-type MonthlyReportResp = {
-  points: MonthlyPoint[];
-};
-
-type QuickStatsResp = {
-  detectionRatePct: number;      // e.g. 98.7
-  falsePositivePct: number;      // e.g. 1.3
-  responseP95Ms: number;         // e.g. 1800
-  criticalCount: number;
-  activeCount: number;
-  resolvedToday: number;
-};
-
-type Template = {
-  id: string;
-  name: string;
-  description: string;
-  type: "summary" | "analysis" | "assessment" | "compliance";
-  icon: "Shield" | "BarChart3" | "TrendingUp" | "FileText" | "PieChart";
-  lastGenerated: string; // ISO date
-  size: string;          // e.g. "2.3 MB"
-  downloadUrl?: string;  // optional direct URL from API
-};
+import {
+  errorMessage,
+  reportsApi,
+  type Chain,
+  type GenerateReportBody,
+  type GenerateReportResp,
+  type MonthlyPoint,
+  type MonthlyReportResp,
+  type QuickStatsResp,
+  type ReportTemplate as Template,
+} from "@/lib/api";
+import { useCan } from "@/auth/useCan";
+import { useInvestigationRoute } from "@/wallet/useInvestigationRoute";
+import { getChain } from "@/lib/chains";
+import { validateAddress } from "@/lib/address";
+import ChainSelect from "@/components/ChainSelect";
 
 function iconForTemplate(icon: Template["icon"]) {
   switch (icon) {
@@ -89,116 +69,70 @@ function openDownload(url: string) {
   a.remove();
 }
 
+function paramDate(v: string | null) {
+  if (!v) return undefined;
+  const d = parseISO(v);
+  return isValid(d) ? d : undefined;
+}
+
 /** Hooks that call the API */
-function useMonthly(chain: Chain, address: string | null, token: string | null, months = 6) {
+function useMonthly(chain: Chain, address: string | null, months = 6) {
   return useQuery<MonthlyReportResp>({
-    queryKey: ["reports-monthly", chain, address, months, token],
-    queryFn: async () => {
-      const url = new URL(`${API}/api/reports/monthly`);
-      if (address) url.searchParams.set("address", address);
-      url.searchParams.set("chain", chain);
-      url.searchParams.set("months", String(months));
-      const res = await fetch(url.toString(), {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) throw new Error(await res.text());
-      return res.json();
-    },
+    queryKey: ["reports-monthly", chain, address, months],
+    queryFn: ({ signal }) => reportsApi.monthly({ chain, address, months }, signal),
     enabled: Boolean(address),
     refetchOnWindowFocus: false,
   });
 }
 
-function useQuickStats(chain: Chain, address: string | null, token: string | null) {
+function useQuickStats(chain: Chain, address: string | null) {
   return useQuery<QuickStatsResp>({
-    queryKey: ["reports-quick-stats", chain, address, token],
-    queryFn: async () => {
-      const url = new URL(`${API}/api/reports/quick-stats`);
-      if (address) url.searchParams.set("address", address);
-      url.searchParams.set("chain", chain);
-      const res = await fetch(url.toString(), {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) throw new Error(await res.text());
-      return res.json();
-    },
+    queryKey: ["reports-quick-stats", chain, address],
+    queryFn: ({ signal }) => reportsApi.quickStats({ chain, address }, signal),
     enabled: Boolean(address),
     refetchInterval: 15000,
     refetchOnWindowFocus: false,
   });
 }
 
-function useTemplates(token: string | null) {
+function useTemplates() {
   return useQuery<{ templates: Template[] }>({
-    queryKey: ["reports-templates", token],
-    queryFn: async () => {
-      const res = await fetch(`${API}/api/reports/templates`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) throw new Error(await res.text());
-      return res.json();
-    },
+    queryKey: ["reports-templates"],
+    queryFn: ({ signal }) => reportsApi.templates(signal),
     refetchOnWindowFocus: false,
   });
 }
 
-function useGenerateReport(token: string | null) {
-  return useMutation<
-    { reportId: string; status: "queued" | "ready"; downloadUrl?: string },
-    Error,
-    { from?: string; to?: string; reportType: string; format: string; chain: Chain; address: string | null }
-  >({
-    mutationFn: async (body) => {
-      const res = await fetch(`${API}/api/reports/generate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify(body),
-      });
-      if (!res.ok) throw new Error(await res.text());
-      return res.json();
-    },
+function useGenerateReport() {
+  return useMutation<GenerateReportResp, Error, GenerateReportBody>({
+    mutationFn: (body) => reportsApi.generate(body),
   });
 }
 
 const ReportsPage = () => {
-  const { token } = useAuth();
-
-  // Reuse the monitored address saved by Transactions page
-  const [address, setAddress] = useState<string | null>(() => localStorage.getItem("last_address"));
-  const [chain, setChain] = useState<Chain>(() => {
-    const a = localStorage.getItem("last_address") || "";
-    if (a.startsWith("0x") && a.length === 42) return "eth";
-    const lower = a.toLowerCase();
-    if (lower.startsWith("bc1") || lower.startsWith("tb1")) return "btc";
-    return "eth";
-  });
+  const can = useCan();
+  const canGenerate = can("reports:generate");
 
-  useEffect(() => {
-    // keep in sync if user changes address on other pages
-    const id = setInterval(() => {
-      const stored = localStorage.getItem("last_address");
-      if (stored && stored !== address) setAddress(stored);
-    }, 1000);
-    return () => clearInterval(id);
-  }, [address]);
+  // Reuse the wallet monitored on the Transactions page
+  const { address, chain, setChain, getParam, setParams } = useInvestigationRoute();
 
-  const [dateFrom, setDateFrom] = useState<Date>();
-  const [dateTo, setDateTo] = useState<Date>();
+  // date range lives in ?from=&to= so a report period can be shared
+  const dateFrom = paramDate(getParam("from"));
+  const dateTo = paramDate(getParam("to"));
+  const setDateFrom = (d?: Date) => setParams({ from: d ? formatDate(d, "yyyy-MM-dd") : null });
+  const setDateTo = (d?: Date) => setParams({ to: d ? formatDate(d, "yyyy-MM-dd") : null });
   const [reportType, setReportType] = useState("all");
   const [format, setFormat] = useState("pdf");
 
   const months = 6;
   const { data: monthly, isLoading: monthlyLoading, isError: monthlyErr, error: monthlyErrObj } =
-    useMonthly(chain, address, token, months);
+    useMonthly(chain, address, months);
   const { data: quick, isLoading: quickLoading, isError: quickErr, error: quickErrObj } =
-    useQuickStats(chain, address, token);
+    useQuickStats(chain, address);
   const { data: tpl, isLoading: tplLoading, isError: tplErr, error: tplErrObj } =
-    useTemplates(token);
+    useTemplates();
 
-  const gen = useGenerateReport(token);
+  const gen = useGenerateReport();
 
   const monthlyData = useMemo<MonthlyPoint[]>(
     () => monthly?.points ?? [],
@@ -243,13 +177,18 @@ const ReportsPage = () => {
           </h1>
           <p className="text-muted-foreground">
             {address ? (
-              <>For <span className="font-mono">{chain.toUpperCase()} • {address}</span></>
+              <>For <span className="font-mono">{getChain(chain).name} • {address}</span></>
             ) : (
               <>Set a wallet on the Transactions page to start.</>
             )}
           </p>
         </div>
-        <Button className="bg-primary hover:bg-primary/90" onClick={handleGenerate} disabled={gen.isPending || !address}>
+        <Button
+          className="bg-primary hover:bg-primary/90"
+          onClick={handleGenerate}
+          disabled={gen.isPending || !address || !canGenerate}
+          title={canGenerate ? undefined : "Your role cannot generate reports"}
+        >
           {gen.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
           Generate Report
         </Button>
@@ -299,15 +238,12 @@ const ReportsPage = () => {
 
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Chain</label>
-                  <Select value={chain} onValueChange={(v) => setChain(v as Chain)}>
-                    <SelectTrigger className="bg-secondary/50 border-border/50">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="eth">Ethereum</SelectItem>
-                      <SelectItem value="btc">Bitcoin</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <ChainSelect
+                    value={chain}
+                    onChange={setChain}
+                    family={address ? validateAddress(address).family : null}
+                    className="w-full"
+                  />
                 </div>
               </div>
 
@@ -367,7 +303,12 @@ const ReportsPage = () => {
                 </div>
               </div>
 
-              <Button className="w-full bg-primary hover:bg-primary/90" onClick={handleGenerate} disabled={gen.isPending || !address}>
+              <Button
+                className="w-full bg-primary hover:bg-primary/90"
+                onClick={handleGenerate}
+                disabled={gen.isPending || !address || !canGenerate}
+                title={canGenerate ? undefined : "Your role cannot generate reports"}
+              >
                 {gen.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
                 Generate Report
               </Button>
@@ -386,7 +327,7 @@ const ReportsPage = () => {
             <CardContent>
               {monthlyErr && (
                 <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
-                  {(monthlyErrObj as Error)?.message || "Failed to load monthly report"}
+                  {monthlyErrObj ? errorMessage(monthlyErrObj) : "Failed to load monthly report"}
                 </div>
               )}
               <ResponsiveContainer width="100%" height={300}>
@@ -438,7 +379,7 @@ const ReportsPage = () => {
             <CardContent className="space-y-4">
               {quickErr && (
                 <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
-                  {(quickErrObj as Error)?.message || "Failed to load quick stats"}
+                  {quickErrObj ? errorMessage(quickErrObj) : "Failed to load quick stats"}
                 </div>
               )}
 
@@ -519,7 +460,7 @@ const ReportsPage = () => {
             <CardContent className="space-y-3">
               {tplErr && (
                 <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
-                  {(tplErrObj as Error)?.message || "Failed to load templates"}
+                  {tplErrObj ? errorMessage(tplErrObj) : "Failed to load templates"}
                 </div>
               )}
               {(tpl?.templates ?? []).map((template) => {
@@ -550,7 +491,7 @@ const ReportsPage = () => {
                           if (template.downloadUrl) {
                             openDownload(template.downloadUrl);
                           } else {
-                            openDownload(`${API}/api/reports/download/${template.id}`);
+                            openDownload(reportsApi.downloadUrl(template.id));
                           }
                         }}
                       >
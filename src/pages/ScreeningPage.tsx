@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, ExternalLink, FileUp, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCan } from "@/auth/useCan";
+import { errorMessage, type Blocklist } from "@/lib/api";
+import { explorerTxUrl, getChain } from "@/lib/chains";
+import { downloadFile } from "@/lib/download";
+import { auditCsv } from "@/screening/audit";
+import { BLOCKLIST_ENDPOINT } from "@/screening/sources";
+import {
+  useBlocklists,
+  useRefreshEndpointLists,
+  useRemoveUploadedList,
+  useScreeningAudit,
+} from "@/screening/useScreening";
+import UploadBlocklistDialog from "@/components/screening/UploadBlocklistDialog";
+
+const MAX_AUDIT_ROWS = 200;
+
+const ScreeningPage = () => {
+  const { toast } = useToast();
+  const can = useCan();
+  const canManage = can("screening:manage");
+
+  const { lists, endpoint, uploads } = useBlocklists();
+  const refreshEndpoint = useRefreshEndpointLists();
+  const remove = useRemoveUploadedList();
+  const audit = useScreeningAudit();
+  const hits = [...(audit.data ?? [])].sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [removing, setRemoving] = useState<Blocklist | null>(null);
+
+  const handleRemove = async () => {
+    if (!removing) return;
+    const l = removing;
+    setRemoving(null);
+    try {
+      await remove.mutateAsync(l.id);
+      toast({ title: "Blocklist removed", description: `${l.name} (version ${l.version})` });
+    } catch (err) {
+      toast({ title: "Failed to remove blocklist", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  const exportAudit = () => {
+    const stamp = new Date().toISOString().replace(/[:T]/g, "-").split(".")[0];
+    downloadFile(auditCsv(hits), `screening_audit_${stamp}.csv`, "text/csv;charset=utf-8");
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Sanctions Screening
+          </h1>
+          <p className="text-muted-foreground">
+            Every sender and recipient is checked against these lists; a match raises a critical alert
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="border-border/50"
+            onClick={refreshEndpoint}
+            disabled={!BLOCKLIST_ENDPOINT || endpoint.isFetching}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${endpoint.isFetching ? "animate-spin" : ""}`} />
+            Refresh Feed
+          </Button>
+          <Button className="bg-primary hover:bg-primary/90" onClick={() => setUploadOpen(true)} disabled={!canManage}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Upload List
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-border/50">
+        <CardHeader>
+          <CardTitle>Blocklists</CardTitle>
+          <CardDescription>
+            {BLOCKLIST_ENDPOINT ? (
+              <>
+                Feed: <span className="font-mono">{BLOCKLIST_ENDPOINT}</span>
+              </>
+            ) : (
+              "Feed disabled"
+            )}{" "}
+            · uploads are kept in this browser
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {endpoint.isError && (
+            <div className="mb-4 p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+              Blocklist feed unavailable: {errorMessage(endpoint.error)}
+            </div>
+          )}
+          <div className="rounded-md border border-border/50 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border/50 hover:bg-muted/20">
+                  <TableHead>List</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead className="text-right">Addresses</TableHead>
+                  <TableHead>Loaded</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lists.map((l) => (
+                  <TableRow key={l.id} className="border-border/50 hover:bg-muted/10">
+                    <TableCell className="font-medium">{l.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="border-border/50">
+                        {l.source === "endpoint" ? "Feed" : "Upload"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{l.version}</TableCell>
+                    <TableCell className="text-right">{l.entries.length.toLocaleString()}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{new Date(l.loadedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {l.source === "upload" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive"
+                          title="Remove"
+                          onClick={() => setRemoving(l)}
+                          disabled={!canManage}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {(endpoint.isLoading || uploads.isLoading) && lists.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="h-4 w-4 animate-spin inline text-muted-foreground" />
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!endpoint.isLoading && !uploads.isLoading && lists.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No blocklists loaded; transfers are not being screened.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Screening Hits</CardTitle>
+              <CardDescription>
+                Audit trail of matches recorded for the whole team, newest first, with the list version that matched
+              </CardDescription>
+            </div>
+            <Button variant="outline" className="border-border/50" onClick={exportAudit} disabled={!hits.length}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {audit.isError && (
+            <div className="mb-4 p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+              {errorMessage(audit.error)}
+            </div>
+          )}
+          <div className="rounded-md border border-border/50 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border/50 hover:bg-muted/20">
+                  <TableHead>Detected</TableHead>
+                  <TableHead>Chain</TableHead>
+                  <TableHead>Transaction</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>List</TableHead>
+                  <TableHead>Version</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hits.slice(0, MAX_AUDIT_ROWS).map((h) => (
+                  <TableRow
+                    key={`${h.chain}:${h.txHash}:${h.role}:${h.listId}:${h.listVersion}`}
+                    className="border-border/50 hover:bg-muted/10"
+                  >
+                    <TableCell className="text-xs text-muted-foreground">{new Date(h.detectedAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-xs">{getChain(h.chain).name}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <a
+                        href={explorerTxUrl(h.chain, h.txHash)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 hover:text-primary"
+                        title={h.txHash}
+                      >
+                        {h.txHash.slice(0, 10)}…
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <span className="text-muted-foreground">{h.role}</span>{" "}
+                      <span className="font-mono break-all">{h.address}</span>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {h.listName}
+                      {h.reference && <div className="text-xs text-muted-foreground">entry {h.reference}</div>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{h.listVersion}</TableCell>
+                  </TableRow>
+                ))}
+                {audit.isSuccess && hits.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No blocklisted counterparties seen yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          {hits.length > MAX_AUDIT_ROWS && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Showing the latest {MAX_AUDIT_ROWS} of {hits.length} hits; the CSV has all of them.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <UploadBlocklistDialog open={uploadOpen} onOpenChange={setUploadOpen} />
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Stop screening against this list?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removing?.name} (version {removing?.version}). Hits already recorded stay in the audit trail.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ScreeningPage;
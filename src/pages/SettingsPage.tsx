@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,8 +7,8 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   User,
   Key,
@@ -16,182 +16,61 @@ import {
   Shield,
   Palette,
   Monitor,
-  Eye,
-  EyeOff,
-  Copy,
-  RefreshCw,
   Save,
   Loader2,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/auth/AuthContext";
-
-const API = import.meta.env.VITE_API_BASE || "http://localhost:8000";
-
-/* ----------------------------- Types & helpers ---------------------------- */
-
-type UserMe = {
-  id: number;
-  email: string;
-  full_name?: string | null;
-  first_name?: string | null;
-  last_name?: string | null;
-  phone?: string | null;
-  avatar_url?: string | null;
-};
-
-type ApiKeyMeta = {
-  masked: string;         // e.g. "sk_live_•••••••••••••••••••••••1234"
-  createdAt?: string;
-  active?: boolean;
-};
-
-type Notifications = {
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-  fraudAlerts: boolean;
-  weeklyReports: boolean;
-};
-
-function authFetch(url: string, token: string | null, init?: RequestInit) {
-  return fetch(url, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      ...(init?.headers || {}),
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    },
-  });
-}
-
-function errText(e: unknown) {
-  if (e instanceof Error) return e.message;
-  try {
-    return JSON.stringify(e);
-  } catch {
-    return String(e);
-  }
-}
+import TwoFactorSettings from "@/components/settings/TwoFactorSettings";
+import SessionSettings from "@/components/settings/SessionSettings";
+import ApiKeysSettings from "@/components/settings/ApiKeysSettings";
+import { errorMessage, settingsApi, type Fiat, type Notifications, type UserMe } from "@/lib/api";
+import { FIATS } from "@/pricing/prices";
+import { getPriceSource } from "@/pricing/priceSources";
+import { useFiatCurrency } from "@/pricing/useFiat";
 
 /* --------------------------------- Hooks --------------------------------- */
 
 function useMe(token: string | null) {
   return useQuery<UserMe>({
     queryKey: ["me", token],
-    queryFn: async () => {
-      const r = await authFetch(`${API}/auth/me`, token);
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
+    queryFn: ({ signal }) => settingsApi.me(signal),
     enabled: !!token,
     staleTime: 30_000,
   });
 }
 
-function useProfileUpdate(token: string | null) {
+function useProfileUpdate() {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: async (body: Partial<UserMe>) => {
-      const r = await authFetch(`${API}/api/settings/profile`, token, {
-        method: "PUT",
-        body: JSON.stringify(body),
-      });
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
+    mutationFn: (body: Partial<UserMe>) => settingsApi.updateProfile(body),
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["me"] });
     },
   });
 }
 
-function useApiKey(token: string | null) {
-  return useQuery<ApiKeyMeta>({
-    queryKey: ["api-key", token],
-    queryFn: async () => {
-      const r = await authFetch(`${API}/api/settings/api-key`, token);
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
-    enabled: !!token,
-  });
-}
-
-function useApiKeyReveal(token: string | null) {
-  return useMutation<{ apiKey: string }>({
-    mutationFn: async () => {
-      const r = await authFetch(`${API}/api/settings/api-key/reveal`, token, { method: "POST" });
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
-  });
-}
-
-function useApiKeyRotate(token: string | null) {
-  const qc = useQueryClient();
-  return useMutation<{ apiKey: string }>({
-    mutationFn: async () => {
-      const r = await authFetch(`${API}/api/settings/api-key/rotate`, token, { method: "POST" });
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ["api-key"] });
-    },
-  });
-}
-
 function useNotifications(token: string | null) {
   return useQuery<Notifications>({
     queryKey: ["notifications", token],
-    queryFn: async () => {
-      const r = await authFetch(`${API}/api/settings/notifications`, token);
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
+    queryFn: ({ signal }) => settingsApi.notifications(signal),
     enabled: !!token,
   });
 }
 
-function useNotificationsUpdate(token: string | null) {
+function useNotificationsUpdate() {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: async (body: Notifications) => {
-      const r = await authFetch(`${API}/api/settings/notifications`, token, {
-        method: "PUT",
-        body: JSON.stringify(body),
-      });
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
+    mutationFn: (body: Notifications) => settingsApi.updateNotifications(body),
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["notifications"] });
     },
   });
 }
 
-function useChangePassword(token: string | null) {
+function useChangePassword() {
   return useMutation({
-    mutationFn: async (body: { current: string; new: string }) => {
-      const r = await authFetch(`${API}/api/settings/security/change-password`, token, {
-        method: "POST",
-        body: JSON.stringify(body),
-      });
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
-  });
-}
-
-function useSignoutOthers(token: string | null) {
-  return useMutation({
-    mutationFn: async () => {
-      const r = await authFetch(`${API}/api/settings/security/signout-others`, token, {
-        method: "POST",
-      });
-      if (!r.ok) throw new Error(await r.text());
-      return r.json();
-    },
+    mutationFn: (body: { current: string; new: string }) => settingsApi.changePassword(body),
   });
 }
 
@@ -203,20 +82,17 @@ const SettingsPage = () => {
 
   // Profile
   const me = useMe(token);
-  const updateProfile = useProfileUpdate(token);
-
-  // API key
-  const apiKey = useApiKey(token);
-  const revealKey = useApiKeyReveal(token);
-  const rotateKey = useApiKeyRotate(token);
+  const updateProfile = useProfileUpdate();
 
   // Notifications
   const notif = useNotifications(token);
-  const saveNotif = useNotificationsUpdate(token);
+  const saveNotif = useNotificationsUpdate();
 
   // Security
-  const changePw = useChangePassword(token);
-  const signoutOthers = useSignoutOthers(token);
+  const changePw = useChangePassword();
+
+  // Appearance
+  const [fiatCurrency, setFiatCurrency] = useFiatCurrency();
 
   // Local controlled inputs (prefilled from /auth/me and /notifications)
   const [firstName, setFirstName] = useState("");
@@ -224,9 +100,6 @@ const SettingsPage = () => {
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
 
-  const [showApiKey, setShowApiKey] = useState(false);
-  const [revealedKey, setRevealedKey] = useState<string | null>(null);
-
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [pushNotifications, setPushNotifications] = useState(true);
   const [fraudAlerts, setFraudAlerts] = useState(true);
@@ -251,32 +124,6 @@ const SettingsPage = () => {
     }
   }, [notif.data]);
 
-  const handleCopyApiKey = async () => {
-    try {
-      // If we have a one-time reveal endpoint, call it when user asks to copy
-      if (!revealedKey) {
-        const r = await revealKey.mutateAsync();
-        setRevealedKey(r.apiKey);
-        await navigator.clipboard.writeText(r.apiKey);
-      } else {
-        await navigator.clipboard.writeText(revealedKey);
-      }
-      toast({ title: "API Key Copied", description: "API key has been copied to clipboard" });
-    } catch (e) {
-      toast({ title: "Could not copy API key", description: errText(e), variant: "destructive" });
-    }
-  };
-
-  const handleGenerateNewKey = async () => {
-    try {
-      const r = await rotateKey.mutateAsync();
-      setRevealedKey(r.apiKey); // show the new one (only once)
-      toast({ title: "New API Key Generated", description: "Your previous API key has been revoked" });
-    } catch (e) {
-      toast({ title: "Failed to rotate key", description: errText(e), variant: "destructive" });
-    }
-  };
-
   const handleSaveProfile = async () => {
     try {
       await updateProfile.mutateAsync({
@@ -287,7 +134,7 @@ const SettingsPage = () => {
       });
       toast({ title: "Profile Updated", description: "Your profile information has been saved successfully" });
     } catch (e) {
-      toast({ title: "Failed to update profile", description: errText(e), variant: "destructive" });
+      toast({ title: "Failed to update profile", description: errorMessage(e), variant: "destructive" });
     }
   };
 
@@ -296,7 +143,7 @@ const SettingsPage = () => {
       await saveNotif.mutateAsync({ emailNotifications, pushNotifications, fraudAlerts, weeklyReports });
       toast({ title: "Preferences Saved", description: "Notification preferences have been updated" });
     } catch (e) {
-      toast({ title: "Failed to save preferences", description: errText(e), variant: "destructive" });
+      toast({ title: "Failed to save preferences", description: errorMessage(e), variant: "destructive" });
     }
   };
 
@@ -309,16 +156,7 @@ const SettingsPage = () => {
       await changePw.mutateAsync({ current, new: next });
       toast({ title: "Password Updated", description: "Your password has been changed" });
     } catch (e) {
-      toast({ title: "Failed to change password", description: errText(e), variant: "destructive" });
-    }
-  };
-
-  const handleSignoutOthers = async () => {
-    try {
-      await signoutOthers.mutateAsync();
-      toast({ title: "Signed out", description: "All other sessions have been signed out" });
-    } catch (e) {
-      toast({ title: "Failed to sign out sessions", description: errText(e), variant: "destructive" });
+      toast({ title: "Failed to change password", description: errorMessage(e), variant: "destructive" });
     }
   };
 
@@ -327,12 +165,6 @@ const SettingsPage = () => {
   const [pwNew, setPwNew] = useState("");
   const [pwConfirm, setPwConfirm] = useState("");
 
-  const maskedKey = useMemo(() => {
-    if (revealedKey) return revealedKey; // if revealed, show full once
-    if (apiKey.data?.masked) return apiKey.data.masked;
-    return "sk_live_••••••••••••••••••••••••••••••••";
-  }, [apiKey.data?.masked, revealedKey]);
-
   return (
     <div className="space-y-6 animate-fade-in">
       <div>
@@ -452,79 +284,10 @@ const SettingsPage = () => {
           <Card className="border-border/50">
             <CardHeader>
               <CardTitle>API Key Management</CardTitle>
-              <CardDescription>Manage your API keys for external integrations</CardDescription>
+              <CardDescription>One key per integration, each with its own scopes, expiry and IP allowlist</CardDescription>
             </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-4">
-                <div>
-                  <Label className="text-sm font-medium">Production API Key</Label>
-                  <div className="flex items-center gap-2 mt-2">
-                    <Input
-                      value={showApiKey ? (revealedKey || maskedKey) : "sk_live_••••••••••••••••••••••••••••••••"}
-                      readOnly
-                      className="bg-secondary/50 border-border/50 font-mono"
-                    />
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      onClick={() => setShowApiKey(!showApiKey)}
-                      className="border-border/50"
-                    >
-                      {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      onClick={handleCopyApiKey}
-                      className="border-border/50"
-                      disabled={revealKey.isPending}
-                      title="Copy (reveals once via API)"
-                    >
-                      {revealKey.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Copy className="h-4 w-4" />}
-                    </Button>
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Keep your API key secure. Do not share it in publicly accessible areas.
-                  </p>
-                </div>
-
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={handleGenerateNewKey}
-                    disabled={rotateKey.isPending}
-                  >
-                    {rotateKey.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
-                    Regenerate Key
-                  </Button>
-                  <Badge variant="outline" className={`border-success/30 ${apiKey.data?.active ? "text-success" : "text-muted-foreground"}`}>
-                    {apiKey.data?.active ? "Active" : "Inactive"}
-                  </Badge>
-                  {apiKey.isLoading && <span className="text-xs text-muted-foreground ml-2">Loading…</span>}
-                </div>
-              </div>
-
-              <Separator />
-
-              <div className="space-y-4">
-                <h4 className="text-sm font-medium">API Usage Statistics</h4>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  {/* These can be wired to /api/settings/api-usage if you add it later */}
-                  <div className="p-4 bg-secondary/20 rounded-lg border border-border/50">
-                    <div className="text-2xl font-bold text-primary">—</div>
-                    <div className="text-sm text-muted-foreground">Requests Today</div>
-                  </div>
-                  <div className="p-4 bg-secondary/20 rounded-lg border border-border/50">
-                    <div className="text-2xl font-bold text-success">—</div>
-                    <div className="text-sm text-muted-foreground">Uptime</div>
-                  </div>
-                  <div className="p-4 bg-secondary/20 rounded-lg border border-border/50">
-                    <div className="text-2xl font-bold text-warning">—</div>
-                    <div className="text-sm text-muted-foreground">Avg Response</div>
-                  </div>
-                </div>
-              </div>
+            <CardContent>
+              <ApiKeysSettings />
             </CardContent>
           </Card>
         </TabsContent>
@@ -633,54 +396,11 @@ const SettingsPage = () => {
 
                 <Separator />
 
-                <div>
-                  <Label className="text-sm font-medium">Two-Factor Authentication</Label>
-                  <div className="flex items-center justify-between mt-2">
-                    <div>
-                      <p className="text-sm text-muted-foreground">Add an extra layer of security to your account</p>
-                      <Badge variant="outline" className="border-warning/30 text-warning mt-2">
-                        Not Enabled
-                      </Badge>
-                    </div>
-                    <Button
-                      variant="outline"
-                      className="border-primary/30 text-primary"
-                      onClick={() =>
-                        toast({
-                          title: "2FA",
-                          description:
-                            "Hook this button to /api/settings/2fa/enable to get an OTP secret or QR.",
-                        })
-                      }
-                    >
-                      Enable 2FA
-                    </Button>
-                  </div>
-                </div>
+                <TwoFactorSettings />
 
                 <Separator />
 
-                <div>
-                  <Label className="text-sm font-medium">Session Management</Label>
-                  <div className="space-y-2 mt-2">
-                    <div className="flex items-center justify-between p-3 bg-secondary/20 rounded-lg border border-border/50">
-                      <div>
-                        <p className="text-sm font-medium">Current Session</p>
-                        <p className="text-xs text-muted-foreground">Browser session • Active now</p>
-                      </div>
-                      <Badge className="bg-success/20 text-success border-success/30">Current</Badge>
-                    </div>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={handleSignoutOthers}
-                      disabled={signoutOthers.isPending}
-                    >
-                      {signoutOthers.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
-                      Sign Out All Other Sessions
-                    </Button>
-                  </div>
-                </div>
+                <SessionSettings />
               </div>
             </CardContent>
           </Card>
@@ -737,6 +457,32 @@ const SettingsPage = () => {
                     <div className="w-6 h-6 rounded-full bg-accent"></div>
                   </div>
                 </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Fiat Currency</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Transaction values, exports and dashboard totals are converted at each transfer's daily price
+                    ({getPriceSource().name.toLowerCase()}).
+                  </p>
+                  <Select
+                    value={fiatCurrency ?? "off"}
+                    onValueChange={(v) => setFiatCurrency(v === "off" ? null : (v as Fiat))}
+                  >
+                    <SelectTrigger className="w-48 bg-secondary/50 border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIATS.map((f) => (
+                        <SelectItem key={f} value={f}>
+                          {f}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="off">Native units only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,310 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2, RefreshCw, Route } from "lucide-react";
+import { errorMessage, txValue, type TxItem } from "@/lib/api";
+import { getChain } from "@/lib/chains";
+import { downloadFile } from "@/lib/download";
+import { shortAddress } from "@/lib/flowGraph";
+import { useAnalyze, useFullHistory } from "@/hooks/use-analyze";
+import { investigationPath, useInvestigationRoute } from "@/wallet/useInvestigationRoute";
+import { TAINT_MODELS, type TaintModel } from "@/tracing/taint";
+import { endAmount, forwarded, nodeStatus, summarizeTrace, type NodeStatus, type TraceResult } from "@/tracing/trace";
+import { traceReportCsv, traceReportJson } from "@/tracing/report";
+import { useTrace } from "@/tracing/useTrace";
+import type { LabelLookup } from "@/labels/labels";
+import { useLabelLookup } from "@/labels/useLabels";
+import LabeledAddress from "@/components/labels/LabeledAddress";
+
+const HOP_CHOICES = [2, 3, 4, 5, 6];
+const DEFAULT_HOPS = 3;
+
+const STATUS_BADGE: Record<NodeStatus, { label: string; className: string }> = {
+  exchange: { label: "Exchange", className: "bg-primary/20 text-primary border-primary/30" },
+  mixer: { label: "Mixer", className: "bg-destructive/20 text-destructive border-destructive/30" },
+  traced: { label: "Traced", className: "bg-success/20 text-success border-success/30" },
+  incomplete: { label: "Partial history", className: "bg-warning/20 text-warning border-warning/30" },
+  "hop-limit": { label: "Hop limit", className: "bg-muted text-muted-foreground border-border/50" },
+  revisited: { label: "Seen earlier", className: "bg-muted text-muted-foreground border-border/50" },
+  skipped: { label: "Not followed", className: "bg-warning/20 text-warning border-warning/30" },
+  error: { label: "Error", className: "bg-destructive/20 text-destructive border-destructive/30" },
+};
+
+const isFlagged = (t: TxItem) => t.riskLevel !== "low" || !!t.isMixerInvolved;
+
+function exportReport(r: TraceResult, format: "csv" | "json", labelOf: LabelLookup) {
+  const stamp = new Date().toISOString().replace(/[:T]/g, "-").split(".")[0];
+  const base = `trace_${r.chain}_${r.start.txHash.slice(0, 10)}_${r.model}_${stamp}`;
+  if (format === "csv") downloadFile(traceReportCsv(r, labelOf), `${base}.csv`, "text/csv;charset=utf-8");
+  else downloadFile(traceReportJson(r, labelOf), `${base}.json`, "application/json");
+}
+
+const TracePage = () => {
+  const { address, chain, getParam, setParams } = useInvestigationRoute();
+  const navigate = useNavigate();
+  const info = getChain(chain);
+  const fmt = (n: number) => `${n.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${info.unit}`;
+
+  const txHash = getParam("tx");
+  const model = (TAINT_MODELS.some((m) => m.id === getParam("model")) ? getParam("model") : "fifo") as TaintModel;
+  const hopsParam = Number(getParam("hops"));
+  const hops = HOP_CHOICES.includes(hopsParam) ? hopsParam : DEFAULT_HOPS;
+
+  // the start transaction is usually recent; older ones need the full history
+  const { data, isLoading } = useAnalyze(chain, address);
+  const recent = useMemo(() => data?.items ?? [], [data]);
+  const inRecent = recent.find((t) => t.txHash === txHash) ?? null;
+  const history = useFullHistory(chain, address, !!txHash && !!data && !inRecent);
+  const start = inRecent ?? history.data?.items.find((t) => t.txHash === txHash) ?? null;
+  const flagged = useMemo(() => recent.filter(isFlagged), [recent]);
+
+  const trace = useTrace(chain, start, model, hops);
+  const labelOf = useLabelLookup(chain);
+  const result = trace.result;
+  const summary = useMemo(() => (result ? summarizeTrace(result) : null), [result]);
+
+  const modelInfo = TAINT_MODELS.find((m) => m.id === model);
+  const pct = (v: number) => (summary && summary.amount > 0 ? (v / summary.amount) * 100 : 0);
+  const cards = summary
+    ? [
+        // under an upper-bound model a larger opening balance keeps more taint in place
+        { label: "Reached exchanges", value: summary.exchanges, className: "text-primary", bound: "At most" },
+        { label: "Reached mixers", value: summary.mixers, className: "text-destructive", bound: "At most" },
+        { label: "Still held", value: summary.held, className: "text-success", bound: "At least" },
+        {
+          label: "Not followed",
+          value: summary.unfollowed + summary.dust,
+          className: "text-muted-foreground",
+          bound: null,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Fund Tracing
+          </h1>
+          <p className="text-muted-foreground">
+            {address ? (
+              <>
+                Follow tainted funds out of <span className="font-mono">{address}</span> on <span>{info.name}</span>
+              </>
+            ) : (
+              <>Set a wallet on the Transactions page to trace its funds.</>
+            )}
+          </p>
+        </div>
+        {result && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={trace.rerun} disabled={trace.running}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${trace.running ? "animate-spin" : ""}`} />
+              Re-run
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button className="bg-primary hover:bg-primary/90" disabled={trace.running}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export report
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportReport(result, "csv", labelOf)}>CSV (addresses)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportReport(result, "json", labelOf)}>JSON (full report)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+      </div>
+
+      {address && (
+        <Card className="border-border/50">
+          <CardHeader>
+            <CardTitle>Trace setup</CardTitle>
+            <CardDescription>
+              Pick a flagged transaction; its full amount is tainted at the recipient and followed from there.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-3">
+            <Select value={txHash ?? ""} onValueChange={(v) => setParams({ tx: v })}>
+              <SelectTrigger className="w-full md:w-[420px] bg-secondary/50 border-border/50 font-mono text-xs">
+                <SelectValue placeholder={isLoading ? "Loading transactions…" : "Choose a flagged transaction"} />
+              </SelectTrigger>
+              <SelectContent>
+                {txHash && !flagged.some((t) => t.txHash === txHash) && (
+                  <SelectItem value={txHash} className="font-mono text-xs">
+                    {shortAddress(txHash)}
+                  </SelectItem>
+                )}
+                {flagged.map((t) => (
+                  <SelectItem key={t.txHash} value={t.txHash} className="font-mono text-xs">
+                    {shortAddress(t.txHash)} · {fmt(txValue(t))} → {shortAddress(t.to)} · risk {t.riskScore.toFixed(0)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={model} onValueChange={(v) => setParams({ model: v }, { replace: true })}>
+              <SelectTrigger className="w-[160px] bg-secondary/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TAINT_MODELS.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>
+                    <span title={m.description}>{m.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(hops)} onValueChange={(v) => setParams({ hops: v }, { replace: true })}>
+              <SelectTrigger className="w-[120px] bg-secondary/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOP_CHOICES.map((h) => (
+                  <SelectItem key={h} value={String(h)}>
+                    {h} hops
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="w-full text-xs text-muted-foreground">
+              {modelInfo?.description}.{" "}
+              {modelInfo?.upperBound &&
+                "Balances held before the first tainted inflow are unknown, so amounts passed on are upper bounds. "}
+              Exchanges and mixers end a path; they come from address labels and from watchlist entries tagged “exchange”
+              or “mixer”. Each address is read back to its first tainted inflow; one too busy to read that far is marked
+              “Partial history” and its remainder counts as not followed.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {txHash && !start && (history.isFetching || isLoading) && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Looking up {shortAddress(txHash)}
+          {history.progress ? ` (${history.progress.loaded}/${history.progress.total})` : ""}…
+        </div>
+      )}
+      {txHash && !start && history.isFetched && !history.isFetching && (
+        <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+          Transaction {txHash} is not in this wallet's history.
+        </div>
+      )}
+      {trace.error && (
+        <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+          {errorMessage(trace.error)}
+        </div>
+      )}
+
+      {summary && result && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-4">
+            <Card className="border-border/50">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Traced amount</p>
+                <p className="text-2xl font-bold">{fmt(summary.amount)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {summary.addresses} addresses over {summary.hops} hop{summary.hops === 1 ? "" : "s"}
+                </p>
+              </CardContent>
+            </Card>
+            {cards.map((c) => (
+              <Card key={c.label} className="border-border/50">
+                <CardContent className="p-4 space-y-2">
+                  <p className="text-sm text-muted-foreground">{c.label}</p>
+                  <p className={`text-2xl font-bold ${c.className}`}>{fmt(c.value)}</p>
+                  <Progress value={pct(c.value)} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    {modelInfo?.upperBound && c.bound ? `${c.bound} ` : ""}
+                    {pct(c.value).toFixed(2)}% of the original
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {result.hops.map((h) => (
+            <Card key={h.hop} className="border-border/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Hop {h.hop}
+                  {trace.running && h.hop === result.hops.length && (
+                    <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {h.nodes.length} address{h.nodes.length === 1 ? "" : "es"} received{" "}
+                  {fmt(h.nodes.reduce((s, n) => s + n.received, 0))}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-border/50 hover:bg-muted/20">
+                      <TableHead>Address</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Forwarded</TableHead>
+                      <TableHead className="text-right">Ended here</TableHead>
+                      <TableHead className="text-right">Share</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...h.nodes]
+                      .sort((a, b) => b.received - a.received)
+                      .map((n) => {
+                        const status = nodeStatus(n);
+                        return (
+                          <TableRow key={n.id} className="border-border/50 hover:bg-muted/10">
+                            <TableCell>
+                              <button
+                                className="hover:text-primary"
+                                onClick={() => navigate(investigationPath("/transactions", chain, n.address))}
+                              >
+                                <LabeledAddress address={n.address} label={labelOf(n.address)} />
+                              </button>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={STATUS_BADGE[status].className} title={n.error}>
+                                {STATUS_BADGE[status].label}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{fmt(n.received)}</TableCell>
+                            <TableCell className="text-right">{n.outflows ? fmt(forwarded(n)) : "—"}</TableCell>
+                            <TableCell className="text-right">{fmt(endAmount(n))}</TableCell>
+                            <TableCell className="text-right">{pct(endAmount(n)).toFixed(2)}%</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      )}
+
+      {address && !txHash && (
+        <Card className="border-border/50">
+          <CardContent className="py-16 text-center text-muted-foreground">
+            <Route className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            {flagged.length || isLoading
+              ? "Choose a flagged transaction to start tracing."
+              : "No flagged transactions in the latest activity. Open one from the Transactions page to trace it."}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default TracePage;
@@ -1,112 +1,91 @@
-import { useState, useMemo, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Search, Filter, Download, Eye, AlertTriangle, Shield, Loader2 } from "lucide-react";
-import { useAuth } from "@/auth/AuthContext";
-
-const API = import.meta.env.VITE_API_BASE || "http://localhost:8000";
-
-type Chain = "eth" | "btc"; // polygon/bsc can be added later when adapters are enabled
-
-type TxItem = {
-  txHash: string;
-  from: string;
-  to: string;
-  value: number;          // native units (ETH or BTC)
-  timeStamp: number;      // seconds
-  riskScore: number;
-  riskLevel: "low" | "medium" | "high";
-  gasPriceGwei: number;
-  isMixerInvolved: boolean;
-};
-
-type AnalyzeResponse = { count: number; items: TxItem[] };
-
-function useAnalyze(chain: Chain, address: string | null, token: string | null) {
-  return useQuery<AnalyzeResponse>({
-    queryKey: ["analyze", chain, address, token],
-    queryFn: async () => {
-      const res = await fetch(`${API}/api/analyze/${chain}/${address}?page=1&offset=50`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) {
-        const txt = await res.text();
-        throw new Error(txt || `HTTP ${res.status}`);
-      }
-      return res.json();
-    },
-    enabled: Boolean(address && address.length > 0),
-    refetchInterval: 15000,
-    refetchOnWindowFocus: false,
-  });
-}
-
-function formatTs(ts: number) {
-  if (!ts) return "-";
-  const d = new Date(ts * 1000);
-  return d.toLocaleString();
-}
-
-// very light heuristic — good enough for demo
-function inferChainFromAddress(addr: string): Chain {
-  const a = addr.trim();
-  if (a.startsWith("0x") && a.length === 42) return "eth";
-  const lower = a.toLowerCase();
-  if (lower.startsWith("bc1") || lower.startsWith("tb1")) return "btc"; // bech32
-  if (/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(a)) return "btc";       // legacy/segwit (base58)
-  return "eth"; // default
-}
-
-function unitForChain(chain: Chain) {
-  return chain === "btc" ? "BTC" : "ETH";
-}
+import { Search, Filter, Download, Loader2 } from "lucide-react";
+import { errorMessage, type Chain, type Fiat, type TxItem } from "@/lib/api";
+import { PAGE_SIZES, historyQueryOptions, useAnalyzePage, useFullHistory } from "@/hooks/use-analyze";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { toCsvRow, withBom } from "@/lib/csv";
+import { chainsInFamily, explorerTxUrl, getChain, unitForChain } from "@/lib/chains";
+import { useFilteredTxs } from "@/hooks/use-filtered-txs";
+import type { TxFilters, TxSort } from "@/lib/txFilter";
+import { parseQuery } from "@/lib/txQuery";
+import {
+  DEFAULT_COLUMNS,
+  formatSort,
+  legacyFilterQuery,
+  parseColumns,
+  parseSort,
+  type TxColumnId,
+  type TxView,
+} from "@/lib/txViews";
+import { aggregateCounterparties, sortCounterparties, type CounterpartySort } from "@/lib/counterparties";
+import { describeAddress, validateAddress } from "@/lib/address";
+import { useInvestigationRoute } from "@/wallet/useInvestigationRoute";
+import { fiatValues } from "@/pricing/prices";
+import { useFiatValues } from "@/pricing/useFiat";
+import type { LabelLookup } from "@/labels/labels";
+import { useLabelLookup } from "@/labels/useLabels";
+import { useScreening } from "@/screening/useScreening";
+import ChainSelect from "@/components/ChainSelect";
+import EvmChainPicker from "@/components/EvmChainPicker";
+import TablePagination from "@/components/TablePagination";
+import TxTable from "@/components/transactions/TxTable";
+import ColumnChooser from "@/components/transactions/ColumnChooser";
+import SavedViewsMenu from "@/components/transactions/SavedViewsMenu";
+import FilterBuilder from "@/components/transactions/FilterBuilder";
+import TxDetailSheet from "@/components/transactions/TxDetailSheet";
+import CounterpartyTable from "@/components/transactions/CounterpartyTable";
 
 /** ---------- EXPORT HELPERS ---------- */
-function toCsv(rows: TxItem[], chain: Chain) {
+type ExportFiat = { currency: Fiat; values: (number | null)[] };
+
+function toCsv(rows: TxItem[], chain: Chain, labelOf: LabelLookup, fiat?: ExportFiat) {
   // consistent column order
-  const headers = ["txHash", "from", "to", `value(${unitForChain(chain)})`, "riskScore", "riskLevel", "gasPriceGwei", "timeStamp(ISO)", "isMixerInvolved"];
-  const escape = (v: unknown) => {
-    const s = `${v ?? ""}`;
-    // quote if contains comma, quote, or newline
-    if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
-    return s;
-  };
-  const lines = rows.map((r) => {
+  const headers = [
+    "chain",
+    "txHash",
+    "from",
+    "fromLabel",
+    "to",
+    "toLabel",
+    `value(${unitForChain(chain)})`,
+    ...(fiat ? [`value(${fiat.currency})`] : []),
+    "riskScore",
+    "riskLevel",
+    "gasPriceGwei",
+    "timeStamp(ISO)",
+    "isMixerInvolved",
+    "explorerUrl",
+  ];
+  const lines = rows.map((r, i) => {
     const iso = r.timeStamp ? new Date(r.timeStamp * 1000).toISOString() : "";
     const cols = [
+      chain,
       r.txHash,
       r.from,
+      labelOf(r.from)?.name ?? "",
       r.to,
+      labelOf(r.to)?.name ?? "",
       r.value,
+      ...(fiat ? [fiat.values[i]?.toFixed(2) ?? ""] : []),
       r.riskScore.toFixed(2),
       r.riskLevel,
       r.gasPriceGwei ?? 0,
       iso,
       r.isMixerInvolved ? "true" : "false",
+      explorerTxUrl(chain, r.txHash),
     ];
-    return cols.map(escape).join(",");
+    return toCsvRow(cols);
   });
-  // Add UTF-8 BOM for Excel compatibility
-  const bom = "\uFEFF";
-  return bom + [headers.join(","), ...lines].join("\n");
-}
-
-function downloadFile(content: string | Blob, filename: string, mime: string) {
-  const blob = content instanceof Blob ? content : new Blob([content], { type: mime });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
+  return withBom([toCsvRow(headers), ...lines].join("\n"));
 }
 
 function handleExport(opts: {
@@ -115,69 +94,158 @@ function handleExport(opts: {
   address: string | null;
   format: "csv" | "json";
   scope: "all" | "filtered";
+  labelOf: LabelLookup;
+  fiat?: ExportFiat;
 }) {
-  const { rows, chain, address, format, scope } = opts;
+  const { rows, chain, address, format, scope, labelOf, fiat } = opts;
   const stamp = new Date().toISOString().replace(/[:T]/g, "-").split(".")[0];
   const addrPart = (address || "address").slice(0, 10);
   const base = `${chain}_${addrPart}_${stamp}_${scope}`;
   if (format === "csv") {
-    const csv = toCsv(rows, chain);
+    const csv = toCsv(rows, chain, labelOf, fiat);
     downloadFile(csv, `${base}.csv`, "text/csv;charset=utf-8");
   } else {
-    downloadFile(JSON.stringify(rows, null, 2), `${base}.json`, "application/json");
+    const json = rows.map((r, i) => ({
+      ...r,
+      fromLabel: labelOf(r.from)?.name ?? null,
+      toLabel: labelOf(r.to)?.name ?? null,
+      ...(fiat ? { fiatValue: fiat.values[i], fiatCurrency: fiat.currency } : {}),
+    }));
+    downloadFile(JSON.stringify(json, null, 2), `${base}.json`, "application/json");
   }
 }
 /** ------------------------------------ */
 
 const TransactionsPage = () => {
-  const { token } = useAuth();
-  const [inputAddress, setInputAddress] = useState(() => localStorage.getItem("last_address") || "");
-  const [activeAddress, setActiveAddress] = useState<string | null>(() => localStorage.getItem("last_address"));
-  const [chain, setChain] = useState<Chain>(() => (activeAddress ? inferChainFromAddress(activeAddress) : "eth"));
-
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [riskFilter, setRiskFilter] = useState("all");
-
-  const { data, isLoading, isError, error, refetch, isFetching } = useAnalyze(chain, activeAddress, token);
+  const { address: activeAddress, chain, openWallet, setChain, getParam, setParams } = useInvestigationRoute();
+  const [inputAddress, setInputAddress] = useState(() => activeAddress || "");
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [pickingChainFor, setPickingChainFor] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
+  // follow the URL (back/forward) and changes made in other tabs
   useEffect(() => {
-    if (activeAddress) localStorage.setItem("last_address", activeAddress);
+    if (activeAddress) setInputAddress(activeAddress);
   }, [activeAddress]);
 
+  const handleAnalyze = () => {
+    const r = validateAddress(inputAddress);
+    if (!r.valid) {
+      setInputError(r.error ?? "Invalid address");
+      return;
+    }
+    if (r.network !== "mainnet") {
+      setInputError(`${describeAddress(r)}: only mainnet wallets can be analyzed`);
+      return;
+    }
+    setInputError(null);
+    setInputAddress(r.normalized!);
+    // same wallet: keep the chain from the selector; new EVM wallet: ask which network
+    if (r.family === "evm" && r.normalized !== activeAddress && chainsInFamily("evm").length > 1) {
+      setPickingChainFor(r.normalized!);
+      return;
+    }
+    openWallet(r.normalized!, r.family === getChain(chain).family ? chain : r.chain!);
+  };
+
+  // `q` holds the filter query; links from before the builder still carry the old dropdown params
+  const queryText =
+    getParam("q") ??
+    legacyFilterQuery({
+      status: getParam("status"),
+      risk: getParam("risk"),
+      direction: getParam("dir"),
+      mixer: getParam("mixer"),
+    });
+  const selectedTx = getParam("tx");
+  const setQueryText = (text: string) =>
+    setParams({ q: text || null, status: null, risk: null, dir: null, mixer: null, page: null });
+
+  const query = useMemo(() => {
+    const q = parseQuery(queryText);
+    return "kind" in q && q.children.length > 0 ? q : null;
+  }, [queryText]);
+  const filters: TxFilters = { query, wallet: activeAddress };
+  const sort = parseSort(getParam("sort"));
+  const columns = parseColumns(getParam("cols"));
+  const setSort = (next: TxSort) => setParams({ sort: formatSort(next) });
+  const setColumns = (next: TxColumnId[]) =>
+    setParams({ cols: next.join() === DEFAULT_COLUMNS.join() ? null : next.join(",") });
+  const applyView = (v: TxView) => {
+    setParams({
+      q: v.filters.query || null,
+      status: null,
+      risk: null,
+      dir: null,
+      mixer: null,
+      sort: formatSort(v.sort),
+      cols: v.columns.join() === DEFAULT_COLUMNS.join() ? null : v.columns.join(","),
+      page: null,
+    });
+  };
+
+  // Page through the server by default; "full history" pulls every page once so
+  // filters and exports see all of it, then pages locally.
+  const fullHistory = getParam("scope") === "all";
+  const sizeParam = Number(getParam("size"));
+  const pageSize = PAGE_SIZES.includes(sizeParam) ? sizeParam : 50;
+  const page = Math.max(1, Math.floor(Number(getParam("page"))) || 1);
+  const setPage = (p: number) => setParams({ page: p > 1 ? String(p) : null });
+  const setPageSize = (n: number) => setParams({ size: n === 50 ? null : String(n), page: null });
+  const setFullHistory = (on: boolean) => setParams({ scope: on ? "all" : null, page: null });
+
+  const pageQuery = useAnalyzePage(chain, activeAddress, page, pageSize, !fullHistory);
+  const history = useFullHistory(chain, activeAddress, fullHistory);
+  const { data, isLoading, isError, error, refetch, isFetching } = fullHistory ? history : pageQuery;
+
   const items = data?.items ?? [];
+  const total = data?.count ?? 0;
 
-  const filtered = useMemo(() => {
-    return items.filter((t) => {
-      const matchesStatus =
-        statusFilter === "all" ||
-        (statusFilter === "safe" && t.riskLevel === "low") ||
-        (statusFilter === "suspicious" && t.riskLevel === "medium") ||
-        (statusFilter === "fraud" && t.riskLevel === "high");
+  const { rows: filtered, pending: filtering } = useFilteredTxs(items, filters, sort);
+  const fiat = useFiatValues(chain, items);
+  const labelOf = useLabelLookup(chain);
+  const { screen } = useScreening(chain);
 
-      const matchesRisk =
-        riskFilter === "all" ||
-        (riskFilter === "low" && t.riskScore < 50) ||
-        (riskFilter === "medium" && t.riskScore >= 50 && t.riskScore < 80) ||
-        (riskFilter === "high" && t.riskScore >= 80);
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
 
-      return matchesStatus && matchesRisk;
-    });
-  }, [items, statusFilter, riskFilter]);
+  // counterparties summarize the same rows the table shows, filters included
+  const tab = getParam("tab") === "counterparties" ? "counterparties" : "transactions";
+  const [counterpartySort, setCounterpartySort] = useState<CounterpartySort>({ key: "txCount", dir: "desc" });
+  const { currency: fiatCurrency, valueOf: fiatOf } = fiat;
+  const counterparties = useMemo(() => {
+    if (tab !== "counterparties") return [];
+    const rows = aggregateCounterparties(filtered, activeAddress, fiatCurrency ? fiatOf : undefined);
+    return sortCounterparties(rows, counterpartySort);
+  }, [tab, filtered, activeAddress, fiatCurrency, fiatOf, counterpartySort]);
+  const showTransactionsWith = (address: string) =>
+    setParams({ tab: null, q: `counterparty:${address}`, status: null, risk: null, dir: null, mixer: null, page: null });
 
-  const getRiskBadge = (score: number) => {
-    if (score >= 80) return { label: "High", variant: "destructive" as const, icon: AlertTriangle };
-    if (score >= 50) return { label: "Medium", variant: "default" as const, icon: Eye };
-    return { label: "Low", variant: "secondary" as const, icon: Shield };
+  /** Adds fiat values in the display currency; a pricing failure still exports the native amounts. */
+  const exportRows = async (rows: TxItem[], format: "csv" | "json", scope: "all" | "filtered") => {
+    let fiatCol: ExportFiat | undefined;
+    if (fiat.currency) {
+      try {
+        fiatCol = { currency: fiat.currency, values: await fiatValues(chain, rows, fiat.currency) };
+      } catch (e) {
+        toast({ title: "Exported without fiat values", description: errorMessage(e), variant: "destructive" });
+      }
+    }
+    handleExport({ rows, chain, address: activeAddress, format, scope, labelOf, fiat: fiatCol });
   };
 
-  const getStatusBadge = (riskLevel: TxItem["riskLevel"]) => {
-    switch (riskLevel) {
-      case "high":
-        return { label: "Fraud", className: "bg-destructive/20 text-destructive border-destructive/30" };
-      case "medium":
-        return { label: "Suspicious", className: "bg-warning/20 text-warning border-warning/30" };
-      default:
-        return { label: "Safe", className: "bg-success/20 text-success border-success/30" };
+  /** "Export all" always means the whole history, fetched now if it is not loaded yet. */
+  const exportAll = async (format: "csv" | "json") => {
+    if (!activeAddress) return;
+    setExporting(true);
+    try {
+      const all = await queryClient.fetchQuery(historyQueryOptions(chain, activeAddress));
+      await exportRows(all.items, format, "all");
+    } catch (e) {
+      toast({ title: "Export failed", description: errorMessage(e), variant: "destructive" });
+    } finally {
+      setExporting(false);
     }
   };
 
@@ -191,32 +259,20 @@ const TransactionsPage = () => {
           <p className="text-muted-foreground">Monitor and analyze crypto transactions in real-time</p>
         </div>
         <div className="flex gap-2 items-center">
-          <Select value={chain} onValueChange={(v) => setChain(v as Chain)}>
-            <SelectTrigger className="w-[130px] bg-secondary/50 border-border/50">
-              <SelectValue placeholder="Chain" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="eth">Ethereum</SelectItem>
-              <SelectItem value="btc">Bitcoin</SelectItem>
-              {/* add polygon/bsc when adapters are enabled */}
-            </SelectContent>
-          </Select>
+          <ChainSelect value={chain} onChange={setChain} />
 
           <Input
-            placeholder={`Enter ${chain.toUpperCase()} address (e.g., ${chain === "eth" ? "0xd8dA6B..." : "bc1..."})`}
+            placeholder={`Enter ${getChain(chain).name} address (e.g., ${getChain(chain).family === "evm" ? "0xd8dA6B..." : "bc1..."})`}
             value={inputAddress}
-            onChange={(e) => setInputAddress(e.target.value)}
-            className="w-[340px] bg-secondary/50 border-border/50"
-          />
-          <Button
-            className="bg-primary hover:bg-primary/90"
-            onClick={() => {
-              if (!inputAddress.trim()) return;
-              const inferred = inferChainFromAddress(inputAddress);
-              if (inferred !== chain) setChain(inferred);
-              setActiveAddress(inputAddress.trim());
+            onChange={(e) => {
+              setInputAddress(e.target.value);
+              setInputError(null);
             }}
-          >
+            onKeyDown={(e) => e.key === "Enter" && handleAnalyze()}
+            aria-invalid={!!inputError}
+            className={`w-[340px] bg-secondary/50 border-border/50 ${inputError ? "border-destructive" : ""}`}
+          />
+          <Button className="bg-primary hover:bg-primary/90" onClick={handleAnalyze}>
             {isFetching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
             Analyze
           </Button>
@@ -234,41 +290,25 @@ const TransactionsPage = () => {
           {/* Export Dropdown */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
-              <Button className="bg-primary/10 text-primary hover:bg-primary/20">
-                <Download className="h-4 w-4 mr-2" />
+              <Button className="bg-primary/10 text-primary hover:bg-primary/20" disabled={exporting}>
+                {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
                 Export
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-56">
-              <DropdownMenuLabel>Export Filtered</DropdownMenuLabel>
-              <DropdownMenuItem
-                onClick={() =>
-                  handleExport({ rows: filtered, chain, address: activeAddress, format: "csv", scope: "filtered" })
-                }
-              >
+              <DropdownMenuLabel>Export Filtered{fullHistory ? "" : " (this page)"}</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => exportRows(filtered, "csv", "filtered")}>
                 CSV (filtered)
               </DropdownMenuItem>
-              <DropdownMenuItem
-                onClick={() =>
-                  handleExport({ rows: filtered, chain, address: activeAddress, format: "json", scope: "filtered" })
-                }
-              >
+              <DropdownMenuItem onClick={() => exportRows(filtered, "json", "filtered")}>
                 JSON (filtered)
               </DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuLabel>Export All</DropdownMenuLabel>
-              <DropdownMenuItem
-                onClick={() =>
-                  handleExport({ rows: items, chain, address: activeAddress, format: "csv", scope: "all" })
-                }
-              >
+              <DropdownMenuLabel>Export Full History</DropdownMenuLabel>
+              <DropdownMenuItem disabled={!activeAddress} onClick={() => exportAll("csv")}>
                 CSV (all)
               </DropdownMenuItem>
-              <DropdownMenuItem
-                onClick={() =>
-                  handleExport({ rows: items, chain, address: activeAddress, format: "json", scope: "all" })
-                }
-              >
+              <DropdownMenuItem disabled={!activeAddress} onClick={() => exportAll("json")}>
                 JSON (all)
               </DropdownMenuItem>
             </DropdownMenuContent>
@@ -276,41 +316,44 @@ const TransactionsPage = () => {
         </div>
       </div>
 
+      <EvmChainPicker
+        address={pickingChainFor}
+        current={getChain(chain).family === "evm" ? chain : null}
+        onPick={(c) => {
+          openWallet(pickingChainFor!, c);
+          setPickingChainFor(null);
+        }}
+        onCancel={() => setPickingChainFor(null)}
+      />
+
+      {inputError && (
+        <div className="p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive break-words">
+          {inputError}
+        </div>
+      )}
+
       {/* Filters */}
       <Card className="border-border/50">
         <CardHeader>
           <CardTitle>Filters & Search</CardTitle>
         </CardHeader>
-        <CardContent>
-          <div className="flex flex-col md:flex-row gap-4">
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
-              <SelectTrigger className="w-full md:w-48 bg-secondary/50 border-border/50">
-                <SelectValue placeholder="Status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="safe">Safe</SelectItem>
-                <SelectItem value="suspicious">Suspicious</SelectItem>
-                <SelectItem value="fraud">Fraud</SelectItem>
-              </SelectContent>
-            </Select>
-
-            <Select value={riskFilter} onValueChange={setRiskFilter}>
+        <CardContent className="space-y-4">
+          <FilterBuilder value={queryText} onChange={setQueryText} />
+          <div className="flex flex-col md:flex-row md:flex-wrap gap-4">
+            <Select value={fullHistory ? "all" : "page"} onValueChange={(v) => setFullHistory(v === "all")}>
               <SelectTrigger className="w-full md:w-48 bg-secondary/50 border-border/50">
-                <SelectValue placeholder="Risk Level" />
+                <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Risk Levels</SelectItem>
-                <SelectItem value="low">Low Risk (0-49)</SelectItem>
-                <SelectItem value="medium">Medium Risk (50-79)</SelectItem>
-                <SelectItem value="high">High Risk (80-100)</SelectItem>
+                <SelectItem value="page">Current page</SelectItem>
+                <SelectItem value="all">Full history</SelectItem>
               </SelectContent>
             </Select>
 
             <div className="flex-1" />
             {activeAddress && (
               <Badge variant="outline" className="border-primary/30 text-primary">
-                {chain.toUpperCase()} • Monitoring: <span className="font-mono ml-2">{activeAddress}</span>
+                {getChain(chain).name} • Monitoring: <span className="font-mono ml-2">{activeAddress}</span>
               </Badge>
             )}
           </div>
@@ -320,85 +363,117 @@ const TransactionsPage = () => {
       {/* Table */}
       <Card className="border-border/50">
         <CardHeader>
-          <CardTitle>Recent Transactions</CardTitle>
-          <CardDescription>{isLoading ? "Loading…" : `Showing ${filtered.length} of ${items.length}`}</CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>
+                {tab === "counterparties" ? "Counterparties" : fullHistory ? "Transaction History" : "Recent Transactions"}
+              </CardTitle>
+              <CardDescription>
+                {isLoading
+                  ? fullHistory && history.progress
+                    ? `Loading full history… ${history.progress.loaded} of ${history.progress.total}`
+                    : "Loading…"
+                  : filtering
+                  ? "Filtering…"
+                  : tab === "counterparties"
+                  ? `${counterparties.length} counterparties across ${filtered.length} matching transactions${
+                      fullHistory ? " (full history)" : ` on page ${page}`
+                    }`
+                  : fullHistory
+                  ? `${filtered.length} of ${total} transactions match (full history)`
+                  : `Showing ${filtered.length} of ${items.length} on page ${page} of ${pageCount} • ${total} transactions in total`}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Tabs
+                value={tab}
+                onValueChange={(v) => setParams({ tab: v === "counterparties" ? v : null }, { replace: true })}
+              >
+                <TabsList>
+                  <TabsTrigger value="transactions">Transactions</TabsTrigger>
+                  <TabsTrigger value="counterparties">Counterparties</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {tab === "transactions" && (
+                <>
+                  <SavedViewsMenu current={{ columns, sort, filters: { query: queryText } }} onApply={applyView} />
+                  <ColumnChooser columns={columns} onChange={setColumns} />
+                </>
+              )}
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           {isError ? (
             <div className="p-4 border border-destructive/30 bg-destructive/10 rounded text-destructive text-sm break-words">
-              {(error as Error)?.message || "Failed to load data"}
+              {error ? errorMessage(error) : "Failed to load data"}
               <div className="mt-2 text-xs text-destructive/80">
                 Tip: Make sure the selected chain matches the address format.
               </div>
             </div>
+          ) : tab === "counterparties" ? (
+            <CounterpartyTable
+              rows={counterparties}
+              chain={chain}
+              fiat={fiat.currency}
+              labelOf={labelOf}
+              sort={counterpartySort}
+              onSortChange={setCounterpartySort}
+              onAnalyze={(a) => openWallet(a)}
+              onShowTransactions={showTransactionsWith}
+              emptyText={
+                !activeAddress
+                  ? "Enter a wallet address to start analysis."
+                  : isLoading || filtering
+                  ? "Loading…"
+                  : "No counterparties in the matching transactions."
+              }
+            />
           ) : (
-            <div className="rounded-md border border-border/50 overflow-hidden">
-              <Table>
-                <TableHeader>
-                  <TableRow className="border-border/50 hover:bg-muted/20">
-                    <TableHead>Tx Hash</TableHead>
-                    <TableHead>From → To</TableHead>
-                    <TableHead>Amount ({unitForChain(chain)})</TableHead>
-                    <TableHead>Risk Score</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Time</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filtered.map((t) => {
-                    const riskBadge = getRiskBadge(t.riskScore);
-                    const statusBadge = getStatusBadge(t.riskLevel);
-                    const RiskIcon = riskBadge.icon;
-                    return (
-                      <TableRow
-                        key={t.txHash}
-                        className={`border-border/50 hover:bg-muted/10 ${
-                          t.riskLevel === "high"
-                            ? "bg-destructive/5"
-                            : t.riskLevel === "medium"
-                            ? "bg-warning/5"
-                            : "bg-success/5"
-                        }`}
-                      >
-                        <TableCell className="font-mono text-xs">{t.txHash.slice(0, 10)}…</TableCell>
-                        <TableCell className="font-mono text-xs">
-                          <div className="truncate max-w-[280px]" title={`${t.from} → ${t.to}`}>
-                            {t.from ? t.from.slice(0, 8) + "…" : "—"} → {t.to ? t.to.slice(0, 8) + "…" : "—"}
-                          </div>
-                        </TableCell>
-                        <TableCell className="font-semibold">{t.value}</TableCell>
-                        <TableCell>
-                          <Badge variant={riskBadge.variant} className="flex items-center gap-1">
-                            <RiskIcon className="h-3 w-3" />
-                            {t.riskScore.toFixed(2)}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <Badge className={statusBadge.className}>{statusBadge.label}</Badge>
-                        </TableCell>
-                        <TableCell className="text-muted-foreground text-xs">{formatTs(t.timeStamp)}</TableCell>
-                        <TableCell>
-                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                            <Eye className="h-4 w-4" />
-                          </Button>
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                  {!isLoading && filtered.length === 0 && (
-                    <TableRow>
-                      <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
-                        {activeAddress ? "No transactions match your filters." : "Enter a wallet address to start analysis."}
-                      </TableCell>
-                    </TableRow>
-                  )}
-                </TableBody>
-              </Table>
-            </div>
+            <TxTable
+              rows={filtered}
+              chain={chain}
+              selectedTx={selectedTx}
+              onToggle={(hash) => setParams({ tx: hash === selectedTx ? null : hash })}
+              columns={columns}
+              sort={sort}
+              onSortChange={setSort}
+              fiat={fiat}
+              labelOf={labelOf}
+              screeningOf={screen}
+              emptyText={
+                !activeAddress
+                  ? "Enter a wallet address to start analysis."
+                  : isLoading || filtering
+                  ? "Loading…"
+                  : "No transactions match your filters."
+              }
+            />
+          )}
+          {activeAddress && !isError && !fullHistory && (
+            <TablePagination
+              page={Math.min(page, pageCount)}
+              pageCount={pageCount}
+              onPageChange={setPage}
+              pageSize={pageSize}
+              pageSizes={PAGE_SIZES}
+              onPageSizeChange={setPageSize}
+            />
           )}
         </CardContent>
       </Card>
+
+      <TxDetailSheet
+        txHash={selectedTx}
+        rows={filtered}
+        items={items}
+        chain={chain}
+        wallet={activeAddress}
+        fiat={fiat}
+        labelOf={labelOf}
+        onSelect={(hash) => setParams({ tx: hash }, { replace: true })}
+        onClose={() => setParams({ tx: null })}
+      />
     </div>
   );
 };
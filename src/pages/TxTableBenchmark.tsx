@@ -0,0 +1,135 @@
+import { useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gauge } from "lucide-react";
+import type { RiskLevel, TxItem } from "@/lib/api";
+import { useFilteredTxs } from "@/hooks/use-filtered-txs";
+import { parseQuery } from "@/lib/txQuery";
+import TxTable from "@/components/transactions/TxTable";
+import FilterBuilder from "@/components/transactions/FilterBuilder";
+
+/**
+ * Dev-only benchmark (/dev/tx-benchmark): synthetic history rendered through
+ * the same TxTable + worker path as TransactionsPage. Not routed in builds.
+ */
+const SIZES = [10_000, 50_000, 100_000, 200_000];
+const SCROLL_MS = 8000;
+
+function syntheticTxs(n: number): TxItem[] {
+  const hex = (i: number, len: number) => i.toString(16).padStart(len, "0").slice(-len);
+  const now = Math.floor(Date.now() / 1000);
+  return Array.from({ length: n }, (_, i) => {
+    const riskScore = (i * 7919) % 100;
+    const riskLevel: RiskLevel = riskScore >= 80 ? "high" : riskScore >= 50 ? "medium" : "low";
+    return {
+      txHash: `0x${hex(i, 8)}${hex(i * 2654435761, 56)}`,
+      from: `0x${hex(i % 997, 40)}`,
+      to: `0x${hex((i * 31) % 1009, 40)}`,
+      value: ((i * 104729) % 100000) / 1000,
+      timeStamp: now - i * 60,
+      riskScore,
+      riskLevel,
+      gasPriceGwei: (i % 200) + 1,
+      isMixerInvolved: i % 97 === 0,
+    };
+  });
+}
+
+type ScrollStats = { frames: number; avgFps: number; p95Ms: number; longFrames: number };
+
+const TxTableBenchmark = () => {
+  const [size, setSize] = useState(200_000);
+  const [queryText, setQueryText] = useState("");
+  const [stats, setStats] = useState<ScrollStats | null>(null);
+  const [running, setRunning] = useState(false);
+  const tableRef = useRef<HTMLDivElement>(null);
+
+  const items = useMemo(() => syntheticTxs(size), [size]);
+  const query = useMemo(() => {
+    const q = parseQuery(queryText);
+    return "kind" in q && q.children.length > 0 ? q : null;
+  }, [queryText]);
+  const { rows, pending, ms } = useFilteredTxs(items, { query });
+
+  /** Scroll top to bottom in SCROLL_MS and record frame intervals. */
+  const runScroll = () => {
+    const el = tableRef.current;
+    if (!el) return;
+    setRunning(true);
+    setStats(null);
+    el.scrollTop = 0;
+    const frames: number[] = [];
+    const start = performance.now();
+    let last = start;
+    const step = (now: number) => {
+      frames.push(now - last);
+      last = now;
+      const t = Math.min(1, (now - start) / SCROLL_MS);
+      el.scrollTop = t * (el.scrollHeight - el.clientHeight);
+      if (t < 1) {
+        requestAnimationFrame(step);
+        return;
+      }
+      const sorted = frames.slice(1).sort((a, b) => a - b);
+      setStats({
+        frames: sorted.length,
+        avgFps: (sorted.length / (now - start)) * 1000,
+        p95Ms: sorted[Math.floor(sorted.length * 0.95)] ?? 0,
+        longFrames: sorted.filter((f) => f > 1000 / 50).length,
+      });
+      setRunning(false);
+    };
+    requestAnimationFrame(step);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Transaction table benchmark
+        </h1>
+        <p className="text-muted-foreground">Synthetic rows through the virtualized table and filter worker</p>
+      </div>
+
+      <Card className="border-border/50">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>{size.toLocaleString()} rows</CardTitle>
+              <CardDescription>
+                {pending ? "Filtering…" : `${rows.length.toLocaleString()} shown • filter ${ms?.toFixed(1) ?? "-"} ms`}
+                {stats &&
+                  ` • scroll: ${stats.avgFps.toFixed(0)} fps avg, p95 frame ${stats.p95Ms.toFixed(1)} ms, ${stats.longFrames} of ${stats.frames} frames over 20 ms`}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={String(size)} onValueChange={(v) => setSize(Number(v))}>
+                <SelectTrigger className="w-[130px] bg-secondary/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SIZES.map((n) => (
+                    <SelectItem key={n} value={String(n)}>
+                      {n.toLocaleString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button className="bg-primary hover:bg-primary/90" onClick={runScroll} disabled={running || pending}>
+                <Gauge className="h-4 w-4 mr-2" />
+                {running ? "Scrolling…" : "Run scroll test"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <FilterBuilder value={queryText} onChange={setQueryText} />
+          <TxTable ref={tableRef} rows={rows} chain="eth" selectedTx={null} onToggle={() => undefined} emptyText="No rows" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TxTableBenchmark;
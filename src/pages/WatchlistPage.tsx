@@ -0,0 +1,286 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileUp, Loader2, Pencil, Plus, RefreshCw, Search, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCan } from "@/auth/useCan";
+import {
+  useRefreshWatchlistAnalyses,
+  useRemoveFromWatchlist,
+  useWatchlist,
+  useWatchlistAnalyses,
+} from "@/hooks/use-watchlist";
+import { errorMessage, type WatchlistEntry } from "@/lib/api";
+import { PRIORITIES, summarizeRisk } from "@/lib/watchlist";
+import { getChain } from "@/lib/chains";
+import { investigationPath } from "@/wallet/useInvestigationRoute";
+import PriorityBadge from "@/components/watchlist/PriorityBadge";
+import WatchlistEntryDialog from "@/components/watchlist/WatchlistEntryDialog";
+import ImportWalletsDialog from "@/components/watchlist/ImportWalletsDialog";
+
+function matches(e: WatchlistEntry, q: string) {
+  if (!q) return true;
+  const needle = q.toLowerCase();
+  return [e.address, e.label, e.owner, ...e.tags].some((v) => v?.toLowerCase().includes(needle));
+}
+
+const WatchlistPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const can = useCan();
+  const canManage = can("watchlist:manage");
+
+  const watchlist = useWatchlist();
+  const entries = useMemo(() => watchlist.data ?? [], [watchlist.data]);
+  const analyses = useWatchlistAnalyses(entries);
+  const refreshRisk = useRefreshWatchlistAnalyses();
+  const analyzing = analyses.some((a) => a.isFetching);
+  const remove = useRemoveFromWatchlist();
+
+  const [query, setQuery] = useState("");
+  const [priorityFilter, setPriorityFilter] = useState("all");
+  const [editing, setEditing] = useState<WatchlistEntry | null>(null);
+  const [entryOpen, setEntryOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [removing, setRemoving] = useState<WatchlistEntry | null>(null);
+
+  const riskById = useMemo(
+    () => new Map(analyses.map((a) => [a.entry.id, a.data ? summarizeRisk(a.data.items) : null])),
+    [analyses]
+  );
+
+  const filtered = entries.filter(
+    (e) => (priorityFilter === "all" || e.priority === priorityFilter) && matches(e, query.trim())
+  );
+
+  const openEntry = (e: WatchlistEntry) => {
+    setEditing(e);
+    setEntryOpen(true);
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+    const e = removing;
+    setRemoving(null);
+    try {
+      await remove.mutateAsync(e.id);
+      toast({ title: "Removed from watchlist", description: e.label || e.address });
+    } catch (err) {
+      toast({ title: "Failed to remove wallet", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Watchlist
+          </h1>
+          <p className="text-muted-foreground">Customer and counterparty wallets under continuous monitoring</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="border-border/50"
+            onClick={() => refreshRisk(entries)}
+            disabled={!entries.length || analyzing}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${analyzing ? "animate-spin" : ""}`} />
+            Refresh Risk
+          </Button>
+          <Button variant="outline" className="border-border/50" onClick={() => setImportOpen(true)} disabled={!canManage}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={() => {
+              setEditing(null);
+              setEntryOpen(true);
+            }}
+            disabled={!canManage}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Wallet
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-border/50">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Watched Wallets</CardTitle>
+              <CardDescription>
+                {watchlist.isSuccess ? `${entries.length} wallet(s), highest priority first` : "Loading…"}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search address, label, owner, tag"
+                className="w-[260px] bg-secondary/50 border-border/50"
+              />
+              <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+                <SelectTrigger className="w-[140px] bg-secondary/50 border-border/50 capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All priorities</SelectItem>
+                  {PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p} className="capitalize">
+                      {p}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {watchlist.isError && (
+            <div className="mb-4 p-3 text-sm rounded border border-destructive/30 bg-destructive/10 text-destructive">
+              {errorMessage(watchlist.error)}
+            </div>
+          )}
+          <div className="rounded-md border border-border/50 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border/50 hover:bg-muted/20">
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Wallet</TableHead>
+                  <TableHead>Chain</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead>Risk</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((e) => {
+                  const risk = riskById.get(e.id);
+                  return (
+                    <TableRow key={e.id} className="border-border/50 hover:bg-muted/10">
+                      <TableCell>
+                        <PriorityBadge priority={e.priority} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{e.label || "—"}</div>
+                        <div className="font-mono text-xs text-muted-foreground truncate max-w-[260px]" title={e.address}>
+                          {e.address}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">{getChain(e.chain).name}</TableCell>
+                      <TableCell className="text-sm">{e.owner || "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {e.tags.map((t) => (
+                            <Badge key={t} variant="secondary" className="text-xs">
+                              {t}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {risk ? (
+                          <span className={risk.highCount ? "text-destructive" : risk.mediumCount ? "text-warning" : "text-success"}>
+                            max {risk.maxRisk.toFixed(0)} • {risk.highCount} high
+                          </span>
+                        ) : (
+                          <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Investigate"
+                            onClick={() => navigate(investigationPath("/transactions", e.chain, e.address))}
+                          >
+                            <Search className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Edit"
+                            onClick={() => openEntry(e)}
+                            disabled={!canManage}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive"
+                            title="Remove"
+                            onClick={() => setRemoving(e)}
+                            disabled={!canManage}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {watchlist.isSuccess && filtered.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      {entries.length ? "No wallets match your search." : "No wallets on the watchlist yet."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <WatchlistEntryDialog open={entryOpen} onOpenChange={setEntryOpen} entry={editing} />
+      <ImportWalletsDialog open={importOpen} onOpenChange={setImportOpen} existing={entries} />
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Stop watching this wallet?</AlertDialogTitle>
+            <AlertDialogDescription className="break-all">
+              {removing?.label ? `${removing.label} — ` : ""}
+              {removing?.address}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default WatchlistPage;
@@ -0,0 +1,57 @@
+import { pricesApi, type Fiat } from "@/lib/api";
+import { EUR_PER_USD, USD_ANCHORS, interpolate } from "./fixturePrices";
+
+/**
+ * Where historical prices come from. A source answers "daily price of
+ * `asset` in `fiat` on each of these UTC days"; days it has no data for are
+ * left out. Sources are picked with VITE_PRICE_SOURCE (see PRICE_SOURCES).
+ */
+export type PriceSource = {
+  id: string;
+  name: string;
+  dailyPrices: (asset: string, fiat: Fiat, days: string[], signal?: AbortSignal) => Promise<Record<string, number>>;
+};
+
+/** Backend price service (/api/prices), fetched as one range per call. */
+export const apiPriceSource: PriceSource = {
+  id: "api",
+  name: "Price service",
+  dailyPrices: async (asset, fiat, days, signal) => {
+    if (!days.length) return {};
+    const sorted = [...days].sort();
+    const res = await pricesApi.daily({ asset, fiat, from: sorted[0], to: sorted[sorted.length - 1] }, signal);
+    const wanted = new Set(days);
+    return Object.fromEntries(Object.entries(res.prices ?? {}).filter(([d]) => wanted.has(d)));
+  },
+};
+
+/** Offline fixture (fixturePrices.ts); for development and tests. */
+export const fixturePriceSource: PriceSource = {
+  id: "fixture",
+  name: "Local fixture",
+  dailyPrices: async (asset, fiat, days) => {
+    const anchors = USD_ANCHORS[asset];
+    if (!anchors) return {};
+    return Object.fromEntries(
+      days.map((d) => {
+        const usd = interpolate(anchors, d);
+        return [d, fiat === "EUR" ? usd * interpolate(EUR_PER_USD, d) : usd];
+      })
+    );
+  },
+};
+
+export const PRICE_SOURCES: Record<string, PriceSource> = {
+  [apiPriceSource.id]: apiPriceSource,
+  [fixturePriceSource.id]: fixturePriceSource,
+};
+
+let active: PriceSource = PRICE_SOURCES[import.meta.env.VITE_PRICE_SOURCE ?? ""] ?? apiPriceSource;
+
+export const getPriceSource = () => active;
+
+/** Swap the source at runtime (tests, or a custom provider registered by a deployment). */
+export function setPriceSource(source: PriceSource) {
+  PRICE_SOURCES[source.id] = source;
+  active = source;
+}
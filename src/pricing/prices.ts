@@ -0,0 +1,105 @@
+import { txValue, type Chain, type Fiat, type TxItem } from "@/lib/api";
+import { getChain } from "@/lib/chains";
+import { getPriceSource } from "./priceSources";
+
+export type { Fiat };
+
+export const FIATS: Fiat[] = ["USD", "EUR"];
+
+/** UTC calendar day of a unix timestamp, the granularity prices are kept at. */
+export function dayKey(ts: number) {
+  return new Date(ts * 1000).toISOString().slice(0, 10);
+}
+
+/** Price asset of a chain's native coin; L2s settle in ETH. */
+export const assetOf = (chain: Chain) => getChain(chain).unit;
+
+/* ---- Cache ---- */
+
+// Closed days never change, so they are kept in memory and persisted per
+// source/asset/fiat. Today's price is still moving and is always refetched.
+const STORAGE_PREFIX = "price_cache_v1";
+const caches = new Map<string, Map<string, number>>();
+
+function cacheFor(sourceId: string, asset: string, fiat: Fiat) {
+  const key = `${STORAGE_PREFIX}:${sourceId}:${asset}:${fiat}`;
+  let cache = caches.get(key);
+  if (!cache) {
+    cache = new Map();
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw) for (const [d, p] of Object.entries(JSON.parse(raw) as Record<string, number>)) cache.set(d, p);
+    } catch {
+      // unreadable entry; refetch
+    }
+    caches.set(key, cache);
+  }
+  return { key, cache };
+}
+
+/**
+ * Daily prices for `days`, from cache where possible. Missing days are
+ * fetched from the active price source in one call; days the source has no
+ * price for are absent from the result.
+ */
+export async function dailyPrices(asset: string, fiat: Fiat, days: Iterable<string>, signal?: AbortSignal) {
+  const source = getPriceSource();
+  const { key, cache } = cacheFor(source.id, asset, fiat);
+  const today = dayKey(Date.now() / 1000);
+  const wanted = [...new Set(days)];
+  const missing = wanted.filter((d) => d >= today || !cache.has(d));
+
+  if (missing.length) {
+    const fetched = await source.dailyPrices(asset, fiat, missing, signal);
+    let added = false;
+    for (const [d, p] of Object.entries(fetched)) {
+      if (!Number.isFinite(p)) continue;
+      cache.set(d, p);
+      added ||= d < today;
+    }
+    if (added) {
+      const closed = Object.fromEntries([...cache].filter(([d]) => d < today));
+      try {
+        localStorage.setItem(key, JSON.stringify(closed));
+      } catch {
+        // storage full; the in-memory copy still serves this session
+      }
+    }
+  }
+
+  const out = new Map<string, number>();
+  for (const d of wanted) {
+    const p = cache.get(d);
+    if (p !== undefined) out.set(d, p);
+  }
+  return out;
+}
+
+/** Fiat value of `t` given prices from `dailyPrices`; null when there is no price for its day. */
+export function fiatValue(t: TxItem, prices: Map<string, number>, fiat: Fiat): number | null {
+  // a USD value reported by the backend beats our daily close
+  if (fiat === "USD" && typeof t.valueUsd === "number") return t.valueUsd;
+  const p = prices.get(dayKey(t.timeStamp));
+  return p === undefined ? null : txValue(t) * p;
+}
+
+/** Fiat values for `items`, index-aligned. */
+export async function fiatValues(chain: Chain, items: TxItem[], fiat: Fiat, signal?: AbortSignal) {
+  const prices = await dailyPrices(
+    assetOf(chain),
+    fiat,
+    items.map((t) => dayKey(t.timeStamp)),
+    signal
+  );
+  return items.map((t) => fiatValue(t, prices, fiat));
+}
+
+export function formatFiat(v: number | null | undefined, fiat: Fiat, opts: { compact?: boolean } = {}) {
+  if (typeof v !== "number") return "—";
+  return v.toLocaleString(undefined, {
+    style: "currency",
+    currency: fiat,
+    notation: opts.compact ? "compact" : "standard",
+    maximumFractionDigits: opts.compact ? 1 : 2,
+  });
+}
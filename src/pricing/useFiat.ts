@@ -0,0 +1,87 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Chain, TxItem } from "@/lib/api";
+import { getPriceSource } from "./priceSources";
+import { FIATS, assetOf, dailyPrices, dayKey, fiatValue, type Fiat } from "./prices";
+
+/* ---- Display currency preference ---- */
+
+const PREF_KEY = "fiat_currency";
+const listeners = new Set<() => void>();
+
+/** The user's display currency; null when fiat values are switched off. USD until chosen. */
+export function getFiatPreference(): Fiat | null {
+  const v = localStorage.getItem(PREF_KEY);
+  if (v === "off") return null;
+  return FIATS.includes(v as Fiat) ? (v as Fiat) : "USD";
+}
+
+export function setFiatPreference(fiat: Fiat | null) {
+  localStorage.setItem(PREF_KEY, fiat ?? "off");
+  listeners.forEach((l) => l());
+}
+
+function subscribe(onChange: () => void) {
+  const onStorage = (e: StorageEvent) => (e.key === null || e.key === PREF_KEY) && onChange();
+  listeners.add(onChange);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(onChange);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+/** Display currency, shared by every page and kept in sync across tabs. */
+export function useFiatCurrency() {
+  const fiat = useSyncExternalStore(subscribe, getFiatPreference);
+  return [fiat, setFiatPreference] as const;
+}
+
+/* ---- Prices for a transaction list ---- */
+
+// stable, short query key for a set of days
+function daysHash(days: string[]) {
+  let h = 2166136261;
+  for (const d of days) for (let i = 0; i < d.length; i++) h = Math.imul(h ^ d.charCodeAt(i), 16777619);
+  return `${days.length}:${(h >>> 0).toString(36)}`;
+}
+
+/**
+ * Prices for the days `items` fall on, in the display currency (or `fiat`
+ * when given). `valueOf(t)` is null while loading, when fiat is off, or
+ * when the source has no price for that day.
+ */
+export function useFiatValues(chain: Chain, items: TxItem[], fiat?: Fiat | null) {
+  const [preferred] = useFiatCurrency();
+  const currency = fiat === undefined ? preferred : fiat;
+  const asset = assetOf(chain);
+  const days = useMemo(() => [...new Set(items.map((t) => dayKey(t.timeStamp)))].sort(), [items]);
+
+  const series = [getPriceSource().id, asset, currency] as const;
+  const query = useQuery({
+    queryKey: ["fiat-prices", ...series, daysHash(days)],
+    queryFn: ({ signal }) => dailyPrices(asset, currency!, days, signal),
+    enabled: !!currency && days.length > 0,
+    staleTime: 5 * 60_000,
+    // while more days load, keep the prices already known for this source, asset and currency;
+    // another chain's or currency's prices would pass for real ones
+    placeholderData: (previous, previousQuery) =>
+      series.every((k, i) => previousQuery?.queryKey[i + 1] === k) ? previous : undefined,
+  });
+
+  const prices = query.data;
+  const valueOf = useCallback(
+    (t: TxItem) => (currency && prices ? fiatValue(t, prices, currency) : null),
+    [currency, prices]
+  );
+
+  return {
+    currency,
+    valueOf,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+  };
+}
+
+export type FiatValues = ReturnType<typeof useFiatValues>;
@@ -0,0 +1,58 @@
+import { screeningApi, type Chain, type ScreeningAuditEntry } from "@/lib/api";
+import { explorerTxUrl } from "@/lib/chains";
+import { toCsvRow, withBom } from "@/lib/csv";
+import type { ScreeningHit } from "./blocklists";
+
+/**
+ * Record of every blocklist hit, kept by the backend: which transfer, which
+ * address, and which list and version matched, with the time it was first
+ * recorded. A hit on a new list version is recorded again, so the trail
+ * shows what the analyst was screening against at the time.
+ */
+export type { ScreeningAuditEntry };
+
+const auditKey = (e: { chain: Chain } & ScreeningHit) =>
+  `${e.chain}:${e.txHash}:${e.role}:${e.listId}:${e.listVersion}`;
+
+// hits seen in this session, and those the server hasn't acknowledged yet (sent again with the next call)
+const seen = new Set<string>();
+const unsent = new Map<string, Omit<ScreeningAuditEntry, "detectedAt">>();
+
+export async function fetchAudit(signal?: AbortSignal) {
+  const res = await screeningApi.hits(signal);
+  return res.hits ?? [];
+}
+
+/** Sends new hits and any still unacknowledged; returns how many the server recorded as new. */
+export async function recordHits(chain: Chain, hits: ScreeningHit[]) {
+  for (const h of hits) {
+    const e = { ...h, chain };
+    const k = auditKey(e);
+    if (seen.has(k)) continue;
+    seen.add(k);
+    unsent.set(k, e);
+  }
+  if (!unsent.size) return 0;
+  const batch = [...unsent];
+  const res = await screeningApi.recordHits(batch.map(([, e]) => e));
+  batch.forEach(([k]) => unsent.delete(k));
+  return res?.recorded ?? batch.length;
+}
+
+export function auditCsv(entries: ScreeningAuditEntry[]) {
+  const headers = ["detectedAt", "chain", "txHash", "role", "address", "list", "listVersion", "reference", "explorerUrl"];
+  const lines = entries.map((e) =>
+    toCsvRow([
+      e.detectedAt,
+      e.chain,
+      e.txHash,
+      e.role,
+      e.address,
+      e.listName,
+      e.listVersion,
+      e.reference,
+      explorerTxUrl(e.chain, e.txHash),
+    ])
+  );
+  return withBom([toCsvRow(headers), ...lines].join("\n"));
+}
@@ -0,0 +1,170 @@
+import type { Blocklist, BlocklistEntry, Chain, TxItem } from "@/lib/api";
+import { validateAddress } from "@/lib/address";
+import { getChain, parseChain } from "@/lib/chains";
+import { parseDelimited } from "@/lib/walletImport";
+import { labelKey } from "@/labels/labels";
+
+export type { Blocklist, BlocklistEntry };
+
+/**
+ * Sanctions and internal blocklists. A list is either JSON
+ *
+ *   { "name": "OFAC SDN (ETH)", "version": "2024-06-12", "entries": [{ "address", "chain"?, "reference"? }] }
+ *
+ * (`addresses` may be plain strings, a bare array works too), CSV with an
+ * address column plus optional chain and reference columns, or plain text
+ * with one address per line and `#` comments, the way SDN address dumps are
+ * usually published.
+ */
+export type ParsedBlocklist = {
+  name: string | null;
+  version: string | null;
+  entries: BlocklistEntry[];
+  /** Rows that were skipped; 1-based among non-blank, non-comment rows, header included. */
+  rejected: { row: number; value: string; reason: string }[];
+};
+
+const COLUMNS = {
+  address: /^(address|wallet|addr|account|digital currency address)$/i,
+  chain: /^(chain|network|blockchain|asset)$/i,
+  reference: /^(reference|ref|id|entity|sdn|uid|case)$/i,
+};
+
+const str = (v: unknown) => (typeof v === "string" || typeof v === "number" ? String(v).trim() : "");
+
+function toEntries(raws: { row: number; address: string; chain?: string; reference?: string }[]): ParsedBlocklist {
+  const entries: BlocklistEntry[] = [];
+  const rejected: ParsedBlocklist["rejected"] = [];
+  const seen = new Set<string>();
+  for (const raw of raws) {
+    const check = validateAddress(raw.address);
+    if (!check.valid) {
+      rejected.push({ row: raw.row, value: raw.address, reason: check.error ?? "Not an address" });
+      continue;
+    }
+    const declared = str(raw.chain);
+    const chain = declared ? parseChain(declared) : null;
+    if (declared && !chain) {
+      rejected.push({ row: raw.row, value: raw.address, reason: `Unknown chain "${declared}"` });
+      continue;
+    }
+    if (chain && getChain(chain).family !== check.family) {
+      rejected.push({ row: raw.row, value: raw.address, reason: `Not a ${getChain(chain).name} address` });
+      continue;
+    }
+    const key = labelKey(chain, check.normalized!);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push({ address: check.normalized!, chain, reference: str(raw.reference) || null });
+  }
+  return { name: null, version: null, entries, rejected };
+}
+
+function parseJsonList(text: string): ParsedBlocklist {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const list = (Array.isArray(data) ? { entries: data } : data) as Record<string, unknown> | null;
+  const items = list?.entries ?? list?.addresses;
+  if (!Array.isArray(items)) throw new Error('Expected an array of addresses or { "entries": [...] }');
+  const parsed = toEntries(
+    items.map((item, i) => {
+      const e = (item && typeof item === "object" ? item : { address: item }) as Record<string, unknown>;
+      return { row: i + 1, address: str(e.address), chain: str(e.chain), reference: str(e.reference ?? e.id) };
+    })
+  );
+  return { ...parsed, name: str(list.name) || null, version: str(list.version) || null };
+}
+
+function parseTextList(text: string): ParsedBlocklist {
+  const lines = text.split(/\r?\n/);
+  const rows = parseDelimited(lines.map((l) => (/^\s*#/.test(l) ? "" : l)).join("\n"));
+  if (!rows.length) return { name: null, version: null, entries: [], rejected: [] };
+
+  const map: Partial<Record<keyof typeof COLUMNS, number>> = {};
+  rows[0].forEach((cell, i) => {
+    for (const [key, re] of Object.entries(COLUMNS) as [keyof typeof COLUMNS, RegExp][]) {
+      if (map[key] === undefined && re.test(cell)) map[key] = i;
+    }
+  });
+  // without an address header every row is `address[, reference]`
+  const header = map.address !== undefined;
+  const cols = header ? map : { address: 0, reference: 1 };
+  return toEntries(
+    rows.slice(header ? 1 : 0).map((r, i) => ({
+      row: i + (header ? 2 : 1),
+      address: r[cols.address!] ?? "",
+      chain: cols.chain !== undefined ? r[cols.chain] : undefined,
+      reference: cols.reference !== undefined ? r[cols.reference] : undefined,
+    }))
+  );
+}
+
+/** Parse an uploaded list; JSON is detected by its first character. */
+export function parseBlocklist(text: string): ParsedBlocklist {
+  return /^\s*[[{]/.test(text) ? parseJsonList(text) : parseTextList(text);
+}
+
+/* ---- Matching ---- */
+
+export type ScreeningHit = {
+  txHash: string;
+  role: "from" | "to";
+  address: string;
+  listId: string;
+  listName: string;
+  listVersion: string;
+  reference: string | null;
+};
+
+type Listing = { list: Blocklist; entry: BlocklistEntry };
+
+/** Addresses of every list, keyed like labels: `chain:address`, `*` for every chain. */
+export type ScreeningIndex = Map<string, Listing[]>;
+
+export function buildScreeningIndex(lists: Blocklist[]): ScreeningIndex {
+  const index: ScreeningIndex = new Map();
+  for (const list of lists) {
+    for (const entry of list.entries) {
+      const k = labelKey(entry.chain ?? null, entry.address);
+      const at = index.get(k);
+      if (at) at.push({ list, entry });
+      else index.set(k, [{ list, entry }]);
+    }
+  }
+  return index;
+}
+
+/**
+ * Exact matches of a transfer's sender and recipient. Every list that names
+ * the address is a separate hit, so the audit trail shows all of them.
+ */
+export function screenTx(index: ScreeningIndex, chain: Chain, t: TxItem): ScreeningHit[] {
+  if (!index.size) return [];
+  const hits: ScreeningHit[] = [];
+  for (const role of ["from", "to"] as const) {
+    const address = t[role];
+    if (!address) continue;
+    const listings = [...(index.get(labelKey(chain, address)) ?? []), ...(index.get(labelKey(null, address)) ?? [])];
+    for (const { list, entry } of listings) {
+      hits.push({
+        txHash: t.txHash,
+        role,
+        address,
+        listId: list.id,
+        listName: list.name,
+        listVersion: list.version,
+        reference: entry.reference ?? null,
+      });
+    }
+  }
+  return hits;
+}
+
+export const describeHit = (h: ScreeningHit) =>
+  `${h.role === "from" ? "Sender" : "Recipient"} is on ${h.listName} (version ${h.listVersion})${
+    h.reference ? `, entry ${h.reference}` : ""
+  }`;
@@ -0,0 +1,59 @@
+import { screeningApi, type Blocklist } from "@/lib/api";
+import type { ParsedBlocklist } from "./blocklists";
+
+/**
+ * Where blocklists come from: the feed the backend publishes (compliance
+ * keeps the SDN lists current there) and files uploaded in this browser.
+ * VITE_BLOCKLIST_ENDPOINT points the feed at another path or turns it off.
+ */
+const configured = import.meta.env.VITE_BLOCKLIST_ENDPOINT?.trim();
+export const BLOCKLIST_ENDPOINT = configured === "off" ? null : configured || "/api/screening/lists";
+
+export async function fetchEndpointLists(signal?: AbortSignal): Promise<Blocklist[]> {
+  if (!BLOCKLIST_ENDPOINT) return [];
+  const res = await screeningApi.lists(BLOCKLIST_ENDPOINT, signal);
+  const loadedAt = new Date().toISOString();
+  return (res.lists ?? []).map((l) => ({ ...l, id: `endpoint:${l.id}`, source: "endpoint", loadedAt }));
+}
+
+/* ---- Uploads ---- */
+
+const UPLOADS_KEY = "screening_uploaded_lists";
+
+export function loadUploadedLists(): Blocklist[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(UPLOADS_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveUploadedLists(lists: Blocklist[]) {
+  localStorage.setItem(UPLOADS_KEY, JSON.stringify(lists));
+}
+
+/** First 12 hex digits of the SHA-256 of the file, so an unversioned list still has a stable version. */
+export async function contentVersion(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return `sha256:${hex.slice(0, 12)}`;
+}
+
+/** Store an upload; a list with the same name is replaced by the new version. */
+export function addUploadedList(parsed: ParsedBlocklist & { name: string; version: string }): Blocklist {
+  const list: Blocklist = {
+    id: `upload:${parsed.name.toLowerCase()}`,
+    name: parsed.name,
+    version: parsed.version,
+    source: "upload",
+    loadedAt: new Date().toISOString(),
+    entries: parsed.entries,
+  };
+  saveUploadedLists([...loadUploadedLists().filter((l) => l.id !== list.id), list]);
+  return list;
+}
+
+export function removeUploadedList(id: string) {
+  saveUploadedLists(loadUploadedLists().filter((l) => l.id !== id));
+}
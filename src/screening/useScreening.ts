@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { HISTORY_PAGE_SIZE, analyzeFullHistory, type AnalyzeResponse, type Chain, type TxItem } from "@/lib/api";
+import { analyzeQueryOptions, historyQueryOptions } from "@/hooks/use-analyze";
+import { buildScreeningIndex, screenTx, type ParsedBlocklist, type ScreeningHit } from "./blocklists";
+import { fetchAudit, recordHits } from "./audit";
+import {
+  BLOCKLIST_ENDPOINT,
+  addUploadedList,
+  fetchEndpointLists,
+  loadUploadedLists,
+  removeUploadedList,
+} from "./sources";
+
+const LISTS_KEY = ["blocklists"] as const;
+const AUDIT_KEY = ["screening-audit"] as const;
+const SCREENED_KEY = "screened-history";
+const RECORD_RETRY_MS = 30_000;
+// Screening runs on every page, so it reads a bounded slice of the history and
+// then only what arrived since; the latest page covers the moments in between.
+const SCREENING_MAX_PAGES = 10;
+const SCREENING_STALE_MS = 6 * 60 * 60_000;
+
+/** Endpoint and uploaded lists together; a feed outage leaves the uploads in force. */
+export function useBlocklists() {
+  const endpoint = useQuery({
+    queryKey: [...LISTS_KEY, "endpoint", BLOCKLIST_ENDPOINT],
+    queryFn: ({ signal }) => fetchEndpointLists(signal),
+    enabled: !!BLOCKLIST_ENDPOINT,
+    staleTime: 10 * 60_000,
+  });
+  const uploads = useQuery({
+    queryKey: [...LISTS_KEY, "uploads"],
+    queryFn: async () => loadUploadedLists(),
+    staleTime: Infinity,
+  });
+  const lists = useMemo(() => [...(endpoint.data ?? []), ...(uploads.data ?? [])], [endpoint.data, uploads.data]);
+  return { lists, endpoint, uploads };
+}
+
+/** `screen(tx)` gives the blocklist hits of one transfer on this chain. */
+export function useScreening(chain: Chain) {
+  const { lists, endpoint } = useBlocklists();
+  const index = useMemo(() => buildScreeningIndex(lists), [lists]);
+  const screen = useCallback((t: TxItem) => screenTx(index, chain, t), [index, chain]);
+  return { lists, screen, endpointError: endpoint.isError ? endpoint.error : null };
+}
+
+type ScreenedHistory = { items: TxItem[]; complete: boolean };
+
+/**
+ * Transfers screened so far. The first run reads at most SCREENING_MAX_PAGES
+ * pages, newest first; later runs fetch only what came in after the newest
+ * screened transfer and merge it in.
+ */
+function useScreenedHistory(chain: Chain, address: string | null, enabled: boolean) {
+  const qc = useQueryClient();
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const queryKey = [SCREENED_KEY, chain, address] as const;
+  const query = useQuery<ScreenedHistory>({
+    queryKey,
+    queryFn: async ({ signal }) => {
+      const prev = qc.getQueryData<ScreenedHistory>(queryKey);
+      const since = prev?.items.reduce((max, t) => Math.max(max, t.timeStamp), 0) || undefined;
+      const r = await analyzeFullHistory(chain, address as string, {
+        signal,
+        since,
+        maxPages: SCREENING_MAX_PAGES,
+        onProgress: (loaded, total) =>
+          setProgress({ loaded, total: Math.min(total, SCREENING_MAX_PAGES * HISTORY_PAGE_SIZE) }),
+      });
+      const byHash = new Map((prev?.items ?? []).map((t) => [t.txHash, t]));
+      for (const t of r.items) byHash.set(t.txHash, t);
+      // a capped catch-up leaves a gap before the transfers screened earlier
+      return { items: [...byHash.values()], complete: r.complete && (prev?.complete ?? true) };
+    },
+    enabled: enabled && Boolean(address),
+    staleTime: SCREENING_STALE_MS,
+    refetchOnWindowFocus: false,
+  });
+  return { ...query, progress };
+}
+
+/**
+ * Screens a wallet's recent history, plus its latest page as other views
+ * refresh it, and the whole history once a page has loaded it. Older
+ * transfers count as much as new ones: a counterparty listed today is a hit
+ * on a transfer from years ago, so `complete` tells whether any went unscreened.
+ */
+export function useWalletScreening(chain: Chain, address: string | null) {
+  const { lists, screen, endpointError } = useScreening(chain);
+  // read-only here: whichever page shows the wallet keeps it polled
+  const latest = useQuery<AnalyzeResponse>({ ...analyzeQueryOptions(chain, address), refetchInterval: false });
+  // read-only too: the full history is only fetched where the user asks for it
+  const full = useQuery<AnalyzeResponse>({ ...historyQueryOptions(chain, address as string), enabled: false });
+  const history = useScreenedHistory(chain, address, lists.length > 0);
+
+  const { hits, hitsByTx, flagged } = useMemo(() => {
+    const byHash = new Map<string, TxItem>();
+    for (const t of full.data?.items ?? []) byHash.set(t.txHash, t);
+    for (const t of history.data?.items ?? []) byHash.set(t.txHash, t);
+    for (const t of latest.data?.items ?? []) byHash.set(t.txHash, t);
+    const hitsByTx = new Map<string, ScreeningHit[]>();
+    const flagged: TxItem[] = [];
+    for (const t of byHash.values()) {
+      const found = screen(t);
+      if (!found.length) continue;
+      hitsByTx.set(t.txHash, found);
+      flagged.push(t);
+    }
+    return { hits: [...hitsByTx.values()].flat(), hitsByTx, flagged };
+  }, [full.data, history.data, latest.data, screen]);
+
+  return {
+    lists,
+    endpointError,
+    hits,
+    hitsByTx,
+    /** Transfers with at least one hit, any age. */
+    flagged,
+    /** Every transfer of the wallet has been screened. */
+    complete: !!full.data || !!history.data?.complete,
+    screenedCount: full.data?.items.length ?? history.data?.items.length ?? 0,
+    screening: history.isLoading,
+    progress: history.progress,
+    historyError: history.isError ? history.error : null,
+  };
+}
+
+/** Sends hits to the backend audit trail as they show up; a failed send is retried. */
+export function useRecordScreeningHits(chain: Chain, hits: ScreeningHit[]) {
+  const qc = useQueryClient();
+  const [error, setError] = useState<unknown>(null);
+  const [attempt, setAttempt] = useState(0);
+  const retry = useRef<ReturnType<typeof setTimeout>>();
+  useEffect(() => () => clearTimeout(retry.current), []);
+  useEffect(() => {
+    recordHits(chain, hits)
+      .then((n) => {
+        setError(null);
+        if (n > 0) qc.invalidateQueries({ queryKey: AUDIT_KEY });
+      })
+      .catch((e) => {
+        setError(e);
+        clearTimeout(retry.current);
+        retry.current = setTimeout(() => setAttempt((a) => a + 1), RECORD_RETRY_MS);
+      });
+  }, [chain, hits, qc, attempt]);
+  return { error };
+}
+
+export function useScreeningAudit() {
+  return useQuery({ queryKey: AUDIT_KEY, queryFn: ({ signal }) => fetchAudit(signal), staleTime: 60_000 });
+}
+
+function useListMutation<V, R>(fn: (v: V) => R) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (v: V) => fn(v),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: LISTS_KEY });
+    },
+  });
+}
+
+export const useAddUploadedList = () =>
+  useListMutation((list: ParsedBlocklist & { name: string; version: string }) => addUploadedList(list));
+
+export const useRemoveUploadedList = () => useListMutation((id: string) => removeUploadedList(id));
+
+export const useRefreshEndpointLists = () => {
+  const qc = useQueryClient();
+  return () => qc.invalidateQueries({ queryKey: [...LISTS_KEY, "endpoint"] });
+};
@@ -0,0 +1,105 @@
+import { explorerAddressUrl, explorerTxUrl, unitForChain } from "@/lib/chains";
+import { toCsvRow, withBom } from "@/lib/csv";
+import type { LabelLookup } from "@/labels/labels";
+import { TAINT_MODELS } from "./taint";
+import { endAmount, forwarded, nodeStatus, summarizeTrace, type TraceResult } from "./trace";
+
+/**
+ * Trace report for case files: one row per reached address in CSV, or the
+ * full picture (summary, addresses and every tainted transfer) in JSON.
+ * Both say when the taint model only gives upper bounds (see taint.ts).
+ */
+
+const share = (v: number, total: number) => (total > 0 ? ((v / total) * 100).toFixed(4) : "0");
+
+const noLabels: LabelLookup = () => null;
+
+const modelOf = (r: TraceResult) => TAINT_MODELS.find((m) => m.id === r.model);
+
+export function traceReportCsv(r: TraceResult, labelOf: LabelLookup = noLabels) {
+  const unit = unitForChain(r.chain);
+  const headers = [
+    "hop",
+    "address",
+    "label",
+    "labelCategory",
+    "status",
+    `received(${unit})`,
+    `forwarded(${unit})`,
+    `endedHere(${unit})`,
+    "shareOfOriginal(%)",
+    "taintedInflows",
+    "explorerUrl",
+    "taintModel",
+  ];
+  const model = modelOf(r);
+  const modelCell = `${model?.name ?? r.model}${model?.upperBound ? " (upper bound)" : ""}`;
+  const lines = r.hops.flatMap((h) =>
+    h.nodes.map((n) =>
+      toCsvRow([
+        n.hop,
+        n.address,
+        labelOf(n.address)?.name ?? "",
+        labelOf(n.address)?.category ?? "",
+        nodeStatus(n),
+        n.received,
+        forwarded(n),
+        endAmount(n),
+        share(endAmount(n), r.amount),
+        n.inflows.map((i) => i.tx.txHash).join(" "),
+        explorerAddressUrl(r.chain, n.address),
+        modelCell,
+      ])
+    )
+  );
+  return withBom([toCsvRow(headers), ...lines].join("\n"));
+}
+
+export function traceReportJson(r: TraceResult, labelOf: LabelLookup = noLabels) {
+  const summary = summarizeTrace(r);
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      chain: r.chain,
+      unit: unitForChain(r.chain),
+      model: modelOf(r)?.name ?? r.model,
+      // forwarded amounts are upper bounds when the opening balance matters (see taint.ts)
+      upperBound: !!modelOf(r)?.upperBound,
+      start: { ...r.start, explorerUrl: explorerTxUrl(r.chain, r.start.txHash) },
+      summary,
+      addresses: r.hops.flatMap((h) =>
+        h.nodes.map((n) => ({
+          hop: n.hop,
+          address: n.address,
+          label: labelOf(n.address)?.name ?? null,
+          labelCategory: labelOf(n.address)?.category ?? null,
+          status: nodeStatus(n),
+          received: n.received,
+          forwarded: forwarded(n),
+          endedHere: endAmount(n),
+          shareOfOriginalPct: Number(share(endAmount(n), r.amount)),
+          ...(n.error ? { error: n.error } : {}),
+        }))
+      ),
+      transfers: r.hops.flatMap((h) =>
+        h.nodes.flatMap((n) =>
+          (n.outflows ?? []).map((o) => ({
+            hop: n.hop,
+            txHash: o.tx.txHash,
+            from: o.tx.from,
+            fromLabel: labelOf(o.tx.from)?.name ?? null,
+            to: o.tx.to,
+            toLabel: labelOf(o.tx.to)?.name ?? null,
+            timeStamp: new Date(o.tx.timeStamp * 1000).toISOString(),
+            value: o.tx.value,
+            tainted: o.tainted,
+            riskScore: o.tx.riskScore,
+            isMixerInvolved: !!o.tx.isMixerInvolved,
+          }))
+        )
+      ),
+    },
+    null,
+    2
+  );
+}
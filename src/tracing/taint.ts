@@ -0,0 +1,121 @@
+import { txValue, type TxItem } from "@/lib/api";
+
+/**
+ * Taint models decide which part of an address's outgoing transfers came
+ * from the tainted funds it received:
+ *  - fifo: outflows spend the oldest received coins first
+ *  - lifo: outflows spend the most recently received coins first
+ *  - haircut: every outflow carries the tainted share of the balance at that moment
+ *
+ * The balance an address held before its first tainted inflow is unknown, so
+ * it is modelled as a clean opening lot of the smallest size the history
+ * allows. A larger one would keep more taint in place under FIFO and dilute it
+ * under haircut, so those models give upper bounds for what is passed on.
+ * LIFO spends the opening lot last and is not affected.
+ */
+export type TaintModel = "fifo" | "lifo" | "haircut";
+
+export const TAINT_MODELS: { id: TaintModel; name: string; description: string; upperBound: boolean }[] = [
+  { id: "fifo", name: "FIFO", description: "Oldest received funds leave first", upperBound: true },
+  { id: "lifo", name: "LIFO", description: "Most recently received funds leave first", upperBound: false },
+  {
+    id: "haircut",
+    name: "Haircut",
+    description: "Each outflow carries the tainted share of the balance",
+    upperBound: true,
+  },
+];
+
+/** A tainted transfer into the address being processed. */
+export type TaintedInflow = { tx: TxItem; tainted: number };
+
+/** An outgoing transfer of the processed address and the tainted amount it carried. */
+export type TaintedOutflow = { tx: TxItem; tainted: number };
+
+type Lot = { amount: number; tainted: number };
+
+// amounts below this are float noise, not funds
+const EPSILON = 1e-12;
+
+/**
+ * Outflows of `address` that carry taint, given the tainted transfers it
+ * received. `txs` is the address's own history; the tainted inflows are
+ * merged in by hash in case they fall outside that window. Only transfers
+ * after the first tainted inflow can carry taint. The clean opening balance
+ * is what the outflows need beyond the observed inflows.
+ */
+export function propagateTaint(
+  model: TaintModel,
+  address: string,
+  txs: TxItem[],
+  inflows: TaintedInflow[]
+): { outflows: TaintedOutflow[]; held: number } {
+  const self = address.toLowerCase();
+  const taintOf = new Map(inflows.map((i) => [i.tx.txHash, i.tainted]));
+  const byHash = new Map<string, TxItem>();
+  for (const t of txs) byHash.set(t.txHash, t);
+  for (const i of inflows) if (!byHash.has(i.tx.txHash)) byHash.set(i.tx.txHash, i.tx);
+
+  // time order; within the same second receipts go first so they can be spent
+  const events = [...byHash.values()]
+    .filter((t) => t.from?.toLowerCase() === self || t.to?.toLowerCase() === self)
+    .filter((t) => !(t.from?.toLowerCase() === self && t.to?.toLowerCase() === self))
+    .sort((a, b) => a.timeStamp - b.timeStamp || Number(a.to?.toLowerCase() !== self) - Number(b.to?.toLowerCase() !== self));
+
+  const opening = openingBalance(self, events);
+  const lots: Lot[] = opening > EPSILON ? [{ amount: opening, tainted: 0 }] : [];
+  let balance = opening;
+  let taintedBalance = 0;
+  const outflows: TaintedOutflow[] = [];
+
+  for (const t of events) {
+    const amount = txValue(t);
+    if (t.to?.toLowerCase() === self) {
+      const tainted = Math.min(amount, taintOf.get(t.txHash) ?? 0);
+      if (model !== "haircut") lots.push({ amount, tainted });
+      balance += amount;
+      taintedBalance += tainted;
+      continue;
+    }
+    const tainted =
+      model === "haircut"
+        ? balance > 0
+          ? Math.min(amount, balance) * (taintedBalance / balance)
+          : 0
+        : spend(model, lots, amount);
+    balance = Math.max(0, balance - amount);
+    taintedBalance = Math.max(0, taintedBalance - tainted);
+    if (tainted > EPSILON) outflows.push({ tx: t, tainted });
+  }
+
+  return { outflows, held: taintedBalance };
+}
+
+/** Smallest balance before `events` that never lets it go negative. */
+function openingBalance(self: string, events: TxItem[]) {
+  let running = 0;
+  let lowest = 0;
+  for (const t of events) {
+    running += t.to?.toLowerCase() === self ? txValue(t) : -txValue(t);
+    lowest = Math.min(lowest, running);
+  }
+  return -lowest;
+}
+
+/** Take `amount` out of the lots in FIFO or LIFO order; returns the tainted part taken. */
+function spend(model: TaintModel, lots: Lot[], amount: number) {
+  let left = amount;
+  let tainted = 0;
+  while (left > EPSILON && lots.length) {
+    const i = model === "lifo" ? lots.length - 1 : 0;
+    const lot = lots[i];
+    const take = Math.min(left, lot.amount);
+    const t = lot.amount > 0 ? lot.tainted * (take / lot.amount) : 0;
+    tainted += t;
+    lot.amount -= take;
+    lot.tainted -= t;
+    left -= take;
+    if (lot.amount <= EPSILON) lots.splice(i, 1);
+  }
+  return tainted;
+}
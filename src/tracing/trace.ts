@@ -0,0 +1,276 @@
+import { errorMessage, txValue, type Chain, type TxItem } from "@/lib/api";
+import { propagateTaint, type TaintModel, type TaintedInflow, type TaintedOutflow } from "./taint";
+
+/**
+ * Hop-by-hop fund tracing from a flagged transaction. Hop 1 is the flagged
+ * transfer's recipient; every later hop holds the addresses the previous
+ * hop's tainted outflows went to. Exchanges and mixers end a path: the funds
+ * are considered cashed out or obfuscated there.
+ *
+ * Hops are computed one at a time and cached per start transaction and
+ * model, so raising the hop limit only fetches the new hop.
+ */
+export type TraceCategory = "exchange" | "mixer";
+
+/** Category of a known address, e.g. from the watchlist or the labels DB. */
+export type Classifier = (address: string) => TraceCategory | null;
+
+/** An address's transfers back to a given time; `complete` is false when the history stops short of it. */
+export type AddressHistory = { items: TxItem[]; complete: boolean };
+
+export type TraceNode = {
+  id: string;               // lowercased address
+  address: string;
+  hop: number;
+  category: TraceCategory | null;
+  received: number;         // tainted amount that arrived here
+  inflows: TaintedInflow[];
+  // set once the address's own transfers have been processed
+  outflows?: TaintedOutflow[];
+  held?: number;
+  /** Its history stops short of the first tainted inflow, so outflows may be missing and `held` is unknown. */
+  incomplete?: boolean;
+  /** Already reached at an earlier hop; not followed again. */
+  revisit?: boolean;
+  /** Past the per-hop fetch budget; not followed. */
+  skipped?: boolean;
+  error?: string;
+};
+
+export type TraceHop = { hop: number; nodes: TraceNode[]; expanded: boolean };
+
+export type TraceResult = {
+  chain: Chain;
+  model: TaintModel;
+  start: TxItem;
+  amount: number;
+  hops: TraceHop[];
+};
+
+export type NodeStatus =
+  | "exchange"
+  | "mixer"
+  | "traced"
+  | "incomplete"
+  | "hop-limit"
+  | "revisited"
+  | "skipped"
+  | "error";
+
+/** Addresses fetched per hop, largest tainted receipts first. */
+const MAX_PER_HOP = 25;
+/** Tainted amounts below this share of the original are dropped as dust. */
+const DUST_SHARE = 1e-4;
+const CONCURRENCY = 4;
+
+const cache = new Map<string, TraceHop[]>();
+
+export function clearTraceCache() {
+  cache.clear();
+}
+
+function firstHop(start: TxItem, classify: Classifier): TraceHop {
+  const amount = txValue(start);
+  return {
+    hop: 1,
+    expanded: false,
+    nodes: [
+      {
+        id: start.to.toLowerCase(),
+        address: start.to,
+        hop: 1,
+        category: start.isMixerInvolved ? "mixer" : classify(start.to),
+        received: amount,
+        inflows: [{ tx: start, tainted: amount }],
+      },
+    ],
+  };
+}
+
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const out: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      try {
+        out[i] = { status: "fulfilled", value: await fn(items[i]) };
+      } catch (reason) {
+        out[i] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
+
+/** Process the last hop's addresses and return it expanded plus the next hop. */
+async function expandHop(
+  hops: TraceHop[],
+  model: TaintModel,
+  minAmount: number,
+  classify: Classifier,
+  fetchTxs: (address: string, since: number) => Promise<AddressHistory>
+): Promise<[TraceHop, TraceHop]> {
+  const last = hops[hops.length - 1];
+  const followable = last.nodes
+    .filter((n) => !n.category && !n.revisit)
+    .sort((a, b) => b.received - a.received);
+  const targets = followable.slice(0, MAX_PER_HOP);
+
+  // an address's history matters from its first tainted inflow on
+  const results = await mapLimit(targets, CONCURRENCY, async (n) => {
+    const history = await fetchTxs(n.address, Math.min(...n.inflows.map((i) => i.tx.timeStamp)));
+    return { ...propagateTaint(model, n.address, history.items, n.inflows), complete: history.complete };
+  });
+  const done = new Map<string, ReturnType<typeof propagateTaint> & { complete: boolean }>();
+  const failed = new Map<string, string>();
+  results.forEach((r, i) => {
+    if (r.status === "fulfilled") done.set(targets[i].id, r.value);
+    else failed.set(targets[i].id, errorMessage(r.reason));
+  });
+
+  const expanded: TraceHop = {
+    ...last,
+    expanded: true,
+    nodes: last.nodes.map((n) => {
+      const d = done.get(n.id);
+      if (d) return { ...n, outflows: d.outflows, held: d.held, ...(d.complete ? {} : { incomplete: true }) };
+      if (failed.has(n.id)) return { ...n, error: failed.get(n.id) };
+      if (!n.category && !n.revisit) return { ...n, skipped: true };
+      return n;
+    }),
+  };
+
+  const earlier = new Set(hops.flatMap((h) => h.nodes.map((n) => n.id)));
+  const next = new Map<string, TraceNode>();
+  for (const n of expanded.nodes) {
+    for (const o of n.outflows ?? []) {
+      if (o.tainted < minAmount || !o.tx.to) continue;
+      const id = o.tx.to.toLowerCase();
+      let target = next.get(id);
+      if (!target) {
+        target = {
+          id,
+          address: o.tx.to,
+          hop: last.hop + 1,
+          category: classify(o.tx.to),
+          received: 0,
+          inflows: [],
+          revisit: earlier.has(id),
+        };
+        next.set(id, target);
+      }
+      // a tainted transfer flagged as mixer activity means the funds went into the mixer
+      if (o.tx.isMixerInvolved) target.category = "mixer";
+      target.received += o.tainted;
+      target.inflows.push(o);
+    }
+  }
+  return [expanded, { hop: last.hop + 1, nodes: [...next.values()], expanded: false }];
+}
+
+/** The first `maxHops` hops, with the last one shown unexpanded if the cache went further. */
+function upTo(hops: TraceHop[], maxHops: number) {
+  if (hops.length <= maxHops) return hops;
+  const last = hops[maxHops - 1];
+  return [
+    ...hops.slice(0, maxHops - 1),
+    {
+      ...last,
+      expanded: false,
+      nodes: last.nodes.map(({ outflows: _o, held: _h, incomplete: _i, skipped: _s, error: _e, ...n }) => n),
+    },
+  ];
+}
+
+export type TraceOptions = {
+  chain: Chain;
+  start: TxItem;
+  model: TaintModel;
+  maxHops: number;
+  classify: Classifier;
+  /** Changes whenever `classify` would answer differently, so cached hops are not reused. */
+  classifierKey?: string;
+  /** Transfers of `address` from `since` (unix seconds) on, and whether they reach back that far. */
+  fetchTxs: (address: string, since: number) => Promise<AddressHistory>;
+  signal?: AbortSignal;
+  onHop?: (result: TraceResult) => void;
+};
+
+/** Trace up to `maxHops`, reusing cached hops and reporting each new one through `onHop`. */
+export async function runTrace(opts: TraceOptions): Promise<TraceResult> {
+  const { chain, start, model, maxHops, classify, fetchTxs, signal, onHop } = opts;
+  const amount = txValue(start);
+  const key = `${chain}:${start.txHash}:${model}:${opts.classifierKey ?? ""}`;
+  let hops = cache.get(key) ?? [firstHop(start, classify)];
+  const result = () => ({ chain, model, start, amount, hops: upTo(hops, maxHops) });
+
+  onHop?.(result());
+  while (hops.length < maxHops) {
+    const last = hops[hops.length - 1];
+    if (last.expanded || !last.nodes.some((n) => !n.category && !n.revisit)) break;
+    signal?.throwIfAborted();
+    const [expanded, next] = await expandHop(hops, model, amount * DUST_SHARE, classify, fetchTxs);
+    signal?.throwIfAborted();
+    hops = [...hops.slice(0, -1), expanded, ...(next.nodes.length ? [next] : [])];
+    cache.set(key, hops);
+    onHop?.(result());
+    if (!next.nodes.length) break;
+  }
+  return result();
+}
+
+/* ---- Summary ---- */
+
+export function nodeStatus(n: TraceNode): NodeStatus {
+  if (n.category) return n.category;
+  if (n.revisit) return "revisited";
+  if (n.error) return "error";
+  if (n.skipped) return "skipped";
+  if (!n.outflows) return "hop-limit";
+  if (n.incomplete) return "incomplete";
+  return "traced";
+}
+
+/**
+ * Tainted amount that ends at `n`: all of it at endpoints, what it still
+ * holds when traced through. With an incomplete history that remainder is
+ * what couldn't be accounted for, not a holding.
+ */
+export function endAmount(n: TraceNode) {
+  const status = nodeStatus(n);
+  return status === "traced" || status === "incomplete" ? (n.held ?? 0) : n.received;
+}
+
+export function forwarded(n: TraceNode) {
+  return (n.outflows ?? []).reduce((s, o) => s + o.tainted, 0);
+}
+
+export type TraceSummary = {
+  amount: number;
+  exchanges: number;
+  mixers: number;
+  held: number;
+  unfollowed: number;  // hop limit, skipped, errors, revisits and incomplete histories
+  dust: number;
+  hops: number;
+  addresses: number;
+};
+
+export function summarizeTrace(r: TraceResult): TraceSummary {
+  const s = { amount: r.amount, exchanges: 0, mixers: 0, held: 0, unfollowed: 0, dust: 0, hops: r.hops.length, addresses: 0 };
+  for (const h of r.hops) {
+    for (const n of h.nodes) {
+      s.addresses += 1;
+      const status = nodeStatus(n);
+      const v = endAmount(n);
+      if (status === "exchange") s.exchanges += v;
+      else if (status === "mixer") s.mixers += v;
+      else if (status === "traced") s.held += v;
+      else s.unfollowed += v;
+    }
+  }
+  s.dust = Math.max(0, r.amount - s.exchanges - s.mixers - s.held - s.unfollowed);
+  return s;
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { analyzeFullHistory, type Chain, type TxItem } from "@/lib/api";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { useLabels } from "@/labels/useLabels";
+import type { TaintModel } from "./taint";
+import {
+  clearTraceCache,
+  runTrace,
+  type AddressHistory,
+  type Classifier,
+  type TraceCategory,
+  type TraceResult,
+} from "./trace";
+
+const CATEGORY_TAGS: TraceCategory[] = ["exchange", "mixer"];
+/** History pages (of 200) read per address; a busier address is marked incomplete. */
+const MAX_HISTORY_PAGES = 10;
+
+/**
+ * Exchanges and mixers known on this chain, from watchlist tags and the
+ * address label database. Labels win, and a label for this chain wins over
+ * one for every chain.
+ */
+function useKnownCategories(chain: Chain) {
+  const { data: entries } = useWatchlist();
+  const { data: labels } = useLabels();
+  return useMemo(() => {
+    const known = new Map<string, TraceCategory>();
+    for (const e of entries ?? []) {
+      if (e.chain !== chain) continue;
+      const tag = CATEGORY_TAGS.find((c) => e.tags.some((t) => t.toLowerCase() === c));
+      if (tag) known.set(e.address.toLowerCase(), tag);
+    }
+    const applicable = (labels ?? []).filter((l) => !l.chain || l.chain === chain);
+    for (const l of [...applicable.filter((l) => !l.chain), ...applicable.filter((l) => l.chain)]) {
+      const category = CATEGORY_TAGS.find((c) => c === l.category);
+      if (category) known.set(l.address.toLowerCase(), category);
+      else known.delete(l.address.toLowerCase());
+    }
+    const classify: Classifier = (address) => known.get(address.toLowerCase()) ?? null;
+    const key = [...known].map(([a, c]) => `${a}=${c}`).sort().join(",");
+    return { classify, key };
+  }, [entries, labels, chain]);
+}
+
+/**
+ * Runs a trace from `start` and re-runs when the model or hop limit changes.
+ * Each address's history is paged back to its first tainted inflow and
+ * cached; finished hops come from the trace cache, so only new hops hit the
+ * backend.
+ */
+export function useTrace(chain: Chain, start: TxItem | null, model: TaintModel, maxHops: number) {
+  const queryClient = useQueryClient();
+  const { classify, key } = useKnownCategories(chain);
+  const [result, setResult] = useState<TraceResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [run, setRun] = useState(0);
+  // the wallet's list refetches in the background; only a different transaction restarts the trace
+  const startRef = useRef(start);
+  startRef.current = start;
+  const startHash = start?.txHash ?? null;
+
+  const fetchTxs = useCallback(
+    async (address: string, since: number): Promise<AddressHistory> => {
+      const res = await queryClient.fetchQuery({
+        queryKey: ["analyze-history", chain, address, { since }],
+        queryFn: ({ signal }) => analyzeFullHistory(chain, address, { signal, since, maxPages: MAX_HISTORY_PAGES }),
+        staleTime: 5 * 60_000,
+      });
+      return { items: res.items ?? [], complete: res.complete };
+    },
+    [chain, queryClient]
+  );
+
+  useEffect(() => {
+    const start = startRef.current;
+    if (!start) {
+      setResult(null);
+      return;
+    }
+    const ctrl = new AbortController();
+    setRunning(true);
+    setError(null);
+    runTrace({
+      chain,
+      start,
+      model,
+      maxHops,
+      classify,
+      classifierKey: key,
+      fetchTxs,
+      signal: ctrl.signal,
+      onHop: (r) => !ctrl.signal.aborted && setResult(r),
+    })
+      .catch((e) => !ctrl.signal.aborted && setError(e))
+      .finally(() => !ctrl.signal.aborted && setRunning(false));
+    return () => ctrl.abort();
+  }, [chain, startHash, model, maxHops, classify, key, fetchTxs, run]);
+
+  /** Drop cached hops (e.g. after errors) and trace again. */
+  const rerun = useCallback(() => {
+    clearTraceCache();
+    setRun((n) => n + 1);
+  }, []);
+
+  return { result, running, error, rerun };
+}
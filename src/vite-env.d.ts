@@ -1 +1,28 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE?: string;
+  /** Comma-separated chain ids the backend has adapters for (see src/lib/chains.ts); all when unset. */
+  readonly VITE_CHAINS?: string;
+  /** Historical price provider (see src/pricing/priceSources.ts): "api" (default) or "fixture". */
+  readonly VITE_PRICE_SOURCE?: string;
+  /** Address label storage (see src/labels/labelStore.ts): "api" (default) or "memory". */
+  readonly VITE_LABEL_STORE?: string;
+  /** Blocklist feed on the API (see src/screening/sources.ts): a path, "/api/screening/lists" by default, or "off". */
+  readonly VITE_BLOCKLIST_ENDPOINT?: string;
+
+  // SSO (see src/auth/oidc.ts). A provider is enabled once its client id is set.
+  readonly VITE_OIDC_REDIRECT_URI?: string;
+  readonly VITE_OIDC_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_OIDC_GOOGLE_ISSUER?: string;
+  readonly VITE_OIDC_GOOGLE_AUTHORIZE_URL?: string;
+  readonly VITE_OIDC_GOOGLE_SCOPE?: string;
+  readonly VITE_OIDC_GITHUB_CLIENT_ID?: string;
+  readonly VITE_OIDC_GITHUB_ISSUER?: string;
+  readonly VITE_OIDC_GITHUB_AUTHORIZE_URL?: string;
+  readonly VITE_OIDC_GITHUB_SCOPE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
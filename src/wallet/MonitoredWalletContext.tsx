@@ -0,0 +1,86 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { Chain } from "@/lib/api";
+import { chainOf } from "@/lib/address";
+import { isChain } from "@/lib/chains";
+
+// Keys predate this store; kept so a reload picks up the last analyzed wallet.
+const ADDRESS_KEY = "last_address";
+const CHAIN_KEY = "last_chain";
+const CHANNEL = "monitored-wallet";
+
+export type MonitoredWallet = { address: string | null; chain: Chain };
+
+type WalletCtx = MonitoredWallet & {
+  /** Start monitoring an address; chain comes from the address when omitted (current chain if unrecognised). */
+  setWallet: (address: string, chain?: Chain) => void;
+  setChain: (chain: Chain) => void;
+  clear: () => void;
+};
+
+function readStored(): MonitoredWallet {
+  const address = localStorage.getItem(ADDRESS_KEY) || null;
+  const stored = localStorage.getItem(CHAIN_KEY);
+  const chain = isChain(stored) ? stored : (address && chainOf(address)) || "eth";
+  return { address, chain };
+}
+
+function writeStored(w: MonitoredWallet) {
+  if (w.address) localStorage.setItem(ADDRESS_KEY, w.address);
+  else localStorage.removeItem(ADDRESS_KEY);
+  localStorage.setItem(CHAIN_KEY, w.chain);
+}
+
+const Ctx = createContext<WalletCtx | null>(null);
+export const useMonitoredWallet = () => {
+  const v = useContext(Ctx);
+  if (!v) throw new Error("useMonitoredWallet must be used within <MonitoredWalletProvider>");
+  return v;
+};
+
+/**
+ * Single source of truth for the wallet every page is looking at. Changes are
+ * persisted to localStorage and pushed to other tabs over BroadcastChannel, with
+ * the `storage` event as a fallback where the channel isn't available.
+ */
+export const MonitoredWalletProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [wallet, setState] = useState<MonitoredWallet>(readStored);
+  const [channel] = useState(() => (typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL) : null));
+
+  useEffect(() => {
+    const onMessage = (e: MessageEvent<MonitoredWallet>) => setState(e.data);
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key === ADDRESS_KEY || e.key === CHAIN_KEY) setState(readStored());
+    };
+    channel?.addEventListener("message", onMessage);
+    window.addEventListener("storage", onStorage);
+    return () => {
+      channel?.removeEventListener("message", onMessage);
+      window.removeEventListener("storage", onStorage);
+    };
+  }, [channel]);
+
+  useEffect(() => () => channel?.close(), [channel]);
+
+  const update = useCallback(
+    (next: MonitoredWallet) => {
+      setState((prev) => (prev.address === next.address && prev.chain === next.chain ? prev : next));
+      writeStored(next);
+      channel?.postMessage(next);
+    },
+    [channel]
+  );
+
+  const setWallet = useCallback(
+    (address: string, chain?: Chain) => {
+      const a = address.trim();
+      update({ address: a || null, chain: chain ?? (chainOf(a, wallet.chain) || wallet.chain) });
+    },
+    [update, wallet.chain]
+  );
+
+  const setChain = useCallback((chain: Chain) => update({ ...wallet, chain }), [update, wallet]);
+  const clear = useCallback(() => update({ address: null, chain: wallet.chain }), [update, wallet.chain]);
+
+  const value = useMemo(() => ({ ...wallet, setWallet, setChain, clear }), [wallet, setWallet, setChain, clear]);
+  return <Ctx.Provider value={value}>{children}</Ctx.Provider>;
+};
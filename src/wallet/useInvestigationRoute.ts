@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import type { Chain } from "@/lib/api";
+import { chainOf } from "@/lib/address";
+import { isChain } from "@/lib/chains";
+import { useMonitoredWallet } from "./MonitoredWalletContext";
+
+/** Query-string keys shared by the investigation pages. */
+export type InvestigationParam =
+  | "q"
+  | "tab"
+  // pre-query-builder filter params, still read from old links
+  | "status"
+  | "risk"
+  | "dir"
+  | "mixer"
+  | "tx"
+  | "from"
+  | "to"
+  | "page"
+  | "size"
+  | "scope"
+  | "sort"
+  | "cols"
+  // fund tracing
+  | "model"
+  | "hops";
+
+type NavOpts = { replace?: boolean };
+
+/** `/transactions` + eth + 0xabc → `/transactions/eth/0xabc` */
+export function investigationPath(page: string, chain: Chain, address?: string | null) {
+  return address ? `${page}/${chain}/${encodeURIComponent(address)}` : page;
+}
+
+/**
+ * Wallet, chain and filters for a page mounted at `/<page>/:chain?/:address?`.
+ *
+ * The URL wins: a shared link hydrates the monitored-wallet store, and
+ * back/forward replays earlier wallets. Pages opened without a wallet in the
+ * path adopt the store's wallet (replacing the entry, so links stay shareable),
+ * and a wallet switched in another tab is mirrored into this tab's URL.
+ */
+export function useInvestigationRoute() {
+  const params = useParams<{ chain?: string; address?: string }>();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const wallet = useMonitoredWallet();
+
+  const page = `/${location.pathname.split("/")[1] ?? ""}`;
+  const urlAddress = params.address?.trim() || null;
+  const urlChain: Chain | null = urlAddress
+    ? isChain(params.chain) ? params.chain : chainOf(urlAddress, wallet.chain) ?? wallet.chain
+    : null;
+
+  const address = urlAddress ?? wallet.address;
+  const chain = urlChain ?? wallet.chain;
+
+  const go = useCallback(
+    (nextChain: Chain, nextAddress: string | null, search: URLSearchParams | string, opts?: NavOpts) => {
+      const qs = search.toString();
+      navigate({ pathname: investigationPath(page, nextChain, nextAddress), search: qs ? `?${qs}` : "" }, opts);
+    },
+    [navigate, page]
+  );
+
+  // the sync effects below each re-run on one side only and read the rest from here
+  const latest = useRef({ wallet, go, search: location.search, urlAddress, urlChain });
+  latest.current = { wallet, go, search: location.search, urlAddress, urlChain };
+
+  // URL → store (initial load, shared links, back/forward)
+  useEffect(() => {
+    const { wallet, go, search } = latest.current;
+    if (urlAddress) {
+      if (urlAddress !== wallet.address || urlChain !== wallet.chain) wallet.setWallet(urlAddress, urlChain);
+    } else if (wallet.address) {
+      go(wallet.chain, wallet.address, search.slice(1), { replace: true });
+    }
+  }, [urlAddress, urlChain]);
+
+  // store → URL (wallet switched in another tab)
+  const seen = useRef(`${wallet.chain}:${wallet.address}`);
+  useEffect(() => {
+    const key = `${wallet.chain}:${wallet.address}`;
+    if (key === seen.current) return;
+    seen.current = key;
+    const { go, urlAddress, urlChain } = latest.current;
+    if (wallet.address && (wallet.address !== urlAddress || wallet.chain !== urlChain)) {
+      go(wallet.chain, wallet.address, "", { replace: true });
+    }
+  }, [wallet.chain, wallet.address]);
+
+  /** Investigate another wallet; pushes a history entry and drops page filters. */
+  const openWallet = useCallback(
+    (nextAddress: string, nextChain?: Chain) => {
+      const a = nextAddress.trim();
+      if (!a) return;
+      go(nextChain ?? chainOf(a, chain) ?? chain, a, "");
+    },
+    [chain, go]
+  );
+
+  const setChain = useCallback(
+    (nextChain: Chain) => {
+      if (address) go(nextChain, address, searchParams);
+      else wallet.setChain(nextChain);
+    },
+    [address, go, searchParams, wallet]
+  );
+
+  const getParam = useCallback((key: InvestigationParam) => searchParams.get(key), [searchParams]);
+
+  /** Patch the query string; `null`/empty removes a key. Pushes history unless `replace`. */
+  const setParams = useCallback(
+    (patch: Partial<Record<InvestigationParam, string | null>>, opts?: NavOpts) => {
+      const next = new URLSearchParams(searchParams);
+      for (const [k, v] of Object.entries(patch)) {
+        if (v) next.set(k, v);
+        else next.delete(k);
+      }
+      go(chain, address, next, opts);
+    },
+    [address, chain, go, searchParams]
+  );
+
+  return { chain, address, openWallet, setChain, getParam, setParams };
+}
@@ -0,0 +1,30 @@
+import type { TxItem } from "@/lib/api";
+import { filterAndSort, type TxFilters, type TxSort } from "@/lib/txFilter";
+
+/**
+ * Off-main-thread filter/sort for large transaction lists. The list is sent
+ * once per version; queries only carry filters and get back row indices.
+ */
+export type TxWorkerRequest =
+  | { type: "load"; version: number; items: TxItem[] }
+  | { type: "query"; seq: number; version: number; filters: TxFilters; sort: TxSort };
+
+export type TxWorkerResponse = { seq: number; version: number; indices: Int32Array; ms: number };
+
+let items: TxItem[] = [];
+let loaded = -1;
+
+self.onmessage = (e: MessageEvent<TxWorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === "load") {
+    items = msg.items;
+    loaded = msg.version;
+    return;
+  }
+  // messages are ordered, so a query for an unknown version is already stale
+  if (msg.version !== loaded) return;
+  const started = performance.now();
+  const indices = filterAndSort(items, msg.filters, msg.sort);
+  const res: TxWorkerResponse = { seq: msg.seq, version: msg.version, indices, ms: performance.now() - started };
+  self.postMessage(res, { transfer: [indices.buffer] });
+};